@@ -8,6 +8,16 @@
  *   doc-organize --apply            # Apply high-confidence moves
  *   doc-organize --ai               # Use AI for low-confidence files
  *   doc-organize --ai --apply       # Apply moves with AI enhancement
+ *   doc-organize --fix              # Rename files that break naming rules
+ *   doc-organize undo               # Undo the last applied moves
+ *   doc-organize train              # Train the offline classifier
+ *   doc-organize decide reject <f>  # Stop suggesting a move for a file
+ *   doc-organize config validate    # Check the config file
+ *   doc-organize detect             # Detect the project type
+ *   doc-organize index              # Write folder index pages
+ *   doc-organize health             # Score documentation health
+ *   doc-organize check-links        # Report broken links and anchors
+ *   doc-organize trend              # Show the health score history
  *   doc-organize mcp                # Start MCP server
  */
 
@@ -20,17 +30,97 @@ doc-organize - AI-powered documentation organizer
 
 USAGE:
   doc-organize [options]
+  doc-organize undo [--id <id>] [--force] [--list]
+  doc-organize train [--evaluate]
+  doc-organize decide <accept|reject|override|forget> <file> [destination]
+  doc-organize decide --list
+  doc-organize config <validate|print> [--json]
+  doc-organize detect [--json]
+  doc-organize index [--check]
+  doc-organize health [--compare-code] [--stale-days <n>] [--record] [--json]
+  doc-organize check-links [--json]
+  doc-organize trend [--since <commit|date>] [--limit <n>] [--fail-on-regression] [--json]
 
 OPTIONS:
-  --apply       Apply high-confidence file moves
+  --apply       Apply high-confidence file moves (tracked files are moved
+                with git mv so history is preserved)
+  --fix         Rename files to comply with the naming rules (links are
+                rewritten and the renames can be undone like --apply)
+  --force       Move tracked files even if they have uncommitted changes
+  --no-ignore   Scan files matched by .gitignore / .doc-organizerignore
+  --no-workspaces
+                Treat a monorepo as a single project
+  --config <path>
+                Read this config file instead of looking for one
   --ai          Enable AI enhancement for low-confidence files
                 (requires ANTHROPIC_API_KEY environment variable)
   --help, -h    Show this help message
   mcp           Start MCP server for Claude Code integration
 
+COMMANDS:
+  undo          Undo an applied run from .doc-organizer/journal/
+                (the latest by default; --id picks one, --list shows them,
+                --force undoes even when files changed after the move)
+  train         Train the offline classifier on docs that are already in
+                the right folder and save it to .doc-organizer/model.json.
+                It is used without any network access for files below
+                ai.fallbackThreshold (--evaluate reports cross-validated
+                accuracy; set "localModel": { "enabled": false } to opt out)
+  decide        Record a decision in .doc-organizer/decisions.json:
+                accept applies the current suggestion with full confidence,
+                reject stops suggesting it, override makes [destination]
+                (or the current location) the expected place, forget drops
+                the decision. Decisions lapse when the file's content changes.
+  config        validate checks the config file against the schema and
+                reports every problem with its key path; print shows the
+                effective configuration and where each value came from
+                (--json prints it as JSON)
+  detect        Detect the project type from package.json, Python project
+                files, notebooks, OpenAPI documents and mobile build files,
+                with its confidence and evidence. Set "projectType": "auto"
+                to use the detected type.
+  index         Write a README.md (or index.md, see "indexes") in each
+                destination folder listing its docs with their title and
+                summary, grouped by category. Only the region between the
+                doc-organizer:index markers is rewritten. --check lists
+                indexes that are out of date and exits with code 1.
+  health        Score documentation health (misplaced, stale, orphaned,
+                misnamed and duplicate docs, stale indexes), list docs no
+                doc links to and docs README.md does not lead to, and each
+                doc's age, last author and freshness. Age comes from the
+                last git commit that changed the file, following renames
+                (the modification time outside git). --compare-code also
+                counts how long the code a doc links to or names in
+                \`path/to/file\` spans changed after the doc; --stale-days
+                sets when a doc is stale (default 90); --record appends
+                the score and issue counts to .doc-organizer/history.json.
+  check-links   Check every relative link and image in the docs, including
+                #heading anchors (GitHub slug rules), and list broken ones
+                with file, line and column and the closest existing target.
+                Exits with code 1 when a link is broken.
+  trend         Show the health score of the snapshots recorded with
+                "health --record" and the issues that regressed in the
+                latest one since --since (a commit SHA or a date; the
+                previous snapshot by default). --fail-on-regression exits
+                with code 1 when the score dropped or any issue count grew.
+
 CONFIGURATION:
-  Place a .doc-organizer.json file in your project root, or add a
-  "docOrganizer" key to your package.json.
+  Place a .doc-organizer.json (or .doc-organizer.yaml, .doc-organizer.js,
+  doc-organizer.config.mjs, doc-organizer.config.ts) file in your project
+  root, or add a "docOrganizer" key to your package.json. Unknown keys, wrong
+  types and invalid patterns are errors; run "doc-organize config validate"
+  to list them. TypeScript and .mjs configs need the "typescript" package.
+
+  In a monorepo (npm/yarn "workspaces", pnpm-workspace.yaml, or packages
+  with their own config file) every package is scanned separately with its
+  config layered on the root config, its own project type ("auto" unless
+  set) and destinations relative to the package. Set "workspaces": false
+  or pass --no-workspaces to scan the repository as one project.
+
+  "extends" builds on presets or other config files, applied in order
+  before the file's own settings:
+    { "extends": ["preset:library", "../shared/doc-organizer.yaml"] }
+  Presets: web-app, library, api, data-science, mobile, documentation.
 
   Example .doc-organizer.json:
   {
@@ -41,14 +131,82 @@ CONFIGURATION:
     },
     "ai": {
       "enabled": true
+    },
+    "collisions": {
+      "strategy": "suffix"
     }
   }
 
+  "excludePatterns" and "protectedFiles" take gitignore-style globs,
+  e.g. "build", "docs/**/legacy/*.md" or "!docs/keep.md".
+
+  Every category is scored against the file name, H1/H2 headings,
+  keyword density ("keywords": { "setup": ["install", ...] }), the current
+  directory and front-matter tags. Tune "scoring": { "weights": { "filename",
+  "headings", "keywords", "directory", "frontMatter" }, "ambiguityPenalty" }
+  to change how much each signal counts and how much a close runner-up
+  lowers confidence.
+
+  "categories" declares custom categories, or refines built-in ones:
+    { "name": "security", "description": "Threat models and security reviews",
+      "patterns": ["^security", "^threat-model"], "destination": "{aiDocs}/security/",
+      "keywords": ["threat", "vulnerab"], "examples": ["threat-model-auth.md"] }
+  Descriptions and examples are given to the AI, which can choose any
+  category, including ones only listed in "patterns".
+
+  "outlineRules" match document structure, e.g.
+    { "category": "setup", "headings": ["^installation"],
+      "fenceLanguages": ["sh", "bash"] }
+  Every listed condition ("headings", "fenceLanguages", "tables", "links")
+  must hold; rules are added to the built-in ones.
+
+  "namingRules" set file naming conventions per directory or category:
+    { "name": "adr-names", "directories": ["docs/adr/"], "severity": "error",
+      "datePrefix": "NNNN", "case": "kebab-case", "maxLength": 60 }
+  Checks: "case" (kebab-case, snake_case, camelCase, PascalCase), "prefix",
+  "suffix", "maxLength", "forbiddenWords", "forbiddenNames", "datePrefix"
+  (YYYY, MM, DD and N... for sequence numbers), "noSpaces", "noUppercase".
+  Severities are "error" (exit code 1), "warning" (default), "info" and
+  "off"; a rule named like a built-in one (vague-names, feature-kebab-case)
+  replaces it. Protected files are never checked.
+
+  "thresholds": { "duplicate": 0.5 } sets how similar (shared 3-word
+  shingles) two documents must be to be reported as near duplicates.
+
+  "indexes": { "fileName": "index.md" } writes index.md instead of README.md
+  for new folder indexes; existing pages with index markers are kept.
+
+  "extensions" lists the document types to scan (default [".md"]), e.g.
+  [".md", ".mdx", ".rst", ".adoc", ".txt"]. Extensions are kept when files
+  move; links are only rewritten in Markdown and MDX files.
+
+  Documents can override the classifier with front matter,
+    ---
+    doc-organizer: { category: architecture, destination: "{aiDocs}/adr/" }
+    ---
+  or "pin: true" to keep a file in place. An HTML comment works too:
+    <!-- doc-organizer: ignore -->
+
+  Collision strategies (two files, or an existing file, at one destination):
+  "skip" (default) leaves them in place, "suffix" appends the source
+  directory to the file name, "fail" refuses to apply any moves.
+
 EXAMPLES:
   doc-organize                  # Analyze and show report
   doc-organize --apply          # Apply high-confidence moves
   doc-organize --ai             # Use AI for ambiguous files
   doc-organize --ai --apply     # Apply with AI enhancement
+  doc-organize --fix            # Rename files that break naming rules
+  doc-organize undo             # Undo the last --apply
+  doc-organize train --evaluate # Retrain the offline model and score it
+  doc-organize decide override notes/deploy.md docs/ops/
+  doc-organize config print     # Show the effective configuration
+  doc-organize detect           # Show the detected project type
+  doc-organize index --check    # Fail when a folder index is out of date
+  doc-organize health --compare-code
+  doc-organize check-links      # Fail on broken links and anchors
+  doc-organize health --record && doc-organize trend --fail-on-regression
+  doc-organize --config docs/doc-organizer.yaml
   doc-organize mcp              # Start MCP server
 `);
   process.exit(0);
@@ -60,18 +218,420 @@ if (args.includes('mcp') || args.includes('--mcp')) {
   process.exit(0);
 }
 
+/**
+ * Read the value following a flag, e.g. --id <value>
+ */
+function getFlagValue(flag) {
+  const index = args.indexOf(flag);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+// Explicit config file, taken out of args so positional arguments stay in place
+const configFile = getFlagValue('--config');
+if (configFile !== undefined) {
+  args.splice(args.indexOf('--config'), 2);
+}
+
+// Undo mode
+if (args[0] === 'undo') {
+  const { undoJournal, listJournals } = require('../dist/journal.js');
+
+  if (args.includes('--list')) {
+    const entries = listJournals();
+    if (entries.length === 0) {
+      console.log('No journal entries found.');
+    }
+    entries.forEach(entry => {
+      const status = entry.undoneAt ? ` (undone ${entry.undoneAt})` : '';
+      console.log(`${entry.id}  ${entry.moves.length} moves, ${entry.linkRewrites.length} link rewrites${status}`);
+    });
+    process.exit(0);
+  }
+
+  try {
+    const result = undoJournal(getFlagValue('--id'), { force: args.includes('--force') });
+    console.log(`↩️  Undoing ${result.id}\n`);
+    result.moves.forEach(move => {
+      const status = move.success ? '✅' : `❌ ${move.error}`;
+      console.log(`   ${move.from} → ${move.to} ${status}`);
+    });
+    result.warnings.forEach(warning => console.log(`   ⚠️  ${warning}`));
+    console.log(`\n✅ Restored: ${result.restored}`);
+    console.log(`❌ Failed: ${result.failed}`);
+    console.log(`🔗 Links reverted: ${result.revertedLinks}`);
+    process.exit(result.failed > 0 ? 1 : 0);
+  } catch (error) {
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  }
+}
+
 // Standard doc-organizer mode
 const { DocumentationOrganizer, loadConfiguration } = require('../dist/organizer.js');
 
+// Config mode
+if (args[0] === 'config') {
+  const { findConfiguration, explainConfiguration } = require('../dist/organizer.js');
+  const { formatConfigValue, formatIssue } = require('../dist/config-schema.js');
+  const action = args[1];
+
+  if (!['validate', 'print'].includes(action)) {
+    console.error('Usage: doc-organize config <validate|print> [--json]');
+    process.exit(1);
+  }
+
+  try {
+    if (action === 'validate') {
+      const loaded = findConfiguration('.', configFile);
+      if (loaded) {
+        new DocumentationOrganizer(loaded.config);
+        console.log(`✅ ${loaded.file} is valid`);
+      } else {
+        console.log('No configuration file found; using defaults.');
+      }
+      process.exit(0);
+    }
+
+    const values = explainConfiguration('.', configFile);
+    if (args.includes('--json')) {
+      const json = values.map(({ path, value, source }) => ({ path, value: formatConfigValue(value), source }));
+      console.log(JSON.stringify(json, null, 2));
+      process.exit(0);
+    }
+    values.forEach(({ path, value, source }) => {
+      console.log(`${path} = ${formatConfigValue(value)}  (${source})`);
+    });
+    process.exit(0);
+  } catch (error) {
+    if (error.issues) {
+      console.error(`❌ ${error.issues.length} configuration problem(s):`);
+      error.issues.forEach(issue => console.error(`   ${formatIssue(issue)}`));
+    } else {
+      console.error(`Error: ${error.message}`);
+    }
+    process.exit(1);
+  }
+}
+
+// Detect mode
+if (args[0] === 'detect') {
+  const { detectProjectType } = require('../dist/project-detector.js');
+  const detection = detectProjectType('.');
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(detection, null, 2));
+    process.exit(0);
+  }
+
+  console.log(`🔎 Project type: ${detection.projectType} (${(detection.confidence * 100).toFixed(0)}% confidence)\n`);
+  detection.evidence.forEach(reason => console.log(`   ✓ ${reason}`));
+  const others = detection.candidates.slice(1);
+  if (others.length > 0) {
+    console.log('\n   Also considered:');
+    others.forEach(candidate => {
+      console.log(`   ${candidate.projectType} (${(candidate.score * 100).toFixed(0)}%): ${candidate.evidence.join('; ')}`);
+    });
+  }
+  console.log('\n💡 Set "projectType": "auto" to use the detected type');
+  process.exit(0);
+}
+
+// Index mode
+if (args[0] === 'index') {
+  const { writeFolderIndexes, findStaleIndexes } = require('../dist/index-generator.js');
+
+  try {
+    const organizer = new DocumentationOrganizer(loadConfiguration('.', configFile));
+
+    if (args.includes('--check')) {
+      const stale = findStaleIndexes(organizer);
+      if (stale.length === 0) {
+        console.log('✅ Folder indexes are up to date');
+        process.exit(0);
+      }
+      console.log(`❌ ${stale.length} folder index(es) out of date:`);
+      stale.forEach(index => console.log(`   ${index.file}`));
+      console.log('\n💡 Run "doc-organize index" to update them');
+      process.exit(1);
+    }
+
+    const written = writeFolderIndexes(organizer);
+    if (written.length === 0) {
+      console.log('✅ Folder indexes are up to date');
+    }
+    written.forEach(index => {
+      const verb = index.current === null ? 'Created' : 'Updated';
+      console.log(`📑 ${verb} ${index.file} (${index.entries.length} docs)`);
+    });
+    process.exit(0);
+  } catch (error) {
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+// Health mode
+if (args[0] === 'health') {
+  const { checkHealth, healthGrade, healthRecommendations } = require('../dist/health-check.js');
+  const staleDays = Number(getFlagValue('--stale-days') || 90);
+
+  if (!(staleDays > 0)) {
+    console.error('Usage: doc-organize health [--compare-code] [--stale-days <n>] [--json]');
+    process.exit(1);
+  }
+
+  try {
+    const organizer = new DocumentationOrganizer(loadConfiguration('.', configFile));
+    const result = checkHealth(organizer, { staleDays, compareCode: args.includes('--compare-code') });
+    const recommendations = healthRecommendations(result, staleDays);
+    if (args.includes('--record')) {
+      const { createSnapshot, recordSnapshot } = require('../dist/health-history.js');
+      const file = recordSnapshot(createSnapshot(result, organizer.config.rootDir), organizer.config.rootDir);
+      if (!args.includes('--json')) {
+        console.log(`📝 Recorded snapshot in ${file}\n`);
+      }
+    }
+
+    if (args.includes('--json')) {
+      console.log(JSON.stringify({ ...result, staleDays, recommendations, healthGrade: healthGrade(result.healthScore) }, null, 2));
+      process.exit(0);
+    }
+
+    console.log(`🩺 Health score: ${result.healthScore}/100 (${healthGrade(result.healthScore)})\n`);
+    console.log(`   Files: ${result.totalFiles}`);
+    console.log(`   Misplaced: ${result.misplacedFiles}`);
+    console.log(`   Stale (${staleDays}+ days): ${result.staleFiles.length}`);
+    console.log(`   Orphaned: ${result.orphanedFiles.length}`);
+    console.log(`   Unreachable from README.md: ${result.unreachable.reduce((sum, subtree) => sum + subtree.files.length, 0)}`);
+    console.log(`   Naming violations: ${result.namingViolations.length}`);
+    console.log(`   Out-of-date indexes: ${result.staleIndexes.length}`);
+    console.log(`   Broken links: ${result.brokenLinks.length}`);
+    console.log(`   Duplicate groups: ${result.duplicates.length}`);
+
+    if (result.freshness.length > 0) {
+      console.log('\n🕰️  FRESHNESS (stalest first):');
+      result.freshness.forEach(doc => {
+        const icon = doc.stale ? '⚠️ ' : '✅';
+        const author = doc.source === 'git' ? doc.author : 'file mtime';
+        const lag = doc.behindCodeDays ? `, code changed ${doc.behindCodeDays}d later` : '';
+        console.log(`   ${icon} ${doc.freshness.toFixed(2)}  ${doc.file} (${doc.ageDays}d, ${author}${lag})`);
+      });
+    }
+
+    if (result.orphanedFiles.length > 0) {
+      console.log('\n🔗 ORPHANED (no doc links to them):');
+      result.orphanedFiles.forEach(file => console.log(`   ${file}`));
+    }
+    if (result.unreachable.length > 0) {
+      console.log('\n🧭 UNREACHABLE FROM README.md:');
+      result.unreachable.forEach(subtree => {
+        const count = subtree.root.endsWith('/') ? ` (${subtree.files.length} docs)` : '';
+        console.log(`   ${subtree.root}${count}`);
+      });
+    }
+
+    if (recommendations.length > 0) {
+      console.log('\n💡 RECOMMENDATIONS:');
+      recommendations.forEach(recommendation => console.log(`   • ${recommendation}`));
+    }
+    process.exit(0);
+  } catch (error) {
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+// Trend mode
+if (args[0] === 'trend') {
+  const { readHistory, findSnapshot, compareSnapshots } = require('../dist/health-history.js');
+  const since = getFlagValue('--since');
+  const limit = Number(getFlagValue('--limit') || 20);
+  const labels = {
+    healthScore: 'Health score',
+    misplaced: 'Misplaced',
+    stale: 'Stale',
+    orphaned: 'Orphaned',
+    unreachable: 'Unreachable from README.md',
+    namingViolations: 'Naming violations',
+    staleIndexes: 'Out-of-date indexes',
+    brokenLinks: 'Broken links',
+    duplicates: 'Duplicate documents'
+  };
+
+  try {
+    const history = readHistory('.');
+    const latest = history[history.length - 1];
+    const baseline = since !== undefined ? findSnapshot(history, since) : history[history.length - 2];
+    if (since !== undefined && !baseline) {
+      console.error(`No snapshot matches "${since}"`);
+      process.exit(1);
+    }
+    const regressions = baseline && latest ? compareSnapshots(baseline, latest) : [];
+    const exitCode = args.includes('--fail-on-regression') && regressions.length > 0 ? 1 : 0;
+
+    if (args.includes('--json')) {
+      console.log(JSON.stringify({ snapshots: history.slice(-limit), baseline: baseline || null, latest: latest || null, regressions }, null, 2));
+      process.exit(exitCode);
+    }
+    if (history.length === 0) {
+      console.log('No health snapshots yet. Record one with "doc-organize health --record".');
+      process.exit(0);
+    }
+
+    const describe = snapshot =>
+      `${snapshot.timestamp.slice(0, 16).replace('T', ' ')}  ${snapshot.commit ? snapshot.commit.slice(0, 7) : '-------'}`;
+    console.log(`📈 Health score trend (${history.length} snapshot(s)):\n`);
+    history.slice(-limit).forEach(snapshot => {
+      const bar = '█'.repeat(Math.round(snapshot.healthScore / 5));
+      console.log(`   ${describe(snapshot)}  ${String(snapshot.healthScore).padStart(3)} ${snapshot.grade}  ${bar}`);
+    });
+
+    if (!baseline) {
+      console.log('\n   Record another snapshot to compare against.');
+      process.exit(0);
+    }
+    if (regressions.length === 0) {
+      console.log(`\n✅ No regressions since ${describe(baseline)}`);
+      process.exit(0);
+    }
+    console.log(`\n🔻 Regressions since ${describe(baseline)}:`);
+    regressions.forEach(regression => {
+      console.log(`   ${labels[regression.metric]}: ${regression.before} → ${regression.after}`);
+    });
+    process.exit(exitCode);
+  } catch (error) {
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+// Check links mode
+if (args[0] === 'check-links') {
+  const { checkLinks } = require('../dist/link-checker.js');
+
+  try {
+    const organizer = new DocumentationOrganizer(loadConfiguration('.', configFile));
+    const broken = checkLinks(organizer);
+
+    if (args.includes('--json')) {
+      console.log(JSON.stringify(broken, null, 2));
+      process.exit(broken.length === 0 ? 0 : 1);
+    }
+    if (broken.length === 0) {
+      console.log('✅ No broken links');
+      process.exit(0);
+    }
+
+    console.log(`❌ ${broken.length} broken link(s):\n`);
+    broken.forEach(link => {
+      const reason = link.reason === 'missing-anchor' ? 'no such heading' : 'no such file';
+      console.log(`   ${link.file}:${link.line}:${link.column}  ${link.target}  (${reason})`);
+      if (link.suggestion) {
+        console.log(`      💡 did you mean ${link.suggestion}?`);
+      }
+    });
+    process.exit(1);
+  } catch (error) {
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+// Decide mode
+if (args[0] === 'decide') {
+  const { readDecisions, forgetDecision } = require('../dist/decisions.js');
+  const [, action, file, destination] = args;
+
+  if (args.includes('--list')) {
+    const decisions = readDecisions();
+    if (decisions.length === 0) {
+      console.log('No decisions recorded.');
+    }
+    decisions.forEach(decision => {
+      const where = decision.destination ? ` → ${decision.destination}` : ` (not ${decision.suggested})`;
+      console.log(`${decision.action.padEnd(8)} ${decision.file}${where}`);
+    });
+    process.exit(0);
+  }
+
+  if (!['accept', 'reject', 'override', 'forget'].includes(action) || !file) {
+    console.error('Usage: doc-organize decide <accept|reject|override|forget> <file> [destination]');
+    process.exit(1);
+  }
+
+  try {
+    if (action === 'forget') {
+      const removed = forgetDecision(file);
+      console.log(removed ? `🗑️  Forgot the decision for ${file}` : `No decision recorded for ${file}`);
+      process.exit(0);
+    }
+
+    const organizer = new DocumentationOrganizer(loadConfiguration('.', configFile));
+    const decision = organizer.decide(file, action, destination);
+    if (decision.action === 'reject') {
+      console.log(`🚫 Rejected ${decision.file} → ${decision.suggested}`);
+    } else {
+      const verb = decision.action === 'accept' ? 'Accepted' : 'Overrode';
+      console.log(`✅ ${verb}: ${decision.file} belongs at ${decision.destination}`);
+    }
+    process.exit(0);
+  } catch (error) {
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+// Train mode
+if (args[0] === 'train') {
+  const { LocalClassifier } = require('../dist/local-classifier.js');
+
+  try {
+    const organizer = new DocumentationOrganizer(loadConfiguration('.', configFile));
+    const { classifier, documents, file } = organizer.trainLocalModel();
+    const counts = classifier.getModel().documentCounts;
+
+    console.log(`🧠 Trained offline classifier on ${documents.length} documents\n`);
+    Object.entries(counts).forEach(([category, count]) => {
+      console.log(`   ${category}: ${count}`);
+    });
+    console.log(`\n💾 Saved to ${file}`);
+
+    if (args.includes('--evaluate')) {
+      const evaluation = LocalClassifier.evaluate(documents);
+      console.log(`\n📈 ${evaluation.folds}-fold cross-validation:`);
+      console.log(`   Accuracy: ${(evaluation.accuracy * 100).toFixed(0)}% (${evaluation.correct}/${evaluation.documents})`);
+      Object.entries(evaluation.perCategory).forEach(([category, stats]) => {
+        console.log(`   ${category}: ${stats.correct}/${stats.total}`);
+      });
+    }
+    process.exit(0);
+  } catch (error) {
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  }
+}
+
 const shouldApply = args.includes('--apply');
+const shouldFix = args.includes('--fix');
 const useAI = args.includes('--ai');
+const force = args.includes('--force');
+const noIgnore = args.includes('--no-ignore');
+const noWorkspaces = args.includes('--no-workspaces');
 
 async function run() {
-  const userConfig = loadConfiguration();
+  const userConfig = loadConfiguration('.', configFile);
   if (useAI) {
     userConfig.ai = { ...userConfig.ai, enabled: true };
     userConfig.useAI = true;
   }
+  if (noIgnore) {
+    userConfig.useIgnoreFiles = false;
+  }
+
+  const { discoverWorkspaces } = require('../dist/workspaces.js');
+  if (!noWorkspaces && userConfig.workspaces !== false && discoverWorkspaces('.').length > 0) {
+    return runWorkspaces(userConfig);
+  }
 
   const organizer = new DocumentationOrganizer(userConfig);
 
@@ -87,18 +647,29 @@ async function run() {
     ? await organizer.generateSuggestionsWithAI()
     : organizer.generateSuggestions();
 
-  const namingViolations = organizer.checkNamingConventions();
+  let namingViolations = organizer.checkNamingConventions();
+  const contradictedRules = organizer.getContradictedRules();
+  const { findDuplicateDocuments } = require('../dist/duplicates.js');
+  const duplicates = findDuplicateDocuments(organizer);
 
   // Report
   console.log('📋 DOCUMENTATION ORGANIZATION REPORT');
   console.log(`Project Type: ${organizer.config.projectType.toUpperCase()}`);
+  if (organizer.projectDetection) {
+    const detection = organizer.projectDetection;
+    console.log(`(auto-detected, ${(detection.confidence * 100).toFixed(0)}% confidence: ${detection.evidence.join('; ')})`);
+  }
   console.log('===================================\n');
 
   console.log('📊 SUMMARY:');
   console.log(`   Total files analyzed: ${stats.files}`);
   console.log(`   Files needing relocation: ${stats.misplaced}`);
+  console.log(`   Ignored via .gitignore/.doc-organizerignore: ${noIgnore ? 'disabled' : stats.ignored}`);
   console.log(`   Protected files: ${organizer.config.protectedFiles.length}`);
   console.log(`   Naming violations: ${namingViolations.length}`);
+  console.log(`   Duplicate groups: ${duplicates.length}`);
+  console.log(`   Destination collisions: ${organizer.collisions.length}`);
+  console.log(`   Suppressed by decisions: ${stats.suppressed}`);
   console.log(`   Errors encountered: ${organizer.errors.length}`);
   if (useAI) {
     const aiEnhanced = organizer.suggestions.filter(s => s.aiEnhanced).length;
@@ -111,6 +682,7 @@ async function run() {
   console.log(`   Specs Directory: ${organizer.config.structure.specs}/`);
   console.log(`   Auto-apply threshold: ${(organizer.config.thresholds.autoApply * 100).toFixed(0)}%`);
   console.log(`   Suggestion threshold: ${(organizer.config.thresholds.suggest * 100).toFixed(0)}%`);
+  console.log(`   Collision strategy: ${organizer.config.collisions.strategy}`);
   console.log(`   AI Enhancement: ${useAI ? 'Enabled' : 'Disabled'}`);
   console.log();
 
@@ -130,6 +702,44 @@ async function run() {
     console.log('✅ **No files need relocation - organization looks good!**\n');
   }
 
+  // Categories of the suggestions
+  const suggestedCategories = organizer.getCategories().filter(category =>
+    organizer.suggestions.some(suggestion => suggestion.category === category.name)
+  );
+  if (suggestedCategories.length > 0) {
+    console.log('🗂️  CATEGORIES:');
+    suggestedCategories.forEach(category => {
+      const count = organizer.suggestions.filter(s => s.category === category.name).length;
+      console.log(`   ${category.name} → ${organizer.resolveDestination(category.destination)} (${count} suggested)`);
+      console.log(`      ${category.description}`);
+    });
+    console.log();
+  }
+
+  // Destination collisions
+  if (organizer.collisions.length > 0) {
+    console.log('⚠️  DESTINATION COLLISIONS:');
+    organizer.collisions.forEach((collision, index) => {
+      const where = collision.kind === 'disk' ? 'already exists on disk' : 'shared by several files';
+      console.log(`\n${index + 1}. ${collision.destination} (${where}, ${collision.resolution})`);
+      collision.sources.forEach(source => {
+        const renamed = collision.renamedTo && collision.renamedTo[source];
+        console.log(`   ${source}${renamed ? ` → ${renamed}` : ''}`);
+      });
+    });
+    console.log();
+  }
+
+  // Rules users keep contradicting
+  if (contradictedRules.length > 0) {
+    console.log('🔁 RULES YOU KEEP CONTRADICTING:');
+    contradictedRules.forEach(rule => {
+      console.log(`\n   ${rule.category} (${rule.reason}): rejected or overridden ${rule.contradictions} times`);
+      rule.files.forEach(file => console.log(`   - ${file}`));
+    });
+    console.log('\n   Consider adjusting these patterns in your configuration.\n');
+  }
+
   // Protected files
   console.log('🛡️  PROTECTED FILES:');
   organizer.config.protectedFiles.forEach(file => {
@@ -139,16 +749,39 @@ async function run() {
 
   // Naming violations
   if (namingViolations.length > 0) {
+    const icons = { error: '❌', warning: '⚠️ ', info: 'ℹ️ ' };
     console.log('📝 NAMING CONVENTION VIOLATIONS:');
     namingViolations.forEach((violation, index) => {
       console.log(`\n${index + 1}. ${violation.file}`);
-      violation.issues.forEach(issue => {
-        console.log(`   ⚠️  ${issue}`);
+      violation.details.forEach(issue => {
+        console.log(`   ${icons[issue.severity]} ${issue.message} (${issue.rule})`);
       });
+      if (violation.fix) {
+        console.log(`   → ${violation.fix}`);
+      }
     });
+    if (!shouldFix && namingViolations.some(violation => violation.fix)) {
+      console.log('\n💡 Run with --fix to rename these files');
+    }
     console.log();
   }
 
+  // Duplicate and near-duplicate documents
+  if (duplicates.length > 0) {
+    console.log('🧬 DUPLICATE DOCUMENTS:');
+    duplicates.forEach((cluster, index) => {
+      const kind = cluster.exact ? 'exact duplicates' : `up to ${(cluster.similarity * 100).toFixed(0)}% similar`;
+      console.log(`\n${index + 1}. ${cluster.files.join(', ')} (${kind})`);
+      cluster.pairs.forEach(pair => {
+        console.log(`   ${pair.files[0]} ↔ ${pair.files[1]}: ${(pair.similarity * 100).toFixed(0)}%`);
+        pair.sections.forEach(section => {
+          console.log(`      "${section.headings[0]}" ≈ "${section.headings[1]}" (${(section.similarity * 100).toFixed(0)}%)`);
+        });
+      });
+    });
+    console.log('\n   Consider merging these documents.\n');
+  }
+
   // Errors
   if (organizer.errors.length > 0) {
     console.log('❌ ERRORS:');
@@ -165,10 +798,27 @@ async function run() {
       console.log('No high-confidence moves to apply automatically.\n');
     } else {
       console.log(`\n🤖 Applying ${highConfidence.length} high-confidence moves...\n`);
-      const result = organizer.applyMoves();
+      const result = organizer.applyMoves({ force });
       console.log(`✅ Successful: ${result.successful}`);
       console.log(`❌ Failed: ${result.failed}`);
+      result.moves.forEach(move => {
+        if (move.success) {
+          const via = move.method === 'git' ? ' (git mv)' : '';
+          console.log(`   ${move.from} → ${move.to}${via}`);
+        } else {
+          console.log(`   ${move.from}: ${move.error}`);
+        }
+      });
+      if (result.linkRewrites.length > 0) {
+        console.log(`\n🔗 Rewrote ${result.linkRewrites.length} links:`);
+        result.linkRewrites.forEach(rewrite => {
+          console.log(`   ${rewrite.file}:${rewrite.line}:${rewrite.column} ${rewrite.from} → ${rewrite.to}`);
+        });
+      }
       console.log(`\n🎉 Applied ${result.successful} moves successfully!`);
+      if (result.journalId) {
+        console.log(`↩️  Run "doc-organize undo --id ${result.journalId}" to revert`);
+      }
     }
   } else if (organizer.suggestions.length > 0) {
     // Show what would be applied
@@ -189,6 +839,109 @@ async function run() {
       }
     }
   }
+
+  // Rename files that break naming rules, after any moves
+  if (shouldFix) {
+    const result = organizer.fixNamingViolations({ force });
+    if (result.moves.length === 0) {
+      console.log('\nNo naming violations can be fixed by renaming.');
+    } else {
+      console.log(`\n✏️  Renamed ${result.successful} files (${result.failed} failed):`);
+      result.moves.forEach(move => {
+        const status = move.success ? '' : ` (${move.error})`;
+        console.log(`   ${move.from} → ${move.to}${status}`);
+      });
+      if (result.linkRewrites.length > 0) {
+        console.log(`🔗 Rewrote ${result.linkRewrites.length} links`);
+      }
+      if (result.journalId) {
+        console.log(`↩️  Run "doc-organize undo --id ${result.journalId}" to revert`);
+      }
+    }
+    namingViolations = organizer.checkNamingConventions();
+  }
+
+  // Naming errors fail the run, e.g. in CI
+  if (namingViolations.some(violation => violation.severity === 'error')) {
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Analyze, report and optionally apply moves for every package of a monorepo
+ */
+async function runWorkspaces(userConfig) {
+  const { analyzeWorkspaces } = require('../dist/workspaces.js');
+  const { workspaces, totals } = await analyzeWorkspaces('.', userConfig, { useAI });
+  const inPackage = (workspace, file) => (workspace.dir === '.' ? file : `${workspace.dir}/${file}`);
+  // undo works on the current directory, so change into the workspace first
+  const undoCommand = (workspace, journalId) =>
+    `${workspace.dir === '.' ? '' : `cd ${workspace.dir} && `}doc-organize undo --id ${journalId}`;
+
+  console.log(`🔍 Analyzing ${workspaces.length} workspaces...\n`);
+  console.log('📋 DOCUMENTATION ORGANIZATION REPORT (WORKSPACES)');
+  console.log('================================================\n');
+
+  workspaces.forEach(({ workspace, organizer, stats }) => {
+    const detected = organizer.projectDetection ? ', auto-detected' : '';
+    console.log(`📦 ${workspace.name} (${workspace.dir}) - ${organizer.config.projectType}${detected}`);
+    console.log(`   Files: ${stats.files}, needing relocation: ${stats.misplaced}, collisions: ${organizer.collisions.length}, errors: ${organizer.errors.length}`);
+    organizer.suggestions.forEach(suggestion => {
+      const aiIndicator = suggestion.aiEnhanced ? ' 🤖' : '';
+      console.log(`   ${inPackage(workspace, suggestion.current)} → ${inPackage(workspace, suggestion.suggested)} (${(suggestion.confidence * 100).toFixed(0)}%, ${suggestion.category})${aiIndicator}`);
+    });
+    organizer.checkNamingConventions().forEach(violation => {
+      console.log(`   📝 ${inPackage(workspace, violation.file)}: ${violation.issues.join('; ')} (${violation.severity})`);
+    });
+    organizer.errors.forEach(error => console.log(`   ❌ ${error}`));
+    console.log();
+  });
+
+  console.log('📊 ROLL-UP SUMMARY:');
+  console.log(`   Workspaces: ${workspaces.length}`);
+  console.log(`   Total files analyzed: ${totals.files}`);
+  console.log(`   Files needing relocation: ${totals.misplaced}`);
+  console.log(`   Ignored via .gitignore/.doc-organizerignore: ${noIgnore ? 'disabled' : totals.ignored}`);
+  console.log(`   Suppressed by decisions: ${totals.suppressed}`);
+  console.log();
+
+  if (!shouldApply && totals.misplaced > 0) {
+    console.log('⚠️  Run with --apply flag to apply high-confidence moves in every workspace');
+  }
+
+  for (const { workspace, organizer } of workspaces) {
+    if (shouldApply && organizer.getHighConfidenceSuggestions().length > 0) {
+      const result = organizer.applyMoves({ force });
+      console.log(`📦 ${workspace.name}: ✅ ${result.successful} moved, ❌ ${result.failed} failed`);
+      result.moves.forEach(move => {
+        const status = move.success ? '' : ` (${move.error})`;
+        console.log(`   ${inPackage(workspace, move.from)} → ${inPackage(workspace, move.to)}${status}`);
+      });
+      if (result.journalId) {
+        console.log(`   ↩️  Run "${undoCommand(workspace, result.journalId)}" to revert`);
+      }
+    }
+
+    // Rename files that break naming rules, after any moves
+    if (shouldFix) {
+      const result = organizer.fixNamingViolations({ force });
+      if (result.moves.length > 0) {
+        console.log(`📦 ${workspace.name}: ✏️  ${result.successful} renamed, ❌ ${result.failed} failed`);
+      }
+      result.moves.forEach(move => {
+        const status = move.success ? '' : ` (${move.error})`;
+        console.log(`   ${inPackage(workspace, move.from)} → ${inPackage(workspace, move.to)}${status}`);
+      });
+      if (result.journalId) {
+        console.log(`   ↩️  Run "${undoCommand(workspace, result.journalId)}" to revert`);
+      }
+    }
+
+    // Naming errors fail the run, e.g. in CI
+    if (organizer.checkNamingConventions().some(violation => violation.severity === 'error')) {
+      process.exitCode = 1;
+    }
+  }
 }
 
 run().catch(error => {
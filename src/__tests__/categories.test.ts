@@ -0,0 +1,85 @@
+import { DocumentationOrganizer } from '../organizer';
+import { buildClassificationTool, buildSystemPrompt } from '../ai-classifier';
+import { compileCategoryPatterns, describeCategories, validateCategory } from '../categories';
+import { useTempDir } from './temp-dir';
+
+describe('categories', () => {
+  const tmp = useTempDir('categories');
+
+  it('should route documents to a custom category from config', () => {
+    tmp.write('threat-model-auth.md', '# Threat model\n\nAttack surface of the login flow.\n');
+    const organizer = new DocumentationOrganizer({
+      rootDir: tmp.dir,
+      categories: [
+        {
+          name: 'security',
+          description: 'Threat models and security reviews',
+          patterns: ['^security', '^threat-model'],
+          keywords: ['threat', 'attack'],
+          examples: ['threat-model-auth.md']
+        }
+      ]
+    });
+
+    expect(organizer.config.patterns.security.test('threat-model-auth.md')).toBe(true);
+    expect(organizer.config.destinations.security).toBe('{aiDocs}/security/');
+    expect(organizer.config.keywords.security).toEqual(['threat', 'attack']);
+
+    organizer.generateSuggestions();
+    expect(organizer.suggestions.map(s => [s.current, s.suggested, s.category])).toEqual([
+      ['threat-model-auth.md', 'ai_docs/security/threat-model-auth.md', 'security']
+    ]);
+  });
+
+  it('should describe built-in, custom and pattern-only categories', () => {
+    const organizer = new DocumentationOrganizer({
+      rootDir: tmp.dir,
+      patterns: { runbooks: '^runbook' },
+      destinations: { runbooks: 'ops/runbooks/' },
+      categories: [{ name: 'glossary', destination: 'docs/glossary/' }]
+    });
+
+    const categories = organizer.getCategories();
+    expect(categories.find(c => c.name === 'setup')?.description).toMatch(/^Getting started/);
+    expect(categories.find(c => c.name === 'runbooks')).toEqual({
+      name: 'runbooks',
+      description: 'Documents whose names match /^runbook/i',
+      destination: 'ops/runbooks/'
+    });
+    // A category without patterns never matches a file name
+    expect(organizer.config.patterns.glossary.test('glossary.md')).toBe(false);
+    expect(categories.find(c => c.name === 'glossary')?.destination).toBe('docs/glossary/');
+  });
+
+  it('should reject invalid category definitions', () => {
+    expect(validateCategory({ name: 'unknown' })).toBe('"unknown" is reserved');
+    expect(validateCategory({ name: '9lives' })).toMatch(/must start with a letter/);
+    expect(() =>
+      new DocumentationOrganizer({ rootDir: tmp.dir, categories: [{ name: 'broken', patterns: ['(('] }] })
+    ).toThrow(/Invalid categories entry "broken": .*Unterminated group/);
+  });
+
+  it('should combine patterns and describe categories without definitions', () => {
+    expect(compileCategoryPatterns(['^a', 'b$']).source).toBe('(?:^a)|(?:b$)');
+    expect(
+      describeCategories([{ name: 'x', description: 'X docs' }], { x: /x/i, y: /y/i }, { y: 'y/' })
+    ).toEqual([
+      { name: 'x', description: 'X docs', destination: undefined },
+      { name: 'y', description: 'Documents whose names match /y/i', destination: 'y/' }
+    ]);
+  });
+
+  it('should offer custom categories to the AI classifier', () => {
+    const categories = [
+      { name: 'setup', description: 'Getting started guides' },
+      { name: 'security', description: 'Threat models', examples: ['threat-model-auth.md'] }
+    ];
+
+    const tool = buildClassificationTool(categories);
+    expect(tool.input_schema.properties.category.enum).toEqual(['setup', 'security', 'unknown']);
+
+    const prompt = buildSystemPrompt(categories);
+    expect(prompt).toContain('- security: Threat models (e.g. threat-model-auth.md)');
+    expect(prompt).toContain('- setup: Getting started guides');
+  });
+});
@@ -0,0 +1,129 @@
+import * as path from 'path';
+import { findConfiguration, mergeUserConfigs, resolveConfigLayers } from '../config-loader';
+import { DocumentationOrganizer, explainConfiguration } from '../organizer';
+import { PRESETS } from '../presets';
+import { useTempDir } from './temp-dir';
+
+describe('config loading', () => {
+  const tmp = useTempDir('loader');
+
+  it('should read YAML configs', () => {
+    tmp.write('.doc-organizer.yaml', 'projectType: api\nthresholds:\n  autoApply: 0.9\n');
+
+    const loaded = findConfiguration(tmp.dir);
+    expect(loaded?.file).toBe(path.join(tmp.dir, '.doc-organizer.yaml'));
+    expect(loaded?.config).toEqual({ projectType: 'api', thresholds: { autoApply: 0.9 } });
+  });
+
+  it('should compile TypeScript and ES module configs', () => {
+    tmp.write(
+      'doc-organizer.config.ts',
+      "const aiDocs: string = 'docs';\nexport default { structure: { aiDocs }, patterns: { notes: /^note-/i } };\n"
+    );
+    expect(findConfiguration(tmp.dir)?.config).toEqual({
+      structure: { aiDocs: 'docs' },
+      patterns: { notes: /^note-/i }
+    });
+
+    tmp.write('doc-organizer.config.mjs', "export default { projectType: 'mobile' };\n");
+    expect(findConfiguration(tmp.dir)?.config).toEqual({ projectType: 'mobile' });
+  });
+
+  it('should read an explicit config file', () => {
+    tmp.write('.doc-organizer.json', '{ "projectType": "api" }');
+    tmp.write('config/docs.yml', 'projectType: library\n');
+
+    const file = path.join(tmp.dir, 'config/docs.yml');
+    expect(findConfiguration(tmp.dir, file)?.config.projectType).toBe('library');
+    expect(() => findConfiguration(tmp.dir, path.join(tmp.dir, 'missing.json'))).toThrow(
+      'missing.json: file not found'
+    );
+  });
+
+  it('should layer presets and extended files under the config', () => {
+    tmp.write('shared/base.yaml', 'extends: preset:library\nthresholds:\n  autoApply: 0.95\n');
+    tmp.write(
+      '.doc-organizer.json',
+      JSON.stringify({ extends: './shared/base.yaml', structure: { specs: 'rfcs' } })
+    );
+
+    const loaded = findConfiguration(tmp.dir)!;
+    expect(loaded.config.extends).toEqual([path.join(tmp.dir, 'shared/base.yaml')]);
+
+    const layers = resolveConfigLayers(loaded.config, loaded.file);
+    expect(layers.map(layer => layer.source)).toEqual([
+      'preset:library',
+      path.join(tmp.dir, 'shared/base.yaml'),
+      loaded.file
+    ]);
+
+    const organizer = new DocumentationOrganizer(loaded.config);
+    expect(organizer.config.projectType).toBe('library');
+    expect(organizer.config.structure).toEqual({ aiDocs: 'docs', specs: 'rfcs', root: './' });
+    expect(organizer.config.thresholds.autoApply).toBe(0.95);
+    expect(organizer.config.destinations.api).toBe('{aiDocs}/api/');
+    expect(organizer.config.protectedFiles).toContain('USAGE.md');
+
+    const sources = Object.fromEntries(
+      explainConfiguration(tmp.dir).map(({ path: key, source }) => [key, source])
+    );
+    expect(sources['projectType']).toBe('preset:library');
+    expect(sources['thresholds.autoApply']).toBe(path.join(tmp.dir, 'shared/base.yaml'));
+    expect(sources['structure.specs']).toBe(loaded.file);
+    expect(sources['protectedFiles']).toBe('default + preset:library');
+  });
+
+  it('should explain the config of another directory with its own project type', () => {
+    tmp.write('package.json', JSON.stringify({ dependencies: { express: '^4' } }));
+    tmp.write('.doc-organizer.json', '{ "projectType": "auto" }');
+
+    const values = explainConfiguration(tmp.dir);
+    expect(values.find(value => value.path === 'projectType')?.value).toBe('api');
+    expect(values.find(value => value.path === 'rootDir')?.value).toBe(path.resolve(tmp.dir));
+  });
+
+  it('should report unknown presets and circular extends', () => {
+    expect(() => new DocumentationOrganizer({ extends: 'preset:libary' })).toThrow(
+      'config: extends: unknown preset "libary" (did you mean "preset:library"?)'
+    );
+
+    tmp.write('a.json', '{ "extends": "./b.json" }');
+    tmp.write('b.json', '{ "extends": "./a.json" }');
+    const loaded = findConfiguration(tmp.dir, path.join(tmp.dir, 'a.json'))!;
+    expect(() => resolveConfigLayers(loaded.config, loaded.file)).toThrow(/circular extends/);
+  });
+
+  it('should merge sections key by key and append lists', () => {
+    const merged = mergeUserConfigs([
+      { thresholds: { autoApply: 0.9 }, protectedFiles: ['A.md'], excludePatterns: ['build'] },
+      { thresholds: { suggest: 0.6 }, protectedFiles: ['B.md'], excludePatterns: ['out'] }
+    ]);
+
+    expect(merged).toEqual({
+      thresholds: { autoApply: 0.9, suggest: 0.6 },
+      protectedFiles: ['A.md', 'B.md'],
+      excludePatterns: ['out']
+    });
+  });
+
+  it('should keep preset patterns when adjusting for the project type', () => {
+    tmp.write('methods.md', '# Methods\n');
+    const organizer = new DocumentationOrganizer({ rootDir: tmp.dir, extends: 'preset:library' });
+    organizer.adjustForProjectType();
+    organizer.generateSuggestions();
+
+    expect(organizer.config.patterns.api.test('methods.md')).toBe(true);
+    expect(organizer.config.protectedFiles.filter(file => file === 'API.md')).toHaveLength(1);
+    expect(organizer.suggestions.map(suggestion => suggestion.category)).toEqual(['api']);
+
+    const api = new DocumentationOrganizer({ rootDir: tmp.dir, extends: 'preset:api' });
+    api.adjustForProjectType();
+    expect(api.config.patterns.endpoints.test('openapi.md')).toBe(true);
+  });
+
+  it('should ship presets that pass validation', () => {
+    for (const name of Object.keys(PRESETS)) {
+      expect(() => new DocumentationOrganizer({ extends: `preset:${name}` })).not.toThrow();
+    }
+  });
+});
@@ -0,0 +1,136 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ConfigValidationError,
+  formatIssue,
+  suggestKey,
+  validateConfig
+} from '../config-schema';
+import { explainConfiguration, findConfiguration } from '../organizer';
+
+describe('validateConfig', () => {
+  const messages = (config: unknown) =>
+    validateConfig(config, '.doc-organizer.json').map(formatIssue);
+
+  it('should accept a valid config', () => {
+    expect(
+      messages({
+        projectType: 'library',
+        structure: { aiDocs: 'docs' },
+        patterns: { api: '^(api|usage)', setup: /^setup/i },
+        thresholds: { autoApply: 0.9 },
+        outlineRules: [{ category: 'setup', headings: ['^install'], tables: false }],
+        scoring: { weights: { keywords: 0.4 }, ambiguityPenalty: 1.5 },
+        excludePatterns: ['build', 'docs/**/legacy/*.md']
+      })
+    ).toEqual([]);
+  });
+
+  it('should suggest the intended key for typos', () => {
+    expect(messages({ destination: {}, thresholds: { autoAply: 0.9 } })).toEqual([
+      '.doc-organizer.json: destination: unknown key (did you mean "destinations"?)',
+      '.doc-organizer.json: thresholds.autoAply: unknown key (did you mean "autoApply"?)'
+    ]);
+    expect(suggestKey('confidenceThreshold', ['thresholds', 'patterns'])).toBeNull();
+  });
+
+  it('should report the expected type with the key path', () => {
+    expect(
+      messages({
+        projectType: 'website',
+        thresholds: { suggest: 70 },
+        ai: { maxTokens: 1.5 },
+        protectedFiles: 'README.md',
+        keywords: { setup: ['install', 3] }
+      })
+    ).toEqual([
+      '.doc-organizer.json: projectType: expected one of "web-app", "library", "api", "data-science", "mobile", "auto", got "website"',
+      '.doc-organizer.json: thresholds.suggest: expected a number between 0 and 1, got 70',
+      '.doc-organizer.json: ai.maxTokens: expected an integer of at least 1, got 1.5',
+      '.doc-organizer.json: protectedFiles: expected an array, got "README.md"',
+      '.doc-organizer.json: keywords.setup[1]: expected a string, got 3'
+    ]);
+  });
+
+  it('should report invalid regexes and patterns', () => {
+    const issues = validateConfig(
+      {
+        patterns: { setup: '^(setup' },
+        outlineRules: [{ headings: ['['] }],
+        excludePatterns: ['docs\\legacy']
+      },
+      'package.json',
+      'docOrganizer'
+    );
+
+    expect(issues.map(issue => issue.path)).toEqual([
+      'docOrganizer.patterns.setup',
+      'docOrganizer.outlineRules[0].category',
+      'docOrganizer.outlineRules[0].headings[0]',
+      'docOrganizer.excludePatterns[0]'
+    ]);
+    expect(issues[0].message).toBe('invalid regex "^(setup": Unterminated group');
+    expect(issues[1].message).toBe('is required (a string)');
+    expect(issues[3].message).toBe('invalid pattern "docs\\\\legacy": use forward slashes in patterns');
+  });
+});
+
+describe('config files', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'doc-organizer-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should report JSON syntax errors with their location', () => {
+    fs.writeFileSync(path.join(tmpDir, '.doc-organizer.json'), '{\n  "projectType": "api",\n}\n');
+
+    expect(() => findConfiguration(tmpDir)).toThrow(ConfigValidationError);
+    expect(() => findConfiguration(tmpDir)).toThrow(/\.doc-organizer\.json: .*\(line 3, column 1\)/);
+  });
+
+  it('should report every schema problem at once', () => {
+    fs.writeFileSync(
+      path.join(tmpDir, 'package.json'),
+      JSON.stringify({ docOrganizer: { destination: {}, useAI: 'yes' } })
+    );
+
+    try {
+      findConfiguration(tmpDir);
+      throw new Error('expected a ConfigValidationError');
+    } catch (error) {
+      expect((error as ConfigValidationError).issues.map(formatIssue)).toEqual([
+        `${path.join(tmpDir, 'package.json')}: docOrganizer.destination: unknown key (did you mean "destinations"?)`,
+        `${path.join(tmpDir, 'package.json')}: docOrganizer.useAI: expected true or false, got "yes"`
+      ]);
+    }
+  });
+
+  it('should explain where each effective value came from', () => {
+    fs.writeFileSync(
+      path.join(tmpDir, '.doc-organizer.json'),
+      JSON.stringify({
+        projectType: 'library',
+        thresholds: { filename: 0.8 },
+        protectedFiles: ['NOTES.md']
+      })
+    );
+
+    const file = path.join(tmpDir, '.doc-organizer.json');
+    const sources = Object.fromEntries(
+      explainConfiguration(tmpDir).map(({ path: key, source }) => [key, source])
+    );
+
+    expect(sources['projectType']).toBe(file);
+    expect(sources['thresholds.filename']).toBe(file);
+    expect(sources['thresholds.autoApply']).toBe('default');
+    expect(sources['protectedFiles']).toBe(`default + ${file}`);
+    expect(sources['scoring.weights.filename']).toBe('derived');
+    expect(sources['patterns.api']).toBe('derived');
+  });
+});
@@ -0,0 +1,128 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DocumentationOrganizer } from '../organizer';
+import { findContradictedRules, readDecisions } from '../decisions';
+import { Decision } from '../types';
+import { useTempDir } from './temp-dir';
+
+describe('decisions', () => {
+  const tmp = useTempDir('decisions');
+
+  const suggestions = () => {
+    const organizer = new DocumentationOrganizer({ rootDir: tmp.dir });
+    const stats = organizer.generateSuggestions();
+    return { stats, suggestions: organizer.suggestions };
+  };
+
+  beforeEach(() => {
+    tmp.write('setup.md', '# Setup\n');
+    tmp.write('install-notes.md', '# Install notes\n');
+  });
+
+  it('should suppress rejected suggestions until the file changes', () => {
+    new DocumentationOrganizer({ rootDir: tmp.dir }).decide('setup.md', 'reject');
+
+    const { stats, suggestions: remaining } = suggestions();
+    expect(remaining.map(s => s.current)).toEqual(['install-notes.md']);
+    expect(stats.suppressed).toBe(1);
+
+    tmp.write('setup.md', '# Setup\n\nRewritten.\n');
+    expect(suggestions().suggestions.map(s => s.current)).toContain('setup.md');
+  });
+
+  it('should keep a decision when applying moves rewrites the file\'s links', () => {
+    tmp.write('setup.md', '# Setup\n\nSee the [install notes](install-notes.md).\n');
+    const organizer = new DocumentationOrganizer({ rootDir: tmp.dir });
+    organizer.decide('setup.md', 'reject');
+
+    organizer.applySuggestions([{ current: 'install-notes.md', suggested: 'ai_docs/setup/install-notes.md' }]);
+    expect(fs.readFileSync(path.join(tmp.dir, 'setup.md'), 'utf8')).toContain('(ai_docs/setup/install-notes.md)');
+
+    const { stats, suggestions: remaining } = suggestions();
+    expect(remaining.map(s => s.current)).not.toContain('setup.md');
+    expect(stats.suppressed).toBe(1);
+  });
+
+  it('should make an override the expected location', () => {
+    const organizer = new DocumentationOrganizer({ rootDir: tmp.dir });
+    const decision = organizer.decide('setup.md', 'override', 'docs/ops/');
+    expect(decision).toMatchObject({
+      action: 'override',
+      destination: 'docs/ops/setup.md',
+      suggested: 'ai_docs/setup/setup.md',
+      category: 'setup'
+    });
+
+    const before = suggestions().suggestions.find(s => s.current === 'setup.md');
+    expect(before).toMatchObject({ suggested: 'docs/ops/setup.md', confidence: 1 });
+
+    // Once the file is there, the classifier stops disagreeing
+    tmp.write('docs/ops/setup.md', '# Setup\n');
+    fs.unlinkSync(path.join(tmp.dir, 'setup.md'));
+    expect(suggestions().suggestions.map(s => s.current)).toEqual(['install-notes.md']);
+  });
+
+  it('should keep a manually moved file where it is', () => {
+    tmp.write('ops/quickstart.md', '# Quickstart\n');
+    expect(suggestions().suggestions.map(s => s.current)).toContain(path.join('ops', 'quickstart.md'));
+
+    new DocumentationOrganizer({ rootDir: tmp.dir }).decide('ops/quickstart.md', 'override');
+
+    expect(suggestions().suggestions.map(s => s.current)).not.toContain(path.join('ops', 'quickstart.md'));
+  });
+
+  it('should give accepted suggestions full confidence', () => {
+    new DocumentationOrganizer({ rootDir: tmp.dir }).decide('install-notes.md', 'accept');
+
+    const accepted = suggestions().suggestions.find(s => s.current === 'install-notes.md');
+    expect(accepted).toMatchObject({ confidence: 1 });
+    expect(accepted!.reasons[0]).toBe('accepted');
+  });
+
+  it('should refuse to accept or reject when there is no suggestion', () => {
+    tmp.write('ai_docs/setup/setup.md', '# Setup\n');
+    const organizer = new DocumentationOrganizer({ rootDir: tmp.dir });
+    expect(() => organizer.decide('ai_docs/setup/setup.md', 'reject')).toThrow(
+      /No suggestion to reject/
+    );
+    expect(readDecisions(tmp.dir)).toEqual([]);
+  });
+
+  it('should replace earlier decisions for the same file', () => {
+    const organizer = new DocumentationOrganizer({ rootDir: tmp.dir });
+    organizer.decide('setup.md', 'reject');
+    organizer.decide('setup.md', 'accept');
+    expect(readDecisions(tmp.dir).map(d => d.action)).toEqual(['accept']);
+  });
+
+  describe('findContradictedRules', () => {
+    const decision = (file: string, action: Decision['action'], category: string): Decision => ({
+      file,
+      hash: 'x',
+      action,
+      category,
+      reasons: ['filename match'],
+      decidedAt: '2024-01-01T00:00:00.000Z'
+    });
+
+    it('should report rules rejected or overridden repeatedly', () => {
+      const rules = findContradictedRules(
+        [
+          decision('a.md', 'reject', 'maintenance'),
+          decision('b.md', 'override', 'maintenance'),
+          decision('c.md', 'accept', 'maintenance'),
+          decision('d.md', 'reject', 'guides')
+        ],
+        2
+      );
+      expect(rules).toEqual([
+        {
+          category: 'maintenance',
+          reason: 'filename match',
+          contradictions: 2,
+          files: ['a.md', 'b.md']
+        }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { extractHeadings, extractSummary, extractTitle, getDocumentFormat } from '../doc-formats';
+
+describe('doc-formats', () => {
+  describe('getDocumentFormat', () => {
+    it('should map extensions to formats', () => {
+      expect(getDocumentFormat('docs/intro.mdx')).toBe('mdx');
+      expect(getDocumentFormat('docs/INSTALL.RST')).toBe('rst');
+      expect(getDocumentFormat('guide.adoc')).toBe('asciidoc');
+      expect(getDocumentFormat('notes.txt')).toBe('text');
+      expect(getDocumentFormat('README.md')).toBe('markdown');
+    });
+  });
+
+  describe('extractHeadings', () => {
+    it('should read ATX and setext headings outside code fences', () => {
+      const content = [
+        '# Setup',
+        '```sh',
+        '# not a heading',
+        '```',
+        'Requirements',
+        '------------'
+      ].join('\n');
+      expect(extractHeadings(content, 'markdown')).toEqual([
+        { level: 1, text: 'Setup', line: 1 },
+        { level: 2, text: 'Requirements', line: 5 }
+      ]);
+    });
+
+    it('should skip MDX imports and exports', () => {
+      const content = "import Tabs from '@theme/Tabs';\nexport const meta = {};\n\n# Deploying\n";
+      expect(extractTitle(content, 'mdx')).toBe('Deploying');
+    });
+
+    it('should assign reStructuredText levels in order of adornment style', () => {
+      const content = [
+        '=======',
+        'Install',
+        '=======',
+        '',
+        'From PyPI',
+        '---------',
+        '',
+        '.. code-block::',
+        '',
+        '   Not a heading',
+        '   -------------',
+        '',
+        'From source',
+        '---------------'
+      ].join('\n');
+      expect(extractHeadings(content, 'rst')).toEqual([
+        { level: 1, text: 'Install', line: 2 },
+        { level: 2, text: 'From PyPI', line: 5 },
+        { level: 2, text: 'From source', line: 13 }
+      ]);
+    });
+
+    it('should read AsciiDoc sections outside listing blocks', () => {
+      const content = '= Operations\n:toc:\n\n== Backups\n----\n== not a section\n----\n';
+      expect(extractHeadings(content, 'asciidoc')).toEqual([
+        { level: 1, text: 'Operations', line: 1 },
+        { level: 2, text: 'Backups', line: 4 }
+      ]);
+    });
+
+    it('should use the first line of plain text as its title', () => {
+      const content = '\nRelease checklist\n\nSteps\n=====\n1. Tag\n';
+      expect(extractHeadings(content, 'text')).toEqual([
+        { level: 1, text: 'Release checklist', line: 2 },
+        { level: 2, text: 'Steps', line: 4 }
+      ]);
+    });
+  });
+
+  describe('extractSummary', () => {
+    it('should take the first paragraph without headings, images or inline Markdown', () => {
+      const content = [
+        '# Caching',
+        '',
+        '![diagram](cache.svg)',
+        '',
+        'The **cache** sits in front of the [API](api.md) and',
+        'expires entries after `ttl` seconds.',
+        '',
+        'Second paragraph.'
+      ].join('\n');
+      expect(extractSummary(content, 'markdown')).toBe(
+        'The cache sits in front of the API and expires entries after ttl seconds.'
+      );
+    });
+
+    it('should skip reStructuredText adornments and shorten long paragraphs', () => {
+      expect(extractSummary('Install\n=======\n\nRun the installer.\n', 'rst')).toBe('Run the installer.');
+      expect(extractSummary('# Only a title\n', 'markdown')).toBeNull();
+      expect(extractSummary('word '.repeat(20), 'markdown', 30)).toBe('word word word word word word…');
+    });
+  });
+});
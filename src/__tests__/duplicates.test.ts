@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findDuplicateDocuments, findDuplicates, jaccard } from '../duplicates';
+import { DocumentationOrganizer } from '../organizer';
+import { checkHealth } from '../health-check';
+
+const INSTALL =
+  'Install Node.js 20 and run npm install in the repository root. Copy the example environment ' +
+  'file to .env and fill in the database URL before starting the development server.';
+const RUN =
+  'Start the development server with npm run dev and open the local address in your browser. ' +
+  'Changes to the source files reload the page automatically while the server is running.';
+const DEPLOY =
+  'Deployments run from the main branch through the release pipeline, which builds the ' +
+  'container image, runs the migrations and rolls the new version out region by region.';
+
+describe('duplicates', () => {
+  it('should cluster exact and near duplicates and name the shared sections', () => {
+    const clusters = findDuplicates([
+      { file: 'setup.md', content: `# Setup\n\n## Installation\n\n${INSTALL}\n\n## Running\n\n${RUN}\n` },
+      {
+        file: 'SETUP_NEW.md',
+        content: `---\ntags: [setup]\n---\n# Setup\n\n## Installation\n\n${INSTALL}\n\n## Running\n\n${RUN}\n`
+      },
+      {
+        file: 'getting-started.md',
+        content: `# Getting started\n\n## Install\n\n${INSTALL}\n\n## Run it\n\n${RUN}\n\n## Deploying\n\nSee the runbook.\n`
+      },
+      { file: 'ops/deploy.md', content: `# Deploy\n\n${DEPLOY}\n` },
+      { file: 'notes.md', content: `# Notes\n\n${RUN.split(' ').reverse().join(' ')}\n` }
+    ]);
+
+    expect(clusters).toHaveLength(1);
+    const [cluster] = clusters;
+    expect(cluster.files).toEqual(['SETUP_NEW.md', 'getting-started.md', 'setup.md']);
+    expect(cluster.exact).toBe(false);
+    expect(cluster.similarity).toBe(1);
+
+    const exact = cluster.pairs.find(pair => pair.exact)!;
+    expect(exact.files).toEqual(['SETUP_NEW.md', 'setup.md']);
+    expect(exact.sections.map(section => section.headings)).toEqual([
+      ['Installation', 'Installation'],
+      ['Running', 'Running']
+    ]);
+
+    const near = cluster.pairs.find(pair => pair.files.join() === 'getting-started.md,setup.md')!;
+    expect(near.similarity).toBeGreaterThanOrEqual(0.5);
+    expect(near.similarity).toBeLessThan(1);
+    expect(near.sections).toEqual([
+      { headings: ['Install', 'Installation'], similarity: 1 },
+      { headings: ['Run it', 'Running'], similarity: 1 }
+    ]);
+  });
+
+  it('should only report exact duplicates of short documents and respect the threshold', () => {
+    const short = findDuplicates([
+      { file: 'a.md', content: '# TODO' },
+      { file: 'b.md', content: '# TODO' },
+      { file: 'c.md', content: '# TODO later' },
+      { file: 'd.md', content: '' },
+      { file: 'e.md', content: '' }
+    ]);
+    expect(short.map(cluster => [cluster.files, cluster.exact])).toEqual([[['a.md', 'b.md'], true]]);
+    expect(findDuplicates([{ file: 'a.md', content: 'Fix typo.' }, { file: 'b.md', content: 'fix TYPO' }])).toEqual([]);
+
+    const documents = [
+      { file: 'a.md', content: `${INSTALL} ${RUN}` },
+      { file: 'b.md', content: `${INSTALL} ${RUN} ${DEPLOY}` }
+    ];
+    expect(findDuplicates(documents)).toHaveLength(1);
+    expect(findDuplicates(documents, { threshold: 0.9 })).toEqual([]);
+    expect(jaccard(new Set(['a', 'b']), new Set(['b', 'c']))).toBeCloseTo(1 / 3);
+  });
+
+  describe('organizer', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'doc-organizer-duplicates-'));
+      fs.writeFileSync(path.join(tmpDir, 'setup.md'), `# Setup\n\n${INSTALL}\n`);
+      fs.writeFileSync(path.join(tmpDir, 'SETUP_NEW.md'), `# Setup (new)\n\n${INSTALL}\n`);
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should report duplicates in the health check', () => {
+      const organizer = new DocumentationOrganizer({ rootDir: tmpDir });
+      expect(findDuplicateDocuments(organizer).map(cluster => cluster.files)).toEqual([
+        ['SETUP_NEW.md', 'setup.md']
+      ]);
+      expect(findDuplicateDocuments(organizer, { threshold: 1 })).toEqual([]);
+      expect(checkHealth(organizer).duplicates).toHaveLength(1);
+    });
+  });
+});
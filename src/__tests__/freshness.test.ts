@@ -0,0 +1,116 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DocumentationOrganizer } from '../organizer';
+import { assessFreshness, findCodeReferences, freshnessScore } from '../freshness';
+import { checkHealth } from '../health-check';
+import { git } from '../git';
+import { useTempDir } from './temp-dir';
+
+describe('freshness', () => {
+  const tmp = useTempDir('freshness');
+
+  it('should halve freshness every staleDays of age or lag behind code', () => {
+    expect(freshnessScore(0, 0, 90)).toBe(1);
+    expect(freshnessScore(90, 0, 90)).toBe(0.5);
+    expect(freshnessScore(45, 45, 90)).toBe(0.5);
+  });
+
+  it('should find referenced code paths that exist and are not docs', () => {
+    tmp.write('src/app.ts', '');
+    tmp.write('src/lib/util.ts', '');
+    const content = [
+      'See [the app](../src/app.ts), [setup](setup.md) and [missing](../src/gone.ts).',
+      'Helpers live in `src/lib/` and `src/lib/util.ts`; `npm run build` is not a path.',
+      'Outside: [parent](../../other/file.ts)'
+    ].join('\n');
+
+    expect(findCodeReferences('docs/guide.md', content, tmp.dir, ['.md'])).toEqual([
+      'src/app.ts',
+      'src/lib',
+      'src/lib/util.ts'
+    ]);
+  });
+
+  describe('in a git repository', () => {
+    const NOW = Date.parse('2024-04-01T12:00:00Z');
+
+    const commit = (author: string, date: string, message: string) => {
+      git(['add', '-A'], tmp.dir);
+      git(
+        ['-c', `user.name=${author}`, '-c', 'user.email=test@example.com', 'commit', '-qm', message, `--date=${date}`],
+        tmp.dir
+      );
+    };
+
+    beforeEach(() => {
+      git(['init', '-q'], tmp.dir);
+      tmp.write('src/app.ts', 'export const version = 1;\n');
+      tmp.write('docs/guide.md', '# Guide\n\nThe entry point is `src/app.ts`.\n');
+      commit('alice', '2024-01-01T12:00:00Z', 'Add guide');
+
+      git(['mv', 'docs/guide.md', 'docs/user-guide.md'], tmp.dir);
+      commit('bob', '2024-02-01T12:00:00Z', 'Rename guide');
+
+      tmp.write('src/app.ts', 'export const version = 2;\n');
+      tmp.write('notes.md', '# Notes\n');
+      commit('carol', '2024-03-01T12:00:00Z', 'Update app');
+    });
+
+    it('should date docs by their last content commit, ignoring renames', () => {
+      const organizer = new DocumentationOrganizer({ rootDir: tmp.dir });
+      const results = assessFreshness(organizer, { staleDays: 60, now: NOW });
+
+      expect(results.map(doc => doc.file)).toEqual([path.join('docs', 'user-guide.md'), 'notes.md']);
+      expect(results[0]).toMatchObject({
+        source: 'git',
+        author: 'alice',
+        lastModified: '2024-01-01T12:00:00.000Z',
+        ageDays: 91,
+        freshness: 0.35,
+        stale: true
+      });
+      expect(results[0].codeReferences).toBeUndefined();
+      expect(results[1]).toMatchObject({ source: 'git', author: 'carol', ageDays: 31, stale: false });
+    });
+
+    it('should date uncommitted edits by their modification time', () => {
+      tmp.write('notes.md', '# Notes\n\nDraft.\n');
+      const edited = new Date('2024-03-21T12:00:00Z');
+      fs.utimesSync(path.join(tmp.dir, 'notes.md'), edited, edited);
+
+      const organizer = new DocumentationOrganizer({ rootDir: tmp.dir });
+      const notes = assessFreshness(organizer, { now: NOW }).find(doc => doc.file === 'notes.md');
+      expect(notes).toMatchObject({
+        source: 'mtime',
+        author: 'carol',
+        lastModified: '2024-03-21T12:00:00.000Z',
+        ageDays: 11
+      });
+    });
+
+    it('should count how far a doc lags behind the code it references', () => {
+      const organizer = new DocumentationOrganizer({ rootDir: tmp.dir });
+      const [guide] = assessFreshness(organizer, { staleDays: 60, compareCode: true, now: NOW });
+
+      expect(guide).toMatchObject({
+        codeReferences: ['src/app.ts'],
+        codeLastModified: '2024-03-01T12:00:00.000Z',
+        behindCodeDays: 60,
+        freshness: 0.17
+      });
+    });
+  });
+
+  it('should fall back to the modification time outside git', () => {
+    tmp.write('old.md', '# Old\n');
+    tmp.write('new.md', '# New\n');
+    const longAgo = new Date(Date.now() - 200 * 24 * 60 * 60 * 1000);
+    fs.utimesSync(path.join(tmp.dir, 'old.md'), longAgo, longAgo);
+
+    const organizer = new DocumentationOrganizer({ rootDir: tmp.dir });
+    const [old, fresh] = assessFreshness(organizer);
+    expect(old).toMatchObject({ file: 'old.md', source: 'mtime', author: null, ageDays: 200, stale: true });
+    expect(fresh).toMatchObject({ file: 'new.md', ageDays: 0, stale: false });
+    expect(checkHealth(organizer).staleFiles).toEqual(['old.md']);
+  });
+});
@@ -0,0 +1,71 @@
+import { parseDirectives, parseFrontMatter, stripFrontMatter } from '../front-matter';
+
+describe('front-matter', () => {
+  describe('parseFrontMatter', () => {
+    it('should split YAML front matter from the body', () => {
+      const { data, body } = parseFrontMatter('---\ntitle: Setup\ntags: [a, b]\n---\n# Setup\n');
+      expect(data).toEqual({ title: 'Setup', tags: ['a', 'b'] });
+      expect(body).toBe('# Setup\n');
+    });
+
+    it('should leave documents without front matter alone', () => {
+      expect(parseFrontMatter('# Setup\n---\n')).toEqual({ data: {}, body: '# Setup\n---\n' });
+      expect(stripFrontMatter('Intro\n')).toBe('Intro\n');
+    });
+
+    it('should reject front matter that is not a mapping', () => {
+      expect(() => parseFrontMatter('---\n- a\n- b\n---\n')).toThrow(/YAML mapping/);
+    });
+  });
+
+  describe('parseDirectives', () => {
+    it('should read directives from front matter', () => {
+      const content = [
+        '---',
+        'doc-organizer:',
+        '  category: architecture',
+        '  destination: "{aiDocs}/adr/"',
+        '  pin: false',
+        '---',
+        '# Decision record'
+      ].join('\n');
+      expect(parseDirectives(content)).toEqual({
+        category: 'architecture',
+        destination: '{aiDocs}/adr/',
+        pin: false
+      });
+    });
+
+    it('should read keyword and mapping directives from HTML comments', () => {
+      expect(parseDirectives('# Notes\n<!-- doc-organizer: ignore -->\n')).toEqual({ ignore: true });
+      expect(
+        parseDirectives('---\ndoc-organizer: pin\n---\n<!-- doc-organizer: { category: setup } -->')
+      ).toEqual({ pin: true, category: 'setup' });
+    });
+
+    it('should skip comment directives shown in code', () => {
+      const content = [
+        '# Directives',
+        'Write `<!-- doc-organizer: pin -->` to keep a file in place:',
+        '```md',
+        '<!-- doc-organizer: { category: setup } -->',
+        '```'
+      ].join('\n');
+      expect(parseDirectives(content)).toBeNull();
+    });
+
+    it('should return null when there are no directives', () => {
+      expect(parseDirectives('---\ntitle: Setup\n---\n# Setup\n')).toBeNull();
+    });
+
+    it('should reject unknown keys and malformed values', () => {
+      expect(() => parseDirectives('---\ndoc-organizer:\n  catgory: setup\n---\n')).toThrow(
+        /unknown key "catgory"/
+      );
+      expect(() => parseDirectives('<!-- doc-organizer: { pin: yes please } -->')).toThrow(
+        /pin must be true or false/
+      );
+      expect(() => parseDirectives('<!-- doc-organizer: hide -->')).toThrow(/expected ignore or pin/);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DocumentationOrganizer } from '../organizer';
+import { git } from '../git';
+import { undoJournal } from '../journal';
+
+describe('git-aware moves', () => {
+  const originalCwd = process.cwd();
+  let tmpDir: string;
+
+  const commitAll = () => {
+    git(['add', '-A']);
+    git(['-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-qm', 'docs']);
+  };
+
+  const move = (current: string, options = {}) =>
+    new DocumentationOrganizer().applySuggestions(
+      [{ current, suggested: `ai_docs/setup/${current}` }],
+      options
+    );
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'doc-organizer-git-'));
+    process.chdir(tmpDir);
+    git(['init', '-q']);
+    fs.writeFileSync('CLAUDE.md', '# Rules\n');
+    commitAll();
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should move tracked files with git mv', () => {
+    const result = move('CLAUDE.md');
+
+    expect(result.moves[0]).toMatchObject({ success: true, method: 'git' });
+    expect(git(['status', '--porcelain'])).toContain('R  CLAUDE.md -> ai_docs/setup/CLAUDE.md');
+  });
+
+  it('should fall back to a plain rename for untracked files', () => {
+    fs.writeFileSync('setup.md', '# Setup\n');
+    const result = move('setup.md');
+
+    expect(result.moves[0]).toMatchObject({ success: true, method: 'fs' });
+    expect(fs.existsSync('ai_docs/setup/setup.md')).toBe(true);
+  });
+
+  it('should refuse to move files with uncommitted changes unless forced', () => {
+    fs.appendFileSync('CLAUDE.md', 'Draft\n');
+
+    const refused = move('CLAUDE.md');
+    expect(refused.moves[0].success).toBe(false);
+    expect(refused.moves[0].error).toMatch(/uncommitted changes/);
+    expect(fs.existsSync('CLAUDE.md')).toBe(true);
+
+    const forced = move('CLAUDE.md', { force: true });
+    expect(forced.moves[0]).toMatchObject({ success: true, method: 'git' });
+  });
+
+  it('should move files back with git mv on undo', () => {
+    move('CLAUDE.md');
+    undoJournal();
+
+    expect(fs.existsSync('CLAUDE.md')).toBe(true);
+    expect(git(['status', '--porcelain', '--', 'CLAUDE.md', 'ai_docs'])).toBe('');
+  });
+});
@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  compareSnapshots,
+  createSnapshot,
+  findSnapshot,
+  readHistory,
+  recordSnapshot,
+  HISTORY_FILE
+} from '../health-history';
+import { DocumentationOrganizer } from '../organizer';
+import { checkHealth } from '../health-check';
+import { HealthSnapshot } from '../types';
+
+const snapshot = (timestamp: string, commit: string | null, healthScore: number, brokenLinks = 0): HealthSnapshot => ({
+  timestamp,
+  commit,
+  healthScore,
+  grade: 'B',
+  totalFiles: 10,
+  issues: {
+    misplaced: 1,
+    stale: 2,
+    orphaned: 0,
+    unreachable: 0,
+    namingViolations: 0,
+    staleIndexes: 0,
+    brokenLinks,
+    duplicates: 0
+  }
+});
+
+describe('health history', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'doc-organizer-history-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should record snapshots of health check results', () => {
+    fs.writeFileSync(path.join(tmpDir, 'README.md'), '# Project\n\n[Missing](docs/missing.md)\n');
+    const result = checkHealth(new DocumentationOrganizer({ rootDir: tmpDir }));
+    const taken = createSnapshot(result, tmpDir, new Date('2024-05-01T08:00:00Z'));
+
+    expect(taken).toMatchObject({
+      timestamp: '2024-05-01T08:00:00.000Z',
+      commit: null,
+      healthScore: result.healthScore,
+      totalFiles: 1,
+      issues: { brokenLinks: 1, orphaned: 0 }
+    });
+
+    expect(readHistory(tmpDir)).toEqual([]);
+    expect(recordSnapshot(taken, tmpDir)).toBe(path.join(tmpDir, HISTORY_FILE));
+    recordSnapshot({ ...taken, healthScore: 100 }, tmpDir);
+    expect(readHistory(tmpDir).map(s => s.healthScore)).toEqual([result.healthScore, 100]);
+  });
+
+  it('should find snapshots by commit prefix or date', () => {
+    const history = [
+      snapshot('2024-01-10T09:00:00.000Z', 'abc1234def', 90),
+      snapshot('2024-02-10T09:00:00.000Z', 'fed9876cba', 85),
+      snapshot('2024-02-10T18:00:00.000Z', null, 80)
+    ];
+
+    expect(findSnapshot(history, 'ABC1')).toBe(history[0]);
+    expect(findSnapshot(history, '2024-02-01')).toBe(history[0]);
+    expect(findSnapshot(history, '2024-02-10')).toBe(history[2]);
+    expect(findSnapshot(history, '2024-02-10T12:00:00Z')).toBe(history[1]);
+    expect(findSnapshot(history, '2023-12-31')).toBeNull();
+    expect(findSnapshot(history, 'last week')).toBeNull();
+  });
+
+  it('should report a lower score and growing issue counts as regressions', () => {
+    const before = snapshot('2024-01-10T09:00:00.000Z', null, 90);
+    const after = snapshot('2024-02-10T09:00:00.000Z', null, 84, 3);
+    after.issues.stale = 1;
+
+    expect(compareSnapshots(before, after)).toEqual([
+      { metric: 'healthScore', before: 90, after: 84 },
+      { metric: 'brokenLinks', before: 0, after: 3 }
+    ]);
+    expect(compareSnapshots(after, before)).toEqual([{ metric: 'stale', before: 1, after: 2 }]);
+  });
+});
@@ -0,0 +1,97 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  findStaleIndexes,
+  INDEX_END,
+  INDEX_START,
+  planFolderIndexes,
+  renderIndex,
+  updateIndexRegion,
+  writeFolderIndexes
+} from '../index-generator';
+import { DocumentationOrganizer } from '../organizer';
+import { checkHealth } from '../health-check';
+import { useTempDir } from './temp-dir';
+
+describe('index-generator', () => {
+  const tmp = useTempDir('index');
+
+  const read = (file: string) => fs.readFileSync(path.join(tmp.dir, file), 'utf8');
+
+  beforeEach(() => {
+    tmp.write('ai_docs/architecture/overview.md', '# System Overview\n\nThree services behind a gateway.\n');
+    tmp.write('ai_docs/architecture/api-reference.md', '# API Reference\n\nEndpoints of the v2 API.\n');
+    tmp.write('ai_docs/setup/install.md', '# Install\n');
+  });
+
+  it('should list documents with titles and summaries, grouped by category', () => {
+    const organizer = new DocumentationOrganizer({ rootDir: tmp.dir });
+    const indexes = planFolderIndexes(organizer);
+
+    expect(indexes.map(index => index.file)).toEqual([
+      'ai_docs/architecture/README.md',
+      'ai_docs/setup/README.md'
+    ]);
+    expect(indexes[0].content).toBe(
+      [
+        '# Architecture',
+        '',
+        INDEX_START,
+        '<!-- Generated by doc-organize index; edit outside the markers -->',
+        '',
+        '## architecture',
+        '',
+        '- [System Overview](overview.md) - Three services behind a gateway.',
+        '',
+        '## api',
+        '',
+        '- [API Reference](api-reference.md) - Endpoints of the v2 API.',
+        INDEX_END,
+        ''
+      ].join('\n')
+    );
+    expect(indexes[1].entries).toEqual([
+      { file: 'install.md', title: 'Install', summary: null, category: 'setup' }
+    ]);
+  });
+
+  it('should only rewrite the marked region and report stale indexes', () => {
+    tmp.write('ai_docs/setup/README.md', `# Setup\n\nHand-written intro.\n\n${INDEX_START}\nold\n${INDEX_END}\n\nFooter\n`);
+    const organizer = new DocumentationOrganizer({ rootDir: tmp.dir });
+
+    expect(findStaleIndexes(organizer).map(index => index.file)).toEqual(['ai_docs/setup/README.md']);
+    expect(checkHealth(organizer).staleIndexes).toEqual(['ai_docs/setup/README.md']);
+
+    const written = writeFolderIndexes(organizer);
+    expect(written.map(index => index.file)).toEqual([
+      'ai_docs/architecture/README.md',
+      'ai_docs/setup/README.md'
+    ]);
+    const setup = read('ai_docs/setup/README.md');
+    expect(setup).toMatch(/^# Setup\n\nHand-written intro\.\n\n<!-- doc-organizer:index:start -->/);
+    expect(setup).toContain('- [Install](install.md)\n');
+    expect(setup).toMatch(/<!-- doc-organizer:index:end -->\n\nFooter\n$/);
+    expect(findStaleIndexes(organizer)).toEqual([]);
+
+    tmp.write('ai_docs/setup/upgrade.md', '# Upgrade\n');
+    expect(findStaleIndexes(organizer).map(index => index.file)).toEqual(['ai_docs/setup/README.md']);
+  });
+
+  it('should escape brackets and backslashes in titles', () => {
+    const entries = [{ file: 'flags.md', title: 'The [beta] C:\\ flags', summary: null, category: 'setup' }];
+    expect(renderIndex(entries)).toContain('- [The \\[beta\\] C:\\\\ flags](flags.md)');
+  });
+
+  it('should append the region to a page without markers', () => {
+    expect(updateIndexRegion('# Notes\n\nKeep me.\n\n', 'list\n', 'Ignored')).toBe(
+      `# Notes\n\nKeep me.\n\n${INDEX_START}\nlist\n${INDEX_END}\n`
+    );
+  });
+
+  it('should write index.md when configured', () => {
+    const organizer = new DocumentationOrganizer({ rootDir: tmp.dir, indexes: { fileName: 'index.md' } });
+    writeFolderIndexes(organizer);
+    expect(fs.existsSync(path.join(tmp.dir, 'ai_docs/setup/index.md'))).toBe(true);
+    expect(fs.existsSync(path.join(tmp.dir, 'ai_docs/setup/README.md'))).toBe(false);
+  });
+});
@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DocumentationOrganizer } from '../organizer';
+import { listJournals, undoJournal } from '../journal';
+
+describe('undo journal', () => {
+  const originalCwd = process.cwd();
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'doc-organizer-journal-'));
+    process.chdir(tmpDir);
+    fs.mkdirSync('docs');
+    fs.writeFileSync('CLAUDE.md', '# Rules\nSee [readme](README.md)\n');
+    fs.writeFileSync('README.md', '# Readme\n');
+    fs.writeFileSync('docs/index.md', '[rules](../CLAUDE.md)\n');
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const apply = () =>
+    new DocumentationOrganizer().applySuggestions([
+      { current: 'CLAUDE.md', suggested: 'ai_docs/setup/CLAUDE.md' }
+    ]);
+
+  it('should record moves, created directories and link rewrites', () => {
+    const result = apply();
+    const [entry] = listJournals();
+
+    expect(entry.id).toBe(result.journalId);
+    expect(entry.moves).toEqual([
+      expect.objectContaining({ from: 'CLAUDE.md', to: 'ai_docs/setup/CLAUDE.md' })
+    ]);
+    expect(entry.createdDirs).toEqual(['ai_docs', 'ai_docs/setup']);
+    expect(entry.linkRewrites).toHaveLength(2);
+  });
+
+  it('should restore files, links and directories', () => {
+    apply();
+    const result = undoJournal();
+
+    expect(result.restored).toBe(1);
+    expect(result.revertedLinks).toBe(2);
+    expect(fs.readFileSync('CLAUDE.md', 'utf8')).toBe('# Rules\nSee [readme](README.md)\n');
+    expect(fs.readFileSync('docs/index.md', 'utf8')).toBe('[rules](../CLAUDE.md)\n');
+    expect(fs.existsSync('ai_docs')).toBe(false);
+    expect(listJournals()[0].undoneAt).toBeDefined();
+  });
+
+  it('should refuse to undo when a file changed after the move unless forced', () => {
+    apply();
+    fs.appendFileSync('ai_docs/setup/CLAUDE.md', 'Edited\n');
+
+    expect(() => undoJournal()).toThrow(/changed after the move/);
+    expect(fs.existsSync('ai_docs/setup/CLAUDE.md')).toBe(true);
+
+    const result = undoJournal(undefined, { force: true });
+    expect(result.restored).toBe(1);
+    expect(result.warnings).toContain('ai_docs/setup/CLAUDE.md changed after the move');
+    expect(fs.readFileSync('docs/index.md', 'utf8')).toBe('[rules](../CLAUDE.md)\n');
+  });
+});
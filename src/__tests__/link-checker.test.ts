@@ -0,0 +1,113 @@
+import { checkLinks, collectAnchors, githubSlug } from '../link-checker';
+import { DocumentationOrganizer } from '../organizer';
+import { checkHealth } from '../health-check';
+import { useTempDir } from './temp-dir';
+
+describe('link checker', () => {
+  it('should build GitHub heading slugs', () => {
+    expect(githubSlug('Getting Started')).toBe('getting-started');
+    expect(githubSlug('What is `doc-organize`?')).toBe('what-is-doc-organize');
+    expect(githubSlug('API v2.0 (beta) & **notes**')).toBe('api-v20-beta--notes');
+    expect(githubSlug('See [the guide](guide.md)')).toBe('see-the-guide');
+    expect(githubSlug('snake_case names')).toBe('snake_case-names');
+    expect(githubSlug('Café déjà vu')).toBe('café-déjà-vu');
+  });
+
+  it('should number repeated headings and include HTML ids', () => {
+    const content = '# Usage\n\n## Usage\n\n```\n# Not a heading\n```\n\n<a name="legacy-usage"></a>\n\n## Usage\n';
+    expect(collectAnchors(content, 'markdown')).toEqual(['usage', 'usage-1', 'usage-2', 'legacy-usage']);
+  });
+
+  describe('organizer', () => {
+    const tmp = useTempDir('link-checker');
+
+    beforeEach(() => {
+      tmp.write('docs/guides/installation.md', '# Installation\n\n## Requirements\n');
+      tmp.write('docs/img/architecture.png', '');
+      tmp.write(
+        'README.md',
+        [
+          '# Project',
+          '',
+          '- [Install](docs/guides/installation.md#requirements)',
+          '- [Moved](docs/installation.md)',
+          '- [Typo](docs/guides/instalation.md)',
+          '- [Heading](docs/guides/installation.md#requirement)',
+          '- [Local](#project) and [missing local](#overview)',
+          '- ![Diagram](docs/img/architecture.png) [site](https://example.com) [folder](docs/)',
+          '',
+          '[ref]: docs/nowhere/else.md'
+        ].join('\n')
+      );
+    });
+
+    it('should report broken files and anchors with positions and suggestions', () => {
+      const organizer = new DocumentationOrganizer({ rootDir: tmp.dir });
+      expect(checkLinks(organizer)).toEqual([
+        {
+          file: 'README.md',
+          line: 4,
+          column: 11,
+          target: 'docs/installation.md',
+          reason: 'missing-file',
+          suggestion: 'docs/guides/installation.md'
+        },
+        {
+          file: 'README.md',
+          line: 5,
+          column: 10,
+          target: 'docs/guides/instalation.md',
+          reason: 'missing-file',
+          suggestion: 'docs/guides/installation.md'
+        },
+        {
+          file: 'README.md',
+          line: 6,
+          column: 13,
+          target: 'docs/guides/installation.md#requirement',
+          reason: 'missing-anchor',
+          suggestion: 'docs/guides/installation.md#requirements'
+        },
+        {
+          file: 'README.md',
+          line: 7,
+          column: 41,
+          target: '#overview',
+          reason: 'missing-anchor',
+          suggestion: null
+        },
+        {
+          file: 'README.md',
+          line: 10,
+          column: 8,
+          target: 'docs/nowhere/else.md',
+          reason: 'missing-file',
+          suggestion: null
+        }
+      ]);
+
+      const result = checkHealth(organizer);
+      expect(result.brokenLinks).toHaveLength(5);
+    });
+
+    it('should suggest where the journal moved a file', () => {
+      tmp.write('ai_docs/setup/installation.md', '# Installation\n');
+      tmp.write('docs/guides/installation.md', '# Other installation\n');
+      tmp.write(
+        '.doc-organizer/journal/20240101-000000.json',
+        JSON.stringify({
+          id: '20240101-000000',
+          createdAt: '2024-01-01T00:00:00.000Z',
+          moves: [{ from: 'docs/installation.md', to: 'ai_docs/setup/installation.md', hash: '', method: 'fs' }],
+          createdDirs: [],
+          linkRewrites: [],
+          fileHashes: {}
+        })
+      );
+
+      const organizer = new DocumentationOrganizer({ rootDir: tmp.dir });
+      const moved = checkLinks(organizer).find(link => link.target === 'docs/installation.md');
+      expect(moved?.suggestion).toBe('ai_docs/setup/installation.md');
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  buildDocumentLinkGraph,
+  buildLinkGraph,
+  findEntryPoints,
+  findOrphans,
+  findUnreachable
+} from '../link-graph';
+import { DocumentationOrganizer } from '../organizer';
+import { checkHealth } from '../health-check';
+import { useTempDir } from './temp-dir';
+
+describe('link graph', () => {
+  const graph = buildLinkGraph([
+    { file: 'README.md', content: '# Project\n\n[Guide](docs/guide.md) and [API](docs/api/)\n' },
+    { file: 'CHANGELOG.md', content: '# Changelog\n' },
+    { file: 'docs/guide.md', content: '# Guide\n\nSee [[setup]] and [[api/README#Auth|the API]].\n\n[self]: guide.md\n' },
+    { file: 'docs/setup.md', content: '# Setup\n\nBack to the [guide][g].\n\n[g]: ./guide.md#top\n' },
+    { file: 'docs/api/README.md', content: '# API\n' },
+    { file: 'notes.md', content: '# Notes\n\nMentions setup.md and README.md in plain text.\n' },
+    { file: 'archive/2019/old.md', content: '# Old\n\n[Older](older.md)\n' },
+    { file: 'archive/2019/older.md', content: '# Older\n' },
+    { file: 'archive/plan.rst', content: 'Plan\n====\n\n`[[notes]]`\n' }
+  ]);
+
+  it('should resolve Markdown, reference and wiki links in both directions', () => {
+    expect(graph.outbound.get('docs/guide.md')!.map(edge => [edge.to, edge.kind, edge.line])).toEqual([
+      ['docs/setup.md', 'wiki', 3],
+      ['docs/api/README.md', 'wiki', 3]
+    ]);
+    expect(graph.inbound.get('docs/guide.md')!.map(edge => [edge.from, edge.kind])).toEqual([
+      ['README.md', 'inline'],
+      ['docs/setup.md', 'reference']
+    ]);
+    // Folder links point at the folder's README
+    expect(graph.inbound.get('docs/api/README.md')!.map(edge => edge.from)).toEqual([
+      'README.md',
+      'docs/guide.md'
+    ]);
+  });
+
+  it('should find orphans anywhere, ignoring plain-text mentions', () => {
+    expect(findOrphans(graph)).toEqual(['archive/2019/old.md', 'archive/plan.rst', 'notes.md']);
+    expect(findEntryPoints(graph)).toEqual(['CHANGELOG.md', 'README.md']);
+  });
+
+  it('should group documents unreachable from README.md by folder', () => {
+    expect(findUnreachable(graph)).toEqual([
+      { root: 'archive/', files: ['archive/2019/old.md', 'archive/2019/older.md', 'archive/plan.rst'] },
+      { root: 'CHANGELOG.md', files: ['CHANGELOG.md'] },
+      { root: 'notes.md', files: ['notes.md'] }
+    ]);
+    expect(findUnreachable(graph, 'missing.md')).toEqual([]);
+  });
+
+  describe('organizer', () => {
+    const tmp = useTempDir('link-graph');
+
+    beforeEach(() => {
+      tmp.write('README.md', '# Project\n\nStart with [setup](docs/setup.md).\n');
+      tmp.write('docs/setup.md', '# Setup\n');
+      tmp.write('docs/deep/forgotten.md', '# Forgotten\n\nSee setup.md.\n');
+    });
+
+    it('should report orphans and unreachable docs in the health check', () => {
+      const organizer = new DocumentationOrganizer({ rootDir: tmp.dir });
+      expect(buildDocumentLinkGraph(organizer).files).toEqual([
+        'README.md',
+        'docs/deep/forgotten.md',
+        'docs/setup.md'
+      ]);
+
+      const result = checkHealth(organizer);
+      expect(result.orphanedFiles).toEqual(['docs/deep/forgotten.md']);
+      expect(result.unreachable).toEqual([
+        { root: 'docs/deep/', files: ['docs/deep/forgotten.md'] }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import * as path from 'path';
+import { LocalClassifier, MODEL_FILE, TrainingDocument } from '../local-classifier';
+import { DocumentationOrganizer } from '../organizer';
+import { useTempDir } from './temp-dir';
+
+const documents: TrainingDocument[] = [
+  { category: 'setup', fileName: 'install', text: 'Install node, run npm install, configure env.' },
+  { category: 'setup', fileName: 'setup', text: 'Configure environment variables, install deps.' },
+  { category: 'setup', fileName: 'onboarding', text: 'Clone the repo, install packages, configure.' },
+  { category: 'architecture', fileName: 'architecture', text: 'Services split into components.' },
+  { category: 'architecture', fileName: 'system-design', text: 'Components talk over a queue.' },
+  { category: 'architecture', fileName: 'tech-stack', text: 'Components written in TypeScript.' }
+];
+
+describe('LocalClassifier', () => {
+  it('should classify by the nearest category centroid', () => {
+    const classifier = LocalClassifier.train(documents);
+
+    const result = classifier.classify('notes', 'How to install packages and configure the env.');
+    expect(result?.category).toBe('setup');
+    // No architecture terms, so nothing lowers the confidence
+    expect(result?.alternatives).toEqual([]);
+    expect(result?.confidence).toBeCloseTo(result!.similarity);
+
+    expect(classifier.classify('notes', 'Nothing in common')).toBeNull();
+    expect(classifier.getCategories().sort()).toEqual(['architecture', 'setup']);
+  });
+
+  it('should cross-validate repeatably', () => {
+    const evaluation = LocalClassifier.evaluate(documents, 3);
+    expect(evaluation).toMatchObject({ documents: 6, folds: 3 });
+    expect(evaluation.perCategory.setup.total).toBe(3);
+    expect(evaluation.accuracy).toBe(evaluation.correct / 6);
+    expect(LocalClassifier.evaluate(documents, 3)).toEqual(evaluation);
+  });
+
+  describe('with a project on disk', () => {
+    const tmp = useTempDir('model');
+
+    beforeEach(() => {
+      documents.forEach(doc => {
+        const dir = doc.category === 'setup' ? 'ai_docs/setup' : 'ai_docs/architecture';
+        tmp.write(`${dir}/${doc.fileName}.md`, `${doc.text}\n`);
+      });
+      tmp.write('notes/local-env.md', 'Install packages, configure env vars and install node.\n');
+    });
+
+    it('should train on correctly placed docs and save the model', () => {
+      const organizer = new DocumentationOrganizer({ rootDir: tmp.dir });
+      const { documents: trained, file } = organizer.trainLocalModel();
+
+      expect(trained.map(doc => doc.fileName).sort()).toEqual(
+        documents.map(doc => doc.fileName).sort()
+      );
+      expect(file).toBe(path.join(tmp.dir, MODEL_FILE));
+      expect(LocalClassifier.load(tmp.dir)?.getCategories().sort()).toEqual(['architecture', 'setup']);
+    });
+
+    it('should refuse to train without enough documents', () => {
+      const organizer = new DocumentationOrganizer({
+        rootDir: tmp.dir,
+        localModel: { minDocuments: 10 }
+      });
+      expect(() => organizer.trainLocalModel()).toThrow(/Need at least 10 correctly placed documents/);
+    });
+
+    it('should fall back to the saved model for low-confidence files', () => {
+      new DocumentationOrganizer({ rootDir: tmp.dir }).trainLocalModel();
+
+      const organizer = new DocumentationOrganizer({ rootDir: tmp.dir });
+      const analysis = organizer.analyzeFileContent('notes/local-env.md')!;
+      expect(analysis.localModelUsed).toBe(true);
+      expect(analysis.suggestedCategory).toBe('setup');
+      expect(analysis.suggestedPath).toBe('ai_docs/setup/local-env.md');
+      expect(analysis.reasons[0]).toMatch(/^local model: setup/);
+
+      const disabled = new DocumentationOrganizer({
+        rootDir: tmp.dir,
+        localModel: { enabled: false }
+      });
+      expect(disabled.analyzeFileContent('notes/local-env.md')!.localModelUsed).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  parseMarkdownLinks,
+  parseWikiLinks,
+  isRelativeLink,
+  resolveLinkTarget,
+  rewriteLinksForMoves
+} from '../markdown-links';
+
+describe('parseMarkdownLinks', () => {
+  it('should find inline, image and reference links with positions', () => {
+    const content = [
+      '# Title',
+      'See [setup](docs/setup.md#install) and ![diagram](img/arch.png "Arch").',
+      '',
+      '[guide]: ./guide.md'
+    ].join('\n');
+
+    const links = parseMarkdownLinks(content);
+    expect(links.map(l => [l.kind, l.target, l.line, l.column])).toEqual([
+      ['inline', 'docs/setup.md#install', 2, 13],
+      ['image', 'img/arch.png', 2, 51],
+      ['reference', './guide.md', 4, 10]
+    ]);
+  });
+
+  it('should skip links inside code fences and inline code', () => {
+    const content = ['```md', '[a](a.md)', '```', 'Use `[b](b.md)` or [c](c.md)'].join('\n');
+    expect(parseMarkdownLinks(content).map(l => l.target)).toEqual(['c.md']);
+  });
+});
+
+describe('parseWikiLinks', () => {
+  it('should find targets, anchors and embeds outside code', () => {
+    const content = [
+      'See [[Setup Guide]], [[docs/api#Auth|the API]] and ![[diagram.png]].',
+      '`[[not a link]]`',
+      '```',
+      '[[also not]]',
+      '```',
+      'Jump to [[#Usage]]'
+    ].join('\n');
+
+    expect(parseWikiLinks(content)).toEqual([
+      { target: 'Setup Guide', anchor: null, embed: false, line: 1, column: 5 },
+      { target: 'docs/api', anchor: 'Auth', embed: false, line: 1, column: 22 },
+      { target: 'diagram.png', anchor: null, embed: true, line: 1, column: 52 },
+      { target: '', anchor: 'Usage', embed: false, line: 6, column: 9 }
+    ]);
+  });
+});
+
+describe('isRelativeLink', () => {
+  it('should reject URLs, absolute paths and bare anchors', () => {
+    expect(isRelativeLink('https://example.com')).toBe(false);
+    expect(isRelativeLink('mailto:me@example.com')).toBe(false);
+    expect(isRelativeLink('/docs/a.md')).toBe(false);
+    expect(isRelativeLink('#section')).toBe(false);
+    expect(isRelativeLink('../a.md')).toBe(true);
+  });
+});
+
+describe('resolveLinkTarget', () => {
+  it('should resolve relative to the containing file and drop anchors', () => {
+    expect(resolveLinkTarget('docs/guides/a.md', '../setup.md#top')).toBe('docs/setup.md');
+    expect(resolveLinkTarget('a.md', 'my%20notes.md')).toBe('my notes.md');
+  });
+});
+
+describe('rewriteLinksForMoves', () => {
+  const moves = new Map([['CLAUDE.md', 'ai_docs/setup/CLAUDE.md']]);
+
+  it('should rewrite inbound links to a moved file, keeping anchors', () => {
+    const content = 'Read [the rules](../CLAUDE.md#rules).\n\n[claude]: ../CLAUDE.md';
+    const result = rewriteLinksForMoves(content, 'docs/index.md', 'docs/index.md', moves);
+
+    expect(result.content).toBe(
+      'Read [the rules](../ai_docs/setup/CLAUDE.md#rules).\n\n[claude]: ../ai_docs/setup/CLAUDE.md'
+    );
+    expect(result.rewrites).toHaveLength(2);
+    expect(result.rewrites[0]).toMatchObject({
+      file: 'docs/index.md',
+      line: 1,
+      from: '../CLAUDE.md#rules',
+      to: '../ai_docs/setup/CLAUDE.md#rules'
+    });
+  });
+
+  it('should rewrite outbound links inside the moved file', () => {
+    const content = 'See [readme](README.md), ![logo](./img/logo.png) and [web](https://x.dev).';
+    const result = rewriteLinksForMoves(content, 'CLAUDE.md', 'ai_docs/setup/CLAUDE.md', moves);
+
+    expect(result.content).toBe(
+      'See [readme](../../README.md), ![logo](../../img/logo.png) and [web](https://x.dev).'
+    );
+  });
+
+  it('should leave unaffected documents untouched', () => {
+    const content = 'See [other](other.md) and [section](#top).';
+    const result = rewriteLinksForMoves(content, 'a.md', 'a.md', moves);
+    expect(result.content).toBe(content);
+    expect(result.rewrites).toEqual([]);
+  });
+});
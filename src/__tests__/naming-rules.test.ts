@@ -0,0 +1,120 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { checkName, fixName, splitWords, toCase, validateNamingRule } from '../naming-rules';
+import { DocumentationOrganizer } from '../organizer';
+import { NamingRule } from '../types';
+import { useTempDir } from './temp-dir';
+
+describe('naming rules', () => {
+  const context = { modified: new Date(2024, 2, 7), siblings: ['0001-use-postgres', '0007-drop-redis'] };
+
+  describe('checkName', () => {
+    it('should report every problem of a rule with its severity', () => {
+      const rule: NamingRule = {
+        name: 'docs',
+        severity: 'error',
+        case: 'kebab-case',
+        maxLength: 20,
+        forbiddenWords: ['draft'],
+        noSpaces: true
+      };
+
+      expect(checkName('Draft Release Notes For Q3', rule).map(i => [i.message, i.fixable])).toEqual([
+        ['contains forbidden word "Draft"', true],
+        ['contains spaces', true],
+        ['should be kebab-case', true],
+        ['is longer than 20 characters (26)', true]
+      ]);
+      expect(checkName('release-notes', rule)).toEqual([]);
+      expect(checkName('Draft', { ...rule, severity: 'off' })).toEqual([]);
+    });
+
+    it('should check date prefixes, prefixes and suffixes', () => {
+      expect(checkName('2024-03-07-use-postgres', { name: 'adr', datePrefix: 'YYYY-MM-DD' })).toEqual([]);
+      expect(checkName('2024-13-07-use-postgres', { name: 'adr', datePrefix: 'YYYY-MM-DD' })[0]).toEqual({
+        rule: 'adr',
+        severity: 'warning',
+        message: 'should start with a YYYY-MM-DD prefix',
+        fixable: true
+      });
+      expect(
+        checkName('notes', { name: 'rfc', prefix: ['rfc-', 'RFC-'], suffix: ['-v1'] }).map(i => i.message)
+      ).toEqual(['should start with "rfc-" or "RFC-"', 'should end with "-v1"']);
+      expect(checkName('Guide', { name: 'vague', forbiddenNames: ['guide'] })[0].fixable).toBe(false);
+    });
+  });
+
+  describe('fixName', () => {
+    it('should convert case, drop forbidden words and truncate at a word boundary', () => {
+      const rule: NamingRule = {
+        name: 'docs',
+        case: 'kebab-case',
+        maxLength: 24,
+        forbiddenWords: ['draft'],
+        noSpaces: true
+      };
+      expect(fixName('Draft Release Notes For Q3 Launch', [rule], context)).toBe('release-notes-for-q3');
+      expect(toCase('apiReference_v2', 'PascalCase')).toBe('ApiReferenceV2');
+      expect(splitWords('HTTPServerSetup')).toEqual(['HTTP', 'Server', 'Setup']);
+    });
+
+    it('should add the next sequence number or the modification date', () => {
+      expect(fixName('Use Kafka', [{ name: 'adr', datePrefix: 'NNNN', case: 'kebab-case' }], context)).toBe(
+        '0008-use-kafka'
+      );
+      expect(fixName('use_kafka', [{ name: 'adr', datePrefix: 'YYYY-MM-DD', case: 'snake_case' }], context)).toBe(
+        '2024-03-07_use_kafka'
+      );
+      expect(fixName('0003-UseKafka', [{ name: 'adr', datePrefix: 'NNNN', case: 'kebab-case' }], context)).toBe(
+        '0003-use-kafka'
+      );
+    });
+  });
+
+  it('should validate rules', () => {
+    expect(validateNamingRule({ name: '' })).toBe('name is required');
+    expect(validateNamingRule({ name: 'x', datePrefix: 'YYYY/MM' })).toMatch(/may only contain/);
+    expect(validateNamingRule({ name: 'x', maxLength: 0 })).toBe('maxLength must be a positive integer');
+    expect(validateNamingRule({ name: 'x', case: 'Title Case' as any })).toMatch(/^case must be one of/);
+  });
+
+  describe('organizer', () => {
+    const tmp = useTempDir('naming');
+
+    it('should scope rules to directories and categories and rename files to comply', () => {
+      tmp.write('docs/adr/0001-use-postgres.md', '# Use Postgres\n');
+      tmp.write('docs/adr/Use Kafka.md', '# Use Kafka\n');
+      tmp.write('ai_docs/features/LoginFlow.md', '# Login\n');
+      tmp.write('notes/Use Kafka.md', '# Not an ADR\n');
+      tmp.write('README.md', 'See [Kafka](docs/adr/Use%20Kafka.md)\n');
+
+      const organizer = new DocumentationOrganizer({
+        rootDir: tmp.dir,
+        namingRules: [
+          { name: 'adr', directories: ['docs/adr/'], severity: 'error', datePrefix: 'NNNN', case: 'kebab-case' },
+          { name: 'feature-kebab-case', severity: 'info' }
+        ]
+      });
+
+      const violations = organizer.checkNamingConventions();
+      expect(violations.map(({ file, severity, fix }) => ({ file, severity, fix }))).toEqual([
+        { file: 'ai_docs/features/LoginFlow.md', severity: 'info', fix: 'ai_docs/features/login-flow.md' },
+        { file: 'docs/adr/Use Kafka.md', severity: 'error', fix: 'docs/adr/0002-use-kafka.md' }
+      ]);
+
+      const result = organizer.fixNamingViolations({ useGit: false });
+      expect(result.successful).toBe(2);
+      expect(fs.existsSync(path.join(tmp.dir, 'docs/adr/0002-use-kafka.md'))).toBe(true);
+      expect(fs.readFileSync(path.join(tmp.dir, 'README.md'), 'utf8')).toBe(
+        'See [Kafka](docs/adr/0002-use-kafka.md)\n'
+      );
+      expect(organizer.checkNamingConventions()).toEqual([]);
+    });
+
+    it('should reject invalid rules from config', () => {
+      expect(
+        () => new DocumentationOrganizer({ rootDir: tmp.dir, namingRules: [{ name: 'x', severity: 'fatal' as any }] })
+      ).toThrow('Invalid namingRules entry "x": severity must be one of error, warning, info, off');
+    });
+  });
+});
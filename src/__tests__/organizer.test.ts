@@ -37,6 +37,23 @@ describe('DocumentationOrganizer', () => {
       expect(organizer.config.patterns.custom).toBeInstanceOf(RegExp);
       expect(organizer.config.patterns.custom.test('custom-file')).toBe(true);
     });
+
+    it('should reject invalid exclude and protected patterns', () => {
+      expect(() => new DocumentationOrganizer({ excludePatterns: ['dist', ''] })).toThrow(
+        /Invalid excludePatterns entry/
+      );
+      expect(() => new DocumentationOrganizer({ protectedFiles: ['docs\\KEEP.md'] })).toThrow(
+        /Invalid protectedFiles entry/
+      );
+    });
+
+    it('should normalize extensions and reject invalid ones', () => {
+      const organizer = new DocumentationOrganizer({ extensions: ['MDX', '.rst'] });
+      expect(organizer.config.extensions).toEqual(['.mdx', '.rst']);
+      expect(() => new DocumentationOrganizer({ extensions: ['*.md'] })).toThrow(
+        /Invalid extensions entry "\*\.md"/
+      );
+    });
   });
 
   describe('resolveDestination', () => {
@@ -130,6 +147,240 @@ describe('DocumentationOrganizer', () => {
     });
   });
 
+  describe('getAllMdFiles', () => {
+    it('should scan the configured root and return root-relative paths', () => {
+      const tree: Record<string, string[]> = {
+        '/project': ['README.md', 'docs', 'node_modules'],
+        '/project/docs': ['setup.md', 'notes.txt']
+      };
+      mockFs.readdirSync.mockImplementation(((dir: string) => tree[dir]) as any);
+      mockFs.statSync.mockImplementation(((p: string) => ({ isDirectory: () => p in tree })) as any);
+
+      const organizer = new DocumentationOrganizer({ rootDir: '/project' });
+      expect(organizer.getAllMdFiles()).toEqual(['README.md', path.join('docs', 'setup.md')]);
+    });
+
+    it('should pick up the configured extensions', () => {
+      const tree: Record<string, string[]> = {
+        '/project': ['intro.MDX', 'docs'],
+        '/project/docs': ['setup.rst', 'notes.txt', 'guide.md']
+      };
+      mockFs.readdirSync.mockImplementation(((dir: string) => tree[dir]) as any);
+      mockFs.statSync.mockImplementation(((p: string) => ({ isDirectory: () => p in tree })) as any);
+
+      const organizer = new DocumentationOrganizer({
+        rootDir: '/project',
+        extensions: ['mdx', '.rst']
+      });
+      expect(organizer.getAllMdFiles()).toEqual(['intro.MDX', path.join('docs', 'setup.rst')]);
+    });
+  });
+
+  describe('analyzeFileContent', () => {
+    it('should keep the original extension in the suggested path', () => {
+      mockFs.readFileSync.mockReturnValue('Installation\n============\n' as any);
+
+      const organizer = new DocumentationOrganizer({ extensions: ['.rst'] });
+      const analysis = organizer.analyzeFileContent('packages/core/install.rst');
+      expect(analysis).toMatchObject({
+        format: 'rst',
+        suggestedPath: 'ai_docs/setup/install.rst',
+        reasons: ['filename match', 'content match', 'keyword match']
+      });
+    });
+
+    it('should match content against format-specific headings', () => {
+      mockFs.readFileSync.mockReturnValue(':toc:\n\n= Troubleshooting the sync worker\n' as any);
+
+      const organizer = new DocumentationOrganizer({ extensions: ['.adoc'] });
+      const analysis = organizer.analyzeFileContent('docs/sync-worker.adoc');
+      expect(analysis).toMatchObject({
+        suggestedCategory: 'maintenance',
+        suggestedPath: 'ai_docs/maintenance/sync-worker.adoc',
+        reasons: ['content match', 'keyword match', 'outline match']
+      });
+    });
+  });
+
+  describe('isProtected', () => {
+    it('should match protected files with glob patterns and negations', () => {
+      const organizer = new DocumentationOrganizer({
+        protectedFiles: ['docs/**/legacy/*.md', 'docs/adr/*.md', '!docs/adr/draft.md']
+      });
+      expect(organizer.isProtected('README.md')).toBe(true);
+      expect(organizer.isProtected('packages/app/README.md')).toBe(true);
+      expect(organizer.isProtected('docs/v1/legacy/setup.md')).toBe(true);
+      expect(organizer.isProtected('docs/adr/0001-record.md')).toBe(true);
+      expect(organizer.isProtected('docs/adr/draft.md')).toBe(false);
+    });
+  });
+
+  describe('scoring', () => {
+    it('should rank every matching category instead of taking the first match', () => {
+      mockFs.readFileSync.mockReturnValue(
+        '# Security audit\n\nFindings by severity: two high-severity vulnerabilities.\n' as any
+      );
+
+      const organizer = new DocumentationOrganizer();
+      const analysis = organizer.analyzeFileContent('security-audit.md')!;
+      expect(analysis.suggestedCategory).toBe('audits');
+      expect(analysis.candidates![0]).toMatchObject({
+        category: 'audits',
+        signals: { filename: 1, headings: 1, keywords: 1 }
+      });
+
+      // The maintenance pattern matches the file name too; headings and keywords decide
+      const maintenance = analysis.candidates!.find(candidate => candidate.category === 'maintenance')!;
+      expect(maintenance.signals.filename).toBe(1);
+      expect(maintenance.score).toBeLessThan(analysis.candidates![0].score);
+    });
+
+    it('should lower confidence when categories are close', () => {
+      mockFs.readFileSync.mockReturnValue('Notes\n' as any);
+
+      const organizer = new DocumentationOrganizer();
+      const analysis = organizer.analyzeFileContent('docs/configuration-guide.md')!;
+      const [best, runnerUp] = analysis.candidates!;
+      expect([best.category, runnerUp.category]).toEqual(['setup', 'guides']);
+      expect(runnerUp.score).toBeCloseTo(best.score);
+      expect(analysis.confidence).toBeCloseTo(best.score / 1.5);
+    });
+
+    it('should match outline rules despite badges and front matter', () => {
+      mockFs.readFileSync.mockReturnValue(
+        [
+          '---',
+          'title: Widget',
+          '---',
+          '[![npm](https://img.shields.io/npm/v/widget.svg)](https://npm.im/widget)',
+          '',
+          '# Widget',
+          '',
+          '## Installation',
+          '',
+          '```sh',
+          'npm install widget',
+          '```'
+        ].join('\n') as any
+      );
+
+      const organizer = new DocumentationOrganizer();
+      const analysis = organizer.analyzeFileContent('docs/widget.md')!;
+      expect(analysis.outline).toMatchObject({ title: 'Widget', fenceLanguages: ['sh'] });
+      expect(analysis.suggestedCategory).toBe('setup');
+      expect(analysis.reasons).toContain('outline match');
+    });
+
+    it('should reject outline rules with invalid regexes or unknown categories', () => {
+      expect(
+        () => new DocumentationOrganizer({ outlineRules: [{ category: 'setup', headings: ['('] }] })
+      ).toThrow(/Invalid outlineRules entry for "setup"/);
+      expect(() => new DocumentationOrganizer({ outlineRules: [{ category: 'setpu' }] })).toThrow(
+        'Invalid outlineRules entry for "setpu": unknown category "setpu"'
+      );
+    });
+
+    it('should accept outline rules for the endpoints category of api projects', () => {
+      const rule = { category: 'endpoints', headings: ['^overview$'] };
+      const organizer = new DocumentationOrganizer({ projectType: 'api', outlineRules: [rule] });
+      organizer.adjustForProjectType();
+      expect(organizer.config.patterns.endpoints).toBeDefined();
+      expect(organizer.config.outlineRules).toContainEqual(rule);
+    });
+
+    it('should accept outline rules for the analysis category of data-science projects', () => {
+      const rule = { category: 'analysis', headings: ['^overview$'] };
+      const organizer = new DocumentationOrganizer({ projectType: 'data-science', outlineRules: [rule] });
+      organizer.adjustForProjectType();
+      expect(organizer.config.patterns.analysis).toBeDefined();
+      expect(organizer.config.outlineRules).toContainEqual(rule);
+    });
+
+    it('should accept outline rules for the deployment category of mobile projects', () => {
+      const rule = { category: 'deployment', headings: ['^overview$'] };
+      const organizer = new DocumentationOrganizer({ projectType: 'mobile', outlineRules: [rule] });
+      organizer.adjustForProjectType();
+      expect(organizer.config.patterns.deployment).toBeDefined();
+      expect(organizer.config.outlineRules).toContainEqual(rule);
+    });
+
+    it('should use configured signal weights', () => {
+      mockFs.readFileSync.mockReturnValue('# Notes\n' as any);
+
+      const organizer = new DocumentationOrganizer({
+        keywords: { setup: [] },
+        scoring: { weights: { filename: 0.6 } }
+      });
+      expect(organizer.config.scoring.weights.headings).toBe(0.5);
+      expect(organizer.analyzeFileContent('setup.md')!.confidence).toBeCloseTo(0.6);
+    });
+  });
+
+  describe('front-matter directives', () => {
+    it('should give an explicit category full confidence', () => {
+      mockFs.readFileSync.mockReturnValue(
+        '---\ndoc-organizer:\n  category: architecture\n---\n# Notes\n' as any
+      );
+
+      const organizer = new DocumentationOrganizer();
+      const analysis = organizer.analyzeFileContent('notes.md');
+      expect(analysis).toMatchObject({
+        suggestedCategory: 'architecture',
+        suggestedPath: 'ai_docs/architecture/notes.md',
+        confidence: 1,
+        reasons: ['front-matter override']
+      });
+      expect(organizer.isCorrectlyPlaced(analysis!)).toBe(false);
+    });
+
+    it('should honor an explicit destination', () => {
+      mockFs.readFileSync.mockReturnValue(
+        '<!-- doc-organizer: { destination: "{aiDocs}/adr" } -->\n' as any
+      );
+
+      const organizer = new DocumentationOrganizer();
+      const moved = organizer.analyzeFileContent('setup-notes.md')!;
+      expect(moved.suggestedPath).toBe('ai_docs/adr/setup-notes.md');
+      expect(moved.suggestedCategory).toBe('setup');
+      expect(organizer.isCorrectlyPlaced(moved)).toBe(false);
+
+      const inPlace = organizer.analyzeFileContent('ai_docs/adr/setup-notes.md')!;
+      expect(organizer.isCorrectlyPlaced(inPlace)).toBe(true);
+    });
+
+    it('should skip pinned and ignored files', () => {
+      const organizer = new DocumentationOrganizer();
+
+      mockFs.readFileSync.mockReturnValue('---\ndoc-organizer: { pin: true }\n---\n' as any);
+      expect(organizer.analyzeFileContent('setup.md')).toBeNull();
+
+      mockFs.readFileSync.mockReturnValue('# Setup\n<!-- doc-organizer: ignore -->\n' as any);
+      expect(organizer.analyzeFileContent('setup.md')).toBeNull();
+      expect(organizer.errors).toEqual([]);
+    });
+
+    it('should report invalid directives and fall back to the classifier', () => {
+      mockFs.readFileSync.mockReturnValue('---\ndoc-organizer: { category: misc }\n---\n' as any);
+
+      const organizer = new DocumentationOrganizer();
+      const analysis = organizer.analyzeFileContent('setup.md');
+      expect(analysis?.reasons).toContain('filename match');
+      expect(analysis?.reasons).not.toContain('front-matter override');
+      expect(organizer.errors[0]).toMatch(/setup\.md: unknown category "misc"/);
+    });
+
+    it('should reject destinations outside the project root', () => {
+      mockFs.readFileSync.mockReturnValue(
+        '<!-- doc-organizer: { destination: "../../elsewhere" } -->\n# Setup\n' as any
+      );
+
+      const organizer = new DocumentationOrganizer();
+      const analysis = organizer.analyzeFileContent('setup.md');
+      expect(analysis?.suggestedPath).not.toMatch(/elsewhere/);
+      expect(organizer.errors[0]).toMatch(/destination "\.\.\/\.\.\/elsewhere" is outside the project root/);
+    });
+  });
+
   describe('checkNamingConventions', () => {
     it('should flag vague file names', () => {
       mockFs.readdirSync.mockReturnValue(['doc.md'] as any);
@@ -145,6 +396,55 @@ describe('DocumentationOrganizer', () => {
     });
   });
 
+  describe('resolveCollisions', () => {
+    const plan = [
+      { current: 'packages/a/setup.md', suggested: 'ai_docs/setup/setup.md' },
+      { current: 'packages/b/setup.md', suggested: 'ai_docs/setup/setup.md' },
+      { current: 'install.md', suggested: 'ai_docs/setup/install.md' }
+    ];
+
+    it('should skip colliding moves by default', () => {
+      mockFs.existsSync.mockReturnValue(false);
+      const organizer = new DocumentationOrganizer();
+      const { suggestions, collisions } = organizer.resolveCollisions(plan);
+
+      expect(suggestions.map(s => s.current)).toEqual(['install.md']);
+      expect(collisions).toEqual([
+        {
+          destination: 'ai_docs/setup/setup.md',
+          sources: ['packages/a/setup.md', 'packages/b/setup.md'],
+          kind: 'plan',
+          resolution: 'skipped'
+        }
+      ]);
+    });
+
+    it('should suffix colliding moves with their source directory', () => {
+      mockFs.existsSync.mockReturnValue(false);
+      const organizer = new DocumentationOrganizer({ collisions: { strategy: 'suffix' } });
+      const { suggestions } = organizer.resolveCollisions(plan);
+
+      expect(suggestions.map(s => s.suggested)).toEqual([
+        'ai_docs/setup/setup-a.md',
+        'ai_docs/setup/setup-b.md',
+        'ai_docs/setup/install.md'
+      ]);
+    });
+
+    it('should report destinations that already exist on disk', () => {
+      mockFs.existsSync.mockImplementation((p: any) => p === '/project/ai_docs/setup/install.md');
+      const organizer = new DocumentationOrganizer({
+        rootDir: '/project',
+        collisions: { strategy: 'fail' }
+      });
+      const { suggestions, collisions } = organizer.resolveCollisions(plan.slice(2));
+
+      expect(suggestions).toHaveLength(1);
+      expect(collisions[0]).toMatchObject({ kind: 'disk', resolution: 'failed' });
+      expect(() => organizer.applySuggestions(plan.slice(2))).toThrow(/destination collisions/);
+    });
+  });
+
   describe('getHighConfidenceSuggestions', () => {
     it('should filter suggestions by autoApply threshold', () => {
       const organizer = new DocumentationOrganizer();
@@ -207,4 +507,13 @@ describe('loadConfiguration', () => {
     const config = loadConfiguration();
     expect(config.projectType).toBe('api');
   });
+
+  it('should throw instead of falling back to defaults on invalid config', () => {
+    mockFs.existsSync.mockImplementation((p: any) => p === '.doc-organizer.json');
+    mockFs.readFileSync.mockReturnValue(JSON.stringify({ destination: { setup: 'docs/' } }));
+
+    expect(() => loadConfiguration()).toThrow(
+      '.doc-organizer.json: destination: unknown key (did you mean "destinations"?)'
+    );
+  });
 });
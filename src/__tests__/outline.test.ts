@@ -0,0 +1,131 @@
+import { buildOutline, flattenHeadings, matchOutlineRules, validateOutlineRule } from '../outline';
+
+describe('outline', () => {
+  const markdown = [
+    '![CI](https://ci.example.com/badge.svg)',
+    '',
+    '# Widget service',
+    '',
+    '## Installation',
+    '',
+    '```bash',
+    'npm install widget',
+    '```',
+    '',
+    '### From source',
+    '',
+    '```',
+    '# not a heading',
+    '```',
+    '',
+    '## Options',
+    '',
+    '| Name | Default |',
+    '| ---- | ------- |',
+    '| port | 3000    |',
+    '',
+    'See [the API](./api.md#routes).'
+  ].join('\n');
+
+  describe('buildOutline', () => {
+    it('should build the heading tree, code blocks, tables and links', () => {
+      const outline = buildOutline(markdown, 'markdown');
+
+      expect(outline.title).toBe('Widget service');
+      expect(outline.headings).toHaveLength(1);
+      expect(outline.headings[0].children.map(h => h.text)).toEqual(['Installation', 'Options']);
+      expect(outline.headings[0].children[0].children[0]).toMatchObject({
+        level: 3,
+        text: 'From source',
+        line: 11
+      });
+      expect(outline.fenceLanguages).toEqual(['bash']);
+      expect(outline.codeBlocks).toBe(2);
+      expect(outline.tables).toBe(1);
+      expect(outline.links).toEqual([
+        'https://ci.example.com/badge.svg',
+        './api.md#routes'
+      ]);
+    });
+
+    it('should only close a fence on the same marker, at least as long', () => {
+      const nested = [
+        '````markdown',
+        '```bash',
+        '# not a heading',
+        '```',
+        '````',
+        '',
+        '~~~',
+        '```',
+        '~~~',
+        '',
+        '# Title'
+      ].join('\n');
+      expect(buildOutline(nested, 'markdown')).toMatchObject({
+        fenceLanguages: ['markdown'],
+        codeBlocks: 2
+      });
+    });
+
+    it('should read code blocks and tables in reStructuredText and AsciiDoc', () => {
+      const rst = 'Usage\n=====\n\n.. code-block:: python\n\n   import widget\n\n+---+---+\n| a | b |\n+---+---+\n';
+      expect(buildOutline(rst, 'rst')).toMatchObject({
+        title: 'Usage',
+        fenceLanguages: ['python'],
+        codeBlocks: 1,
+        tables: 1,
+        links: []
+      });
+
+      const adoc = '= Usage\n\n[source,ruby]\n----\nputs 1\n----\n\n|===\n| a | b\n|===\n';
+      expect(buildOutline(adoc, 'asciidoc')).toMatchObject({
+        fenceLanguages: ['ruby'],
+        codeBlocks: 1,
+        tables: 1
+      });
+    });
+  });
+
+  describe('flattenHeadings', () => {
+    it('should list headings in document order', () => {
+      const headings = flattenHeadings(buildOutline(markdown, 'markdown').headings);
+      expect(headings.map(h => h.text)).toEqual([
+        'Widget service',
+        'Installation',
+        'From source',
+        'Options'
+      ]);
+    });
+  });
+
+  describe('matchOutlineRules', () => {
+    it('should require every condition of a rule', () => {
+      const outline = buildOutline(markdown, 'markdown');
+      expect(
+        matchOutlineRules(outline, [
+          { category: 'setup', headings: ['^installation$'], fenceLanguages: ['sh', 'BASH'] },
+          { category: 'api', headings: ['^installation$'], fenceLanguages: ['http'] },
+          { category: 'guides', tables: true, links: ['api\\.md'] },
+          { category: 'specs', tables: false }
+        ])
+      ).toEqual(['setup', 'guides']);
+    });
+  });
+
+  describe('validateOutlineRule', () => {
+    it('should report invalid regexes, missing or unknown categories and missing conditions', () => {
+      const categories = ['setup', 'api'];
+      expect(validateOutlineRule({ category: 'setup', headings: ['^(install'] }, categories)).toMatch(
+        /Invalid regular expression/
+      );
+      expect(validateOutlineRule({ category: '' }, categories)).toBe('category is required');
+      expect(validateOutlineRule({ category: 'setpu' }, categories)).toBe('unknown category "setpu"');
+      expect(validateOutlineRule({ category: 'setup' }, categories)).toBe(
+        'at least one of headings, fenceLanguages, tables or links is required'
+      );
+      expect(validateOutlineRule({ category: 'api', tables: true }, categories)).toBeNull();
+      expect(validateOutlineRule({ category: 'setup', links: ['\\.md$'] }, categories)).toBeNull();
+    });
+  });
+});
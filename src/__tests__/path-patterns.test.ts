@@ -0,0 +1,93 @@
+import * as path from 'path';
+import { PathMatcher, parseIgnoreFile, validatePathPattern } from '../path-patterns';
+import { DocumentationOrganizer } from '../organizer';
+import { useTempDir } from './temp-dir';
+
+describe('PathMatcher', () => {
+  it('should match names without a slash at any depth, not as substrings', () => {
+    const matcher = new PathMatcher(['build']);
+    expect(matcher.matches('build', true)).toBe(true);
+    expect(matcher.matches('packages/app/build', true)).toBe(true);
+    expect(matcher.matches('docs/build-guide.md')).toBe(false);
+  });
+
+  it('should anchor patterns containing a slash and support globstars', () => {
+    const matcher = new PathMatcher(['docs/**/legacy/*.md']);
+    expect(matcher.matches('docs/legacy/old.md')).toBe(true);
+    expect(matcher.matches('docs/api/legacy/old.md')).toBe(true);
+    expect(matcher.matches('other/docs/legacy/old.md')).toBe(false);
+  });
+
+  it('should only match directories for patterns with a trailing slash', () => {
+    const matcher = new PathMatcher(['drafts/']);
+    expect(matcher.matches('drafts', false)).toBe(false);
+    expect(matcher.matches('drafts/idea.md')).toBe(true);
+  });
+
+  it('should let later negations re-include paths', () => {
+    const matcher = new PathMatcher(['docs/*.md', '!docs/keep.md']);
+    expect(matcher.matches('docs/old.md')).toBe(true);
+    expect(matcher.matches('docs/keep.md')).toBe(false);
+  });
+
+  it('should not re-include paths inside a matched directory', () => {
+    const matcher = new PathMatcher(['vendor', '!vendor/keep.md']);
+    expect(matcher.matches('vendor/keep.md')).toBe(true);
+  });
+
+  it('should reject invalid patterns', () => {
+    expect(validatePathPattern('')).toBe('pattern is empty');
+    expect(validatePathPattern('!')).toBe('pattern is empty');
+    expect(validatePathPattern('docs\\legacy')).toBe('use forward slashes in patterns');
+    expect(() => new PathMatcher(['docs', ''], 'excludePatterns entry')).toThrow(
+      'Invalid excludePatterns entry "": pattern is empty'
+    );
+  });
+});
+
+describe('parseIgnoreFile', () => {
+  it('should skip comments and blank lines', () => {
+    expect(parseIgnoreFile('# generated\n\ncoverage/\n\\#notes.md\n!keep.md  \n')).toEqual([
+      'coverage/',
+      '#notes.md',
+      '!keep.md'
+    ]);
+  });
+});
+
+describe('ignore files during scans', () => {
+  const tmp = useTempDir('ignore');
+
+  beforeEach(() => {
+    tmp.write('.gitignore', 'coverage/\ngenerated.md\n*.log\n');
+    tmp.write('.doc-organizerignore', 'vendor/\n!generated.md\n');
+    tmp.write('guide.md');
+    tmp.write('generated.md');
+    tmp.write('coverage/report.md');
+    tmp.write('vendor/lib/README.md');
+    tmp.write('packages/app/.gitignore', 'drafts/\n');
+    tmp.write('packages/app/drafts/idea.md');
+    tmp.write('packages/app/drafts/sketch.png');
+    tmp.write('packages/app/setup.md');
+    tmp.write('debug.log');
+  });
+
+  it('should honor .gitignore and .doc-organizerignore at every level', () => {
+    const organizer = new DocumentationOrganizer({ rootDir: tmp.dir });
+    const files = organizer.getAllMdFiles().map(f => f.split(path.sep).join('/'));
+
+    expect(files.sort()).toEqual(['generated.md', 'guide.md', 'packages/app/setup.md']);
+    // Documents inside ignored directories are counted; other files are not
+    expect(organizer.ignoredPaths.map(f => f.split(path.sep).join('/')).sort()).toEqual([
+      'coverage/report.md',
+      'packages/app/drafts/idea.md',
+      'vendor/lib/README.md'
+    ]);
+  });
+
+  it('should scan everything when ignore files are disabled', () => {
+    const organizer = new DocumentationOrganizer({ rootDir: tmp.dir, useIgnoreFiles: false });
+    expect(organizer.getAllMdFiles()).toHaveLength(6);
+    expect(organizer.ignoredPaths).toEqual([]);
+  });
+});
@@ -0,0 +1,67 @@
+import { detectProjectType } from '../project-detector';
+import { DocumentationOrganizer } from '../organizer';
+import { useTempDir } from './temp-dir';
+
+describe('detectProjectType', () => {
+  const tmp = useTempDir('detect');
+
+  it('should fall back to web-app without evidence', () => {
+    const detection = detectProjectType(tmp.dir);
+    expect(detection.projectType).toBe('web-app');
+    expect(detection.confidence).toBe(0);
+    expect(detection.candidates).toEqual([]);
+  });
+
+  it('should read package.json dependencies and publishing fields', () => {
+    tmp.write('package.json', JSON.stringify({ dependencies: { express: '^4', cors: '^2' } }));
+    expect(detectProjectType(tmp.dir)).toMatchObject({
+      projectType: 'api',
+      evidence: ['package.json depends on express']
+    });
+
+    tmp.write('package.json', JSON.stringify({ bin: { tool: 'cli.js' }, exports: './index.js' }));
+    expect(detectProjectType(tmp.dir).projectType).toBe('library');
+
+    tmp.write('package.json', JSON.stringify({ dependencies: { react: '^18', 'react-native': '^0.74' } }));
+    const detection = detectProjectType(tmp.dir);
+    expect(detection.projectType).toBe('mobile');
+    expect(detection.candidates.map(c => c.projectType)).toEqual(['mobile', 'web-app']);
+    expect(detection.confidence).toBeLessThan(detection.candidates[0].score);
+  });
+
+  it('should recognize Python data science projects and notebooks', () => {
+    tmp.write('pyproject.toml', '[project]\nname = "study"\ndependencies = [\n  "pandas>=2",\n  "scikit-learn",\n]\n');
+    tmp.write('notebooks/eda.ipynb', '{}');
+
+    const detection = detectProjectType(tmp.dir);
+    expect(detection.projectType).toBe('data-science');
+    expect(detection.evidence).toEqual([
+      'pyproject.toml requires pandas, scikit-learn',
+      'Jupyter notebook: notebooks/eda.ipynb'
+    ]);
+  });
+
+  it('should recognize OpenAPI documents and mobile build files', () => {
+    tmp.write('api/openapi.yaml', 'openapi: 3.0.0\n');
+    expect(detectProjectType(tmp.dir).projectType).toBe('api');
+
+    tmp.write('ios/Podfile');
+    tmp.write('android/app/build.gradle', "plugins { id 'com.android.application' }\n");
+    const detection = detectProjectType(tmp.dir);
+    expect(detection.projectType).toBe('mobile');
+    expect(detection.evidence).toContain('android/app/build.gradle applies the Android plugin');
+  });
+
+  it('should skip dependency directories', () => {
+    tmp.write('node_modules/pkg/openapi.json', '{}');
+    expect(detectProjectType(tmp.dir).candidates).toEqual([]);
+  });
+
+  it('should resolve projectType "auto" in the organizer', () => {
+    tmp.write('requirements.txt', 'fastapi==0.110\nuvicorn\n');
+    const organizer = new DocumentationOrganizer({ rootDir: tmp.dir, projectType: 'auto' });
+
+    expect(organizer.config.projectType).toBe('api');
+    expect(organizer.projectDetection?.evidence).toEqual(['requirements.txt requires fastapi']);
+  });
+});
@@ -0,0 +1,94 @@
+import { calibrateConfidence, describeSignals, scoreCategories, ScoringOptions } from '../scoring';
+
+describe('scoring', () => {
+  const options: ScoringOptions = {
+    patterns: { setup: /^(setup|install)/i, guides: /^(.*guide|tutorial)/i },
+    destinations: { setup: 'ai_docs/setup/', guides: './' },
+    keywords: { setup: ['install', 'configur'], guides: ['step'] },
+    weights: {
+      filename: 0.9,
+      headings: 0.5,
+      keywords: 0.5,
+      directory: 0.3,
+      frontMatter: 0.6,
+      outline: 0.6
+    }
+  };
+
+  const input = {
+    fileName: 'notes',
+    currentDir: '.',
+    headings: [],
+    body: '',
+    frontMatter: {},
+    outlineCategories: []
+  };
+
+  describe('scoreCategories', () => {
+    it('should combine signals with a noisy-OR', () => {
+      const [best] = scoreCategories(
+        { ...input, fileName: 'setup', headings: ['Installation'] },
+        options
+      );
+      expect(best.category).toBe('setup');
+      expect(best.signals).toEqual({ filename: 1, headings: 1 });
+      expect(best.score).toBeCloseTo(1 - 0.1 * 0.5);
+    });
+
+    it('should scale keyword strength with density', () => {
+      const body = 'Install the CLI, then configure it. ' + 'Other words here. '.repeat(30);
+      const [best] = scoreCategories({ ...input, body }, options);
+      expect(best.category).toBe('setup');
+      expect(best.signals.keywords).toBeGreaterThan(0);
+      expect(best.signals.keywords).toBeLessThan(1);
+    });
+
+    it('should read category, type and tags from front matter', () => {
+      const [best] = scoreCategories({ ...input, frontMatter: { tags: ['draft', 'Guides'] } }, options);
+      expect(best).toMatchObject({ category: 'guides', signals: { frontMatter: 1 } });
+    });
+
+    it('should count categories matched by outline rules', () => {
+      const [best] = scoreCategories(
+        { ...input, currentDir: 'docs', outlineCategories: ['guides'] },
+        options
+      );
+      expect(best).toMatchObject({ category: 'guides', signals: { outline: 1 } });
+      expect(best.score).toBeCloseTo(0.6);
+    });
+
+    it('should not count the directory signal on its own', () => {
+      expect(scoreCategories({ ...input, currentDir: 'ai_docs/setup' }, options)).toEqual([]);
+
+      const [best] = scoreCategories(
+        { ...input, fileName: 'install', currentDir: 'ai_docs/setup' },
+        options
+      );
+      expect(best.signals.directory).toBe(1);
+    });
+  });
+
+  describe('calibrateConfidence', () => {
+    it('should keep the score of an unchallenged winner', () => {
+      expect(calibrateConfidence([{ category: 'setup', score: 0.9, signals: {} }], 0.5)).toBe(0.9);
+      expect(calibrateConfidence([], 0.5)).toBe(0);
+    });
+
+    it('should penalize a close runner-up', () => {
+      const candidates = [
+        { category: 'setup' as const, score: 0.9, signals: {} },
+        { category: 'guides' as const, score: 0.9, signals: {} }
+      ];
+      expect(calibrateConfidence(candidates, 0.5)).toBeCloseTo(0.6);
+      expect(calibrateConfidence(candidates, 0)).toBeCloseTo(0.9);
+    });
+  });
+
+  describe('describeSignals', () => {
+    it('should list reasons strongest first', () => {
+      expect(
+        describeSignals({ category: 'setup', score: 1, signals: { keywords: 0.4, filename: 1 } })
+      ).toEqual(['filename match', 'keyword match']);
+    });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Temporary project directory shared by tests that work on real files
+ *
+ * Not a test suite itself: jest only runs files ending in .test.ts.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// A fresh directory per test, removed after it
+export interface TempDir {
+  dir: string;
+  write(file: string, content?: string): void; // Creates parent directories
+}
+
+/**
+ * Create a temporary directory before each test in the enclosing describe
+ * block and remove it after
+ */
+export function useTempDir(name: string): TempDir {
+  const tmp: TempDir = {
+    dir: '',
+    write(file: string, content: string = '') {
+      const fullPath = path.join(tmp.dir, file);
+      fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+      fs.writeFileSync(fullPath, content);
+    }
+  };
+
+  beforeEach(() => {
+    tmp.dir = fs.mkdtempSync(path.join(os.tmpdir(), `doc-organizer-${name}-`));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmp.dir, { recursive: true, force: true });
+  });
+
+  return tmp;
+}
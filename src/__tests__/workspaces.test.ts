@@ -0,0 +1,84 @@
+import * as path from 'path';
+import { analyzeWorkspaces, discoverWorkspaces, workspaceConfig } from '../workspaces';
+import { useTempDir } from './temp-dir';
+
+describe('workspaces', () => {
+  const tmp = useTempDir('workspaces');
+
+  beforeEach(() => {
+    tmp.write('package.json', JSON.stringify({ name: 'mono', workspaces: ['packages/*', '!packages/skip'] }));
+    tmp.write('packages/web/package.json', JSON.stringify({ name: '@mono/web', dependencies: { react: '^18' } }));
+    tmp.write('packages/lib/package.json', JSON.stringify({ name: '@mono/lib', exports: './index.js' }));
+    tmp.write('packages/skip/package.json', JSON.stringify({ name: '@mono/skip' }));
+  });
+
+  it('should discover npm, pnpm and config-file workspaces', () => {
+    tmp.write('pnpm-workspace.yaml', "packages:\n  - 'apps/*'\n");
+    tmp.write('apps/site/package.json', JSON.stringify({ name: 'site' }));
+    tmp.write('tools/docs/.doc-organizer.json', '{ "structure": { "aiDocs": "notes" } }');
+    tmp.write('node_modules/dep/package.json', '{}');
+
+    const workspaces = discoverWorkspaces(tmp.dir);
+    expect(workspaces.map(({ name, dir, source }) => ({ name, dir, source }))).toEqual([
+      { name: 'site', dir: 'apps/site', source: 'pnpm' },
+      { name: '@mono/lib', dir: 'packages/lib', source: 'workspaces' },
+      { name: '@mono/web', dir: 'packages/web', source: 'workspaces' },
+      { name: 'tools/docs', dir: 'tools/docs', source: 'config' }
+    ]);
+    expect(workspaces[3].configFile).toBe(path.join(tmp.dir, 'tools/docs/.doc-organizer.json'));
+  });
+
+  it('should layer package configs on the root config and exclude nested packages', () => {
+    tmp.write('packages/lib/.doc-organizer.json', '{ "structure": { "aiDocs": "docs" } }');
+    const workspaces = discoverWorkspaces(tmp.dir);
+    const lib = workspaces.find(w => w.dir === 'packages/lib')!;
+    const rootConfig = { thresholds: { autoApply: 0.9 }, structure: { specs: 'rfcs' } };
+
+    const config = workspaceConfig(tmp.dir, rootConfig, lib, workspaces);
+    expect(config.rootDir).toBe(path.join(tmp.dir, 'packages/lib'));
+    expect(config.structure).toEqual({ specs: 'rfcs', aiDocs: 'docs' });
+    expect(config.thresholds).toEqual({ autoApply: 0.9 });
+    expect(config.projectType).toBe('auto');
+    expect(workspaceConfig(tmp.dir, { projectType: 'api' }, lib, workspaces).projectType).toBe('auto');
+
+    tmp.write('packages/lib/.doc-organizer.json', '{ "projectType": "mobile" }');
+    expect(workspaceConfig(tmp.dir, { projectType: 'api' }, lib, workspaces).projectType).toBe('mobile');
+
+    const root = { name: 'mono', dir: '.', source: 'root' as const, configFile: null };
+    expect(workspaceConfig(tmp.dir, rootConfig, root, workspaces).excludePatterns).toEqual(
+      expect.arrayContaining(['node_modules', '/packages/web/', '/packages/lib/'])
+    );
+  });
+
+  it('should analyze each package with its own project type and roll up the totals', async () => {
+    tmp.write('setup.md', '# Setup\n');
+    tmp.write('packages/web/deploy-notes.md', '# Deploy\n');
+    tmp.write('packages/lib/install.md', '# Install\n');
+    tmp.write('packages/lib/docs/setup/quickstart.md', '# Quickstart\n');
+
+    const { workspaces, totals } = await analyzeWorkspaces(tmp.dir, { structure: { aiDocs: 'docs' } });
+
+    const summary = workspaces.map(({ workspace, organizer, stats }) => ({
+      dir: workspace.dir,
+      projectType: organizer.config.projectType,
+      files: stats.files,
+      moves: organizer.suggestions.map(s => `${s.current} -> ${s.suggested}`)
+    }));
+    expect(summary).toEqual([
+      { dir: '.', projectType: 'web-app', files: 1, moves: ['setup.md -> docs/setup/setup.md'] },
+      {
+        dir: 'packages/lib',
+        projectType: 'library',
+        files: 2,
+        moves: ['install.md -> docs/setup/install.md']
+      },
+      {
+        dir: 'packages/web',
+        projectType: 'web-app',
+        files: 1,
+        moves: ['deploy-notes.md -> docs/maintenance/deploy-notes.md']
+      }
+    ]);
+    expect(totals).toEqual({ files: 4, misplaced: 3, ignored: 0, suppressed: 0 });
+  });
+});
@@ -10,9 +10,11 @@ import Anthropic from '@anthropic-ai/sdk';
 import {
   AIClassificationResult,
   AIClassificationRequest,
+  CategoryDefinition,
   DocumentCategory,
   AIConfig
 } from './types';
+import { BUILT_IN_CATEGORIES, DEFAULT_CATEGORIES, UNKNOWN_CATEGORY } from './categories';
 
 // Default AI configuration
 const DEFAULT_AI_CONFIG: AIConfig = {
@@ -22,59 +24,83 @@ const DEFAULT_AI_CONFIG: AIConfig = {
   maxTokens: 500
 };
 
-// JSON schema for structured output
-const CLASSIFICATION_SCHEMA = {
-  name: 'document_classification',
-  description: 'Classification result for a documentation file',
-  strict: true,
-  schema: {
-    type: 'object' as const,
-    properties: {
-      category: {
-        type: 'string',
-        enum: [
-          'aiInstructions',
-          'architecture',
-          'features',
-          'maintenance',
-          'setup',
-          'guides',
-          'audits',
-          'specs',
-          'api',
-          'testing',
-          'unknown'
-        ],
-        description: 'The most appropriate category for this document'
-      },
-      confidence: {
-        type: 'number',
-        minimum: 0,
-        maximum: 1,
-        description: 'Confidence score between 0 and 1'
-      },
-      reason: {
-        type: 'string',
-        description: 'Brief explanation of why this category was chosen'
-      },
-      alternativeCategories: {
-        type: 'array',
-        items: {
-          type: 'object' as const,
-          properties: {
-            category: { type: 'string' },
-            confidence: { type: 'number' }
-          },
-          required: ['category', 'confidence'],
-          additionalProperties: false
+/**
+ * Tool schema for structured output, limited to the given categories
+ */
+export function buildClassificationTool(categories: CategoryDefinition[]) {
+  return {
+    name: 'document_classification',
+    description: 'Classification result for a documentation file',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        category: {
+          type: 'string',
+          enum: [...categories.map(category => category.name), UNKNOWN_CATEGORY],
+          description: 'The most appropriate category for this document'
         },
-        description: 'Other possible categories with lower confidence'
-      }
-    },
-    required: ['category', 'confidence', 'reason'],
-    additionalProperties: false
-  }
-};
+        confidence: {
+          type: 'number',
+          minimum: 0,
+          maximum: 1,
+          description: 'Confidence score between 0 and 1'
+        },
+        reason: {
+          type: 'string',
+          description: 'Brief explanation of why this category was chosen'
+        },
+        alternativeCategories: {
+          type: 'array',
+          items: {
+            type: 'object' as const,
+            properties: {
+              category: { type: 'string' },
+              confidence: { type: 'number' }
+            },
+            required: ['category', 'confidence'],
+            additionalProperties: false
+          },
+          description: 'Other possible categories with lower confidence'
+        }
+      },
+      required: ['category', 'confidence', 'reason'],
+      additionalProperties: false
+    }
+  };
+}
+
+/**
+ * System prompt describing the given categories
+ */
+export function buildSystemPrompt(categories: CategoryDefinition[]): string {
+  const lines = categories.map(category => {
+    const description = category.description ?? 'No description';
+    const examples = category.examples?.length ? ` (e.g. ${category.examples.join(', ')})` : '';
+    return `- ${category.name}: ${description}${examples}`;
+  });
+
+  return `You are a documentation classification expert. Your task is to categorize documentation files into the most appropriate category based on their filename and content.
+
+Categories and their purposes:
+${lines.join('\n')}
+- ${UNKNOWN_CATEGORY}: Use only when the document doesn't fit any category
+
+Guidelines:
+1. Prioritize filename patterns over content
+2. Consider the primary purpose of the document
+3. A high confidence (>0.8) means you're very certain
+4. Return alternative categories if the document could fit multiple
+5. Be concise in your reasoning`;
+}
+
+/**
+ * Definitions for a list of category names, using built-in descriptions where known
+ */
+function categoriesFor(names: DocumentCategory[]): CategoryDefinition[] {
+  return names
+    .filter(name => name !== UNKNOWN_CATEGORY)
+    .map(name => BUILT_IN_CATEGORIES.find(category => category.name === name) ?? { name });
+}
 
 export class AIClassifier {
   private client: Anthropic | null = null;
@@ -123,27 +149,10 @@ export class AIClassifier {
       return null;
     }
 
-    const systemPrompt = `You are a documentation classification expert. Your task is to categorize documentation files into the most appropriate category based on their filename and content.
-
-Categories and their purposes:
-- aiInstructions: AI assistant instructions (CLAUDE.md, CURSOR.md, development guidelines)
-- architecture: System design, API specifications, tech stack documentation
-- features: Feature specifications, PRDs, user stories, functionality docs
-- maintenance: Refactoring guides, troubleshooting, deployment, operations
-- setup: Getting started guides, installation, configuration, onboarding
-- guides: Tutorials, how-to guides, walkthroughs, demos
-- audits: Audit reports, analysis documents, reviews
-- specs: Technical specifications, requirements, RFCs
-- api: API documentation, endpoint specs, OpenAPI/Swagger docs
-- testing: Test documentation, QA guides, testing strategies
-- unknown: Use only when the document doesn't fit any category
-
-Guidelines:
-1. Prioritize filename patterns over content
-2. Consider the primary purpose of the document
-3. A high confidence (>0.8) means you're very certain
-4. Return alternative categories if the document could fit multiple
-5. Be concise in your reasoning`;
+    const categories = request.categories ?? categoriesFor(request.availableCategories);
+    const tool = buildClassificationTool(categories);
+    const known = new Set(tool.input_schema.properties.category.enum);
+    const systemPrompt = buildSystemPrompt(categories);
 
     const userPrompt = `Classify this documentation file:
 
@@ -170,12 +179,8 @@ Provide your classification with confidence score and reasoning.`;
           { role: 'user', content: userPrompt }
         ],
         system: systemPrompt,
-        tools: [{
-          name: CLASSIFICATION_SCHEMA.name,
-          description: CLASSIFICATION_SCHEMA.description,
-          input_schema: CLASSIFICATION_SCHEMA.schema
-        }],
-        tool_choice: { type: 'tool', name: CLASSIFICATION_SCHEMA.name }
+        tools: [tool],
+        tool_choice: { type: 'tool', name: tool.name }
       });
 
       // Extract tool use response
@@ -183,13 +188,13 @@ Provide your classification with confidence score and reasoning.`;
       if (toolUse && toolUse.type === 'tool_use') {
         const input = toolUse.input as AIClassificationResult;
         return {
-          category: input.category as DocumentCategory,
+          // Anything outside the offered categories cannot be placed
+          category: known.has(input.category) ? input.category : UNKNOWN_CATEGORY,
           confidence: input.confidence,
           reason: input.reason,
-          alternativeCategories: input.alternativeCategories?.map(alt => ({
-            category: alt.category as DocumentCategory,
-            confidence: alt.confidence
-          }))
+          alternativeCategories: input.alternativeCategories
+            ?.filter(alt => known.has(alt.category))
+            .map(alt => ({ category: alt.category, confidence: alt.confidence }))
         };
       }
 
@@ -281,19 +286,7 @@ export async function classifyWithAI(
     filePath,
     fileName,
     contentPreview,
-    availableCategories: [
-      'aiInstructions',
-      'architecture',
-      'features',
-      'maintenance',
-      'setup',
-      'guides',
-      'audits',
-      'specs',
-      'api',
-      'testing',
-      'unknown'
-    ],
+    availableCategories: [...DEFAULT_CATEGORIES.map(category => category.name), UNKNOWN_CATEGORY],
     existingAnalysis
   });
 }
@@ -0,0 +1,120 @@
+/**
+ * Document categories
+ *
+ * Built-in category descriptions and user-defined categories from config.
+ * A category definition carries everything the organizer needs: patterns
+ * for filename and heading matching, a destination, keywords for scoring,
+ * and a description and example file names for the AI prompt and reports.
+ */
+
+import { CategoryDefinition } from './types';
+
+// Categories in the default configuration
+export const DEFAULT_CATEGORIES: CategoryDefinition[] = [
+  {
+    name: 'aiInstructions',
+    description: 'AI assistant instructions (CLAUDE.md, CURSOR.md, development guidelines)'
+  },
+  {
+    name: 'architecture',
+    description: 'System design, API specifications, tech stack documentation'
+  },
+  {
+    name: 'features',
+    description: 'Feature specifications, PRDs, user stories, functionality docs'
+  },
+  {
+    name: 'maintenance',
+    description: 'Refactoring guides, troubleshooting, deployment, operations'
+  },
+  {
+    name: 'setup',
+    description: 'Getting started guides, installation, configuration, onboarding'
+  },
+  { name: 'guides', description: 'Tutorials, how-to guides, walkthroughs, demos' },
+  { name: 'audits', description: 'Audit reports, analysis documents, reviews' },
+  { name: 'specs', description: 'Technical specifications, requirements, RFCs' },
+  { name: 'api', description: 'API documentation, endpoint specs, OpenAPI/Swagger docs' },
+  { name: 'testing', description: 'Test documentation, QA guides, testing strategies' }
+];
+
+// Categories added by adjustForProjectType
+export const PROJECT_TYPE_CATEGORIES: CategoryDefinition[] = [
+  { name: 'analysis', description: 'Data analyses, models, datasets and experiments' },
+  { name: 'deployment', description: 'Release, store submission and build documentation' },
+  { name: 'endpoints', description: 'Endpoint, route and schema references' }
+];
+
+// Every category the organizer describes without configuration
+export const BUILT_IN_CATEGORIES = [...DEFAULT_CATEGORIES, ...PROJECT_TYPE_CATEGORIES];
+
+// Category for documents that fit nothing else
+export const UNKNOWN_CATEGORY = 'unknown';
+
+/**
+ * Check a category definition, returning a description of the problem or null if valid
+ */
+export function validateCategory(category: CategoryDefinition): string | null {
+  if (!category || typeof category.name !== 'string' || !/^[A-Za-z][\w-]*$/.test(category.name)) {
+    return 'name must start with a letter and contain only letters, digits, - and _';
+  }
+  if (category.name === UNKNOWN_CATEGORY) {
+    return `"${UNKNOWN_CATEGORY}" is reserved`;
+  }
+  for (const source of category.patterns ?? []) {
+    try {
+      new RegExp(source, 'i');
+    } catch (error) {
+      return error instanceof Error ? error.message : `invalid regex ${source}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Combine a category's patterns into one case-insensitive regex
+ *
+ * A category without patterns gets a regex that never matches.
+ */
+export function compileCategoryPatterns(patterns: string[]): RegExp {
+  // Without patterns the category is only chosen by keywords, front matter or a model
+  if (patterns.length === 0) return /(?!)/;
+  return new RegExp(patterns.map(source => `(?:${source})`).join('|'), 'i');
+}
+
+/**
+ * Merge category definitions by name, later fields taking precedence
+ */
+export function mergeCategories(
+  base: CategoryDefinition[],
+  overrides: CategoryDefinition[]
+): CategoryDefinition[] {
+  const merged = new Map(base.map(category => [category.name, { ...category }]));
+  for (const category of overrides) {
+    merged.set(category.name, { ...merged.get(category.name), ...category });
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Describe the categories that have patterns, in pattern order
+ *
+ * Categories only known from `patterns` (e.g. added by a preset) are
+ * described by their pattern, so the AI can still choose them.
+ */
+export function describeCategories(
+  definitions: CategoryDefinition[],
+  patterns: Record<string, RegExp>,
+  destinations: Record<string, string>
+): CategoryDefinition[] {
+  const byName = new Map(definitions.map(category => [category.name, category]));
+  return Object.entries(patterns).map(([name, pattern]) => {
+    const definition = byName.get(name);
+    return {
+      ...definition,
+      name,
+      description: definition?.description ?? `Documents whose names match ${pattern}`,
+      destination: destinations[name] ?? definition?.destination
+    };
+  });
+}
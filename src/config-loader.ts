@@ -0,0 +1,272 @@
+/**
+ * Config file loading
+ *
+ * Finds the project's config file (JSON, YAML, package.json, JavaScript or
+ * TypeScript), validates it against the schema and expands `extends` into
+ * layers: built-in presets or other config files, merged in order with the
+ * extending config last.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { parse as parseYaml } from 'yaml';
+import { UserConfig } from './organizer';
+import { assertValidConfig, ConfigLayer, ConfigValidationError, suggestKey } from './config-schema';
+import { PRESET_PREFIX, PRESETS } from './presets';
+
+// Config files looked for in the project root, in order
+export const CONFIG_FILES = [
+  '.doc-organizer.json',
+  '.doc-organizer.yaml',
+  '.doc-organizer.yml',
+  'package.json',
+  '.doc-organizer.js',
+  'doc-organizer.config.mjs',
+  'doc-organizer.config.ts'
+];
+
+// A user config and the file it was read from
+export interface LoadedConfiguration {
+  config: UserConfig; // `extends` paths are resolved to absolute paths
+  file: string;
+}
+
+/**
+ * Append the line and column to a JSON syntax error that gives a position
+ */
+function describeJsonError(message: string, text: string): string {
+  const match = message.match(/at position (\d+)/);
+  if (!match) return message;
+  const before = text.slice(0, Number(match[1])).split('\n');
+  return `${message} (line ${before.length}, column ${before[before.length - 1].length + 1})`;
+}
+
+/**
+ * Evaluate an ES module or TypeScript config by compiling it to CommonJS
+ *
+ * Uses the project's own "typescript" package, so config loading stays
+ * synchronous and nothing is added to doc-organizer's dependencies.
+ */
+function loadCompiledModule(file: string): unknown {
+  let ts: typeof import('typescript');
+  try {
+    ts = require(require.resolve('typescript', { paths: [path.dirname(file), __dirname] }));
+  } catch {
+    throw new Error(
+      `loading ${path.basename(file)} requires the "typescript" package; install it or use a JSON, YAML or .js config`
+    );
+  }
+
+  // A .mjs or .mts file name would make TypeScript keep the ES module syntax
+  const { outputText } = ts.transpileModule(fs.readFileSync(file, 'utf8'), {
+    fileName: file.replace(/\.m[jt]s$/, '.ts'),
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      esModuleInterop: true
+    }
+  });
+
+  const compiled: { exports: Record<string, unknown> } = { exports: {} };
+  new Function('exports', 'require', 'module', '__filename', '__dirname', outputText)(
+    compiled.exports,
+    createRequire(file),
+    compiled,
+    file,
+    path.dirname(file)
+  );
+  return compiled.exports.__esModule && 'default' in compiled.exports
+    ? compiled.exports.default
+    : compiled.exports;
+}
+
+/**
+ * Parse a config file by its format, without validating it
+ *
+ * Returns undefined for a package.json without a "docOrganizer" key.
+ */
+function parseConfigFile(file: string): unknown {
+  const extension = path.extname(file).toLowerCase();
+
+  if (extension === '.js' || extension === '.cjs') {
+    const resolved = require.resolve(path.resolve(file));
+    delete require.cache[resolved];
+    return require(resolved);
+  }
+  if (extension === '.mjs' || extension === '.ts' || extension === '.mts') {
+    return loadCompiledModule(path.resolve(file));
+  }
+
+  const text = fs.readFileSync(file, 'utf8');
+  if (extension === '.yaml' || extension === '.yml') {
+    return parseYaml(text) ?? {};
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(describeJsonError(message, text));
+  }
+  return path.basename(file) === 'package.json'
+    ? (data as { docOrganizer?: unknown }).docOrganizer
+    : data;
+}
+
+/**
+ * Read and validate one config file
+ *
+ * Relative `extends` paths are resolved against the file's directory.
+ * Returns null for a package.json without a "docOrganizer" key. Throws a
+ * ConfigValidationError when the file cannot be parsed or is invalid.
+ */
+export function readConfigFile(file: string): UserConfig | null {
+  let config: unknown;
+  try {
+    config = parseConfigFile(file);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new ConfigValidationError([{ file, path: '', message }]);
+  }
+  if (config === undefined) return null;
+
+  assertValidConfig(config, file, path.basename(file) === 'package.json' ? 'docOrganizer' : '');
+
+  const userConfig = config as UserConfig;
+  if (userConfig.extends === undefined) return userConfig;
+
+  const base = path.dirname(path.resolve(file));
+  const extendsList = ([] as string[]).concat(userConfig.extends);
+  return {
+    ...userConfig,
+    extends: extendsList.map(entry =>
+      entry.startsWith(PRESET_PREFIX) ? entry : path.resolve(base, entry)
+    )
+  };
+}
+
+/**
+ * Find and read the config file in the given root directory
+ *
+ * An explicit `configFile` (relative to the working directory) must exist.
+ * Returns null when no config file is found.
+ */
+export function findConfiguration(
+  rootDir: string = '.',
+  configFile?: string
+): LoadedConfiguration | null {
+  if (configFile !== undefined) {
+    if (!fs.existsSync(configFile)) {
+      throw new ConfigValidationError([{ file: configFile, path: '', message: 'file not found' }]);
+    }
+    return { config: readConfigFile(configFile) ?? {}, file: configFile };
+  }
+
+  for (const name of CONFIG_FILES) {
+    const file = path.join(rootDir, name);
+    if (!fs.existsSync(file)) continue;
+
+    const config = readConfigFile(file);
+    if (config) return { config, file };
+  }
+
+  return null;
+}
+
+/**
+ * Expand a config's `extends` into layers, lowest precedence first
+ *
+ * Each layer is a preset or a config file, followed by the config itself
+ * (without `extends`). Relative paths are resolved against `baseDir`.
+ */
+export function resolveConfigLayers(
+  config: UserConfig,
+  source: string,
+  baseDir: string = '.',
+  chain: string[] = []
+): ConfigLayer[] {
+  const { extends: extendsValue, ...own } = config;
+  const layers: ConfigLayer[] = [];
+
+  for (const entry of extendsValue === undefined ? [] : ([] as string[]).concat(extendsValue)) {
+    if (entry.startsWith(PRESET_PREFIX)) {
+      const name = entry.slice(PRESET_PREFIX.length);
+      const preset = PRESETS[name];
+      if (!preset) {
+        const suggestion = suggestKey(name, Object.keys(PRESETS));
+        const hint = suggestion
+          ? `did you mean "${PRESET_PREFIX}${suggestion}"?`
+          : `available presets: ${Object.keys(PRESETS).join(', ')}`;
+        throw new ConfigValidationError([
+          { file: source, path: 'extends', message: `unknown preset "${name}" (${hint})` }
+        ]);
+      }
+      layers.push({ source: entry, config: preset });
+      continue;
+    }
+
+    const file = path.resolve(baseDir, entry);
+    if (chain.includes(file)) {
+      throw new ConfigValidationError([
+        {
+          file: source,
+          path: 'extends',
+          message: `circular extends: ${[...chain, file].map(f => path.relative('.', f)).join(' -> ')}`
+        }
+      ]);
+    }
+    if (!fs.existsSync(file)) {
+      throw new ConfigValidationError([
+        { file: source, path: 'extends', message: `cannot find "${entry}"` }
+      ]);
+    }
+    const extended = readConfigFile(file) ?? {};
+    layers.push(...resolveConfigLayers(extended, file, path.dirname(file), [...chain, file]));
+  }
+
+  layers.push({ source, config: own });
+  return layers;
+}
+
+/**
+ * Merge config layers, later layers taking precedence
+ *
+ * Sections are merged key by key, protectedFiles, outlineRules,
+ * categories and namingRules are appended, and every other value is replaced.
+ */
+export function mergeUserConfigs(layers: UserConfig[]): UserConfig {
+  return layers.reduce<UserConfig>((merged, layer) => {
+    const result: UserConfig = { ...merged, ...layer };
+    for (const key of [
+      'structure',
+      'patterns',
+      'destinations',
+      'keywords',
+      'thresholds',
+      'ai',
+      'localModel',
+      'decisions',
+      'collisions',
+      'indexes'
+    ] as const) {
+      if (merged[key] && layer[key]) {
+        (result as Record<string, unknown>)[key] = { ...merged[key], ...layer[key] };
+      }
+    }
+    if (merged.scoring && layer.scoring) {
+      result.scoring = {
+        ...merged.scoring,
+        ...layer.scoring,
+        weights: { ...merged.scoring.weights, ...layer.scoring.weights }
+      };
+    }
+    for (const key of ['protectedFiles', 'outlineRules', 'categories', 'namingRules'] as const) {
+      if (merged[key] && layer[key]) {
+        (result as Record<string, unknown>)[key] = [...merged[key]!, ...layer[key]!];
+      }
+    }
+    return result;
+  }, {});
+}
@@ -0,0 +1,505 @@
+/**
+ * Configuration schema
+ *
+ * Describes every key a user config may contain so that typos, wrong types
+ * and invalid patterns are reported with the file, the key path and what
+ * was expected, instead of silently falling back to defaults. Also explains
+ * where each value of an effective config came from.
+ */
+
+import { DocOrganizerConfig } from './types';
+import { validatePathPattern } from './path-patterns';
+
+// Allowed values shared with the type definitions
+export const PROJECT_TYPES = ['web-app', 'library', 'api', 'data-science', 'mobile'] as const;
+const AI_MODELS = [
+  'claude-sonnet-4-20250514',
+  'claude-3-5-sonnet-20241022',
+  'claude-3-haiku-20240307'
+] as const;
+const COLLISION_STRATEGIES = ['skip', 'suffix', 'fail'] as const;
+const NAMING_SEVERITIES = ['error', 'warning', 'info', 'off'] as const;
+const CASE_STYLES = ['kebab-case', 'snake_case', 'camelCase', 'PascalCase'] as const;
+
+// One node of the schema
+type Schema =
+  | { type: 'string'; check?: (value: string) => string | null }
+  | { type: 'number'; min?: number; max?: number; integer?: boolean }
+  | { type: 'boolean' }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'regex' } // A regex source string, or a RegExp in .js configs
+  | { type: 'glob' } // A gitignore-style path pattern
+  | { type: 'array'; items: Schema }
+  | { type: 'record'; values: Schema } // Object with arbitrary keys
+  | { type: 'object'; fields: Record<string, Schema>; required?: string[] }
+  | { type: 'oneOf'; options: Schema[] };
+
+// A problem found in a config file
+export interface ConfigIssue {
+  file: string;
+  path: string; // Dotted key path, e.g. thresholds.autoApply; empty for the whole file
+  message: string;
+}
+
+// Where one value of the effective config came from
+export interface ConfigValueSource {
+  path: string;
+  value: unknown;
+  source: string; // "default", "derived", a preset or config file, or "default + ..." for appended lists
+}
+
+// A partial config and the file it was read from
+export interface ConfigLayer {
+  source: string;
+  config: object;
+}
+
+const string: Schema = { type: 'string' };
+const boolean: Schema = { type: 'boolean' };
+const ratio: Schema = { type: 'number', min: 0, max: 1 };
+const count: Schema = { type: 'number', min: 1, integer: true };
+const strings: Schema = { type: 'array', items: string };
+const regexes: Schema = { type: 'array', items: { type: 'regex' } };
+
+// Schema for UserConfig
+export const USER_CONFIG_SCHEMA: Schema = {
+  type: 'object',
+  fields: {
+    extends: { type: 'oneOf', options: [string, strings] },
+    projectType: { type: 'enum', values: [...PROJECT_TYPES, 'auto'] },
+    rootDir: string,
+    useIgnoreFiles: boolean,
+    useAI: boolean,
+    workspaces: boolean,
+    extensions: {
+      type: 'array',
+      items: {
+        type: 'string',
+        check: value =>
+          /^\.?[a-z0-9][a-z0-9.-]*$/i.test(value.trim())
+            ? null
+            : `expected a file extension like .md, got ${JSON.stringify(value)}`
+      }
+    },
+    structure: {
+      type: 'object',
+      fields: { aiDocs: string, specs: string, root: string }
+    },
+    patterns: { type: 'record', values: { type: 'regex' } },
+    destinations: { type: 'record', values: string },
+    categories: {
+      type: 'array',
+      items: {
+        type: 'object',
+        fields: {
+          name: string,
+          description: string,
+          patterns: regexes,
+          destination: string,
+          keywords: strings,
+          examples: strings
+        },
+        required: ['name']
+      }
+    },
+    keywords: { type: 'record', values: strings },
+    protectedFiles: { type: 'array', items: { type: 'glob' } },
+    excludePatterns: { type: 'array', items: { type: 'glob' } },
+    thresholds: {
+      type: 'object',
+      fields: {
+        autoApply: ratio,
+        suggest: ratio,
+        filename: ratio,
+        content: ratio,
+        aiConfidence: ratio,
+        duplicate: ratio
+      }
+    },
+    outlineRules: {
+      type: 'array',
+      items: {
+        type: 'object',
+        fields: {
+          category: string,
+          headings: regexes,
+          fenceLanguages: strings,
+          tables: boolean,
+          links: regexes
+        },
+        required: ['category']
+      }
+    },
+    namingRules: {
+      type: 'array',
+      items: {
+        type: 'object',
+        fields: {
+          name: string,
+          severity: { type: 'enum', values: NAMING_SEVERITIES },
+          message: string,
+          directories: { type: 'array', items: { type: 'glob' } },
+          categories: strings,
+          case: { type: 'enum', values: CASE_STYLES },
+          prefix: strings,
+          suffix: strings,
+          maxLength: count,
+          forbiddenWords: strings,
+          forbiddenNames: strings,
+          datePrefix: {
+            type: 'string',
+            check: value =>
+              /^(YYYY|MM|DD|N+|[-_.])+$/.test(value)
+                ? null
+                : `expected a format of YYYY, MM, DD, N... and - _ . like YYYY-MM-DD, got ${JSON.stringify(value)}`
+          },
+          noSpaces: boolean,
+          noUppercase: boolean
+        },
+        required: ['name']
+      }
+    },
+    scoring: {
+      type: 'object',
+      fields: {
+        weights: {
+          type: 'object',
+          fields: {
+            filename: ratio,
+            headings: ratio,
+            keywords: ratio,
+            directory: ratio,
+            frontMatter: ratio,
+            outline: ratio
+          }
+        },
+        ambiguityPenalty: { type: 'number', min: 0 }
+      }
+    },
+    ai: {
+      type: 'object',
+      fields: {
+        enabled: boolean,
+        model: { type: 'enum', values: AI_MODELS },
+        fallbackThreshold: ratio,
+        maxTokens: count
+      }
+    },
+    localModel: {
+      type: 'object',
+      fields: { enabled: boolean, minDocuments: count }
+    },
+    decisions: {
+      type: 'object',
+      fields: { enabled: boolean, contradictionThreshold: count }
+    },
+    collisions: {
+      type: 'object',
+      fields: { strategy: { type: 'enum', values: COLLISION_STRATEGIES } }
+    },
+    indexes: {
+      type: 'object',
+      fields: { fileName: { type: 'enum', values: ['README.md', 'index.md'] } }
+    }
+  }
+};
+
+/**
+ * Thrown when a config file cannot be parsed or does not match the schema
+ */
+export class ConfigValidationError extends Error {
+  constructor(public issues: ConfigIssue[]) {
+    super(`Invalid configuration:\n${issues.map(issue => `  ${formatIssue(issue)}`).join('\n')}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+/**
+ * Format an issue as "file: key.path: message"
+ */
+export function formatIssue(issue: ConfigIssue): string {
+  return [issue.file, issue.path, issue.message].filter(part => part !== '').join(': ');
+}
+
+/**
+ * Edit distance between two strings
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * The known key closest to an unknown one, if any is close enough to be a typo
+ */
+export function suggestKey(key: string, known: string[]): string | null {
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  for (const candidate of known) {
+    const distance = levenshtein(key.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best !== null && bestDistance <= Math.max(2, Math.floor(key.length / 3)) ? best : null;
+}
+
+/**
+ * Describe what a schema node expects
+ */
+function describeSchema(schema: Schema): string {
+  switch (schema.type) {
+    case 'string':
+      return 'a string';
+    case 'number': {
+      const kind = schema.integer ? 'an integer' : 'a number';
+      if (schema.min !== undefined && schema.max !== undefined) {
+        return `${kind} between ${schema.min} and ${schema.max}`;
+      }
+      return schema.min !== undefined ? `${kind} of at least ${schema.min}` : kind;
+    }
+    case 'boolean':
+      return 'true or false';
+    case 'enum':
+      return `one of ${schema.values.map(value => JSON.stringify(value)).join(', ')}`;
+    case 'regex':
+      return 'a regular expression string';
+    case 'glob':
+      return 'a gitignore-style pattern string';
+    case 'array':
+      return 'an array';
+    case 'record':
+    case 'object':
+      return 'an object';
+    case 'oneOf':
+      return schema.options.map(describeSchema).join(' or ');
+  }
+}
+
+/**
+ * Describe a value found in a config file
+ */
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'object') return 'an object';
+  return JSON.stringify(value) ?? String(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof RegExp);
+}
+
+/**
+ * Check one value against its schema node, collecting problems
+ */
+function check(value: unknown, schema: Schema, keyPath: string, problems: Array<[string, string]>) {
+  const mismatch = (): void => {
+    problems.push([keyPath, `expected ${describeSchema(schema)}, got ${describeValue(value)}`]);
+  };
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return mismatch();
+      if (schema.check) {
+        const problem = schema.check(value);
+        if (problem) problems.push([keyPath, problem]);
+      }
+      return;
+
+    case 'number':
+      if (
+        typeof value !== 'number' ||
+        Number.isNaN(value) ||
+        (schema.integer && !Number.isInteger(value)) ||
+        (schema.min !== undefined && value < schema.min) ||
+        (schema.max !== undefined && value > schema.max)
+      ) {
+        mismatch();
+      }
+      return;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') mismatch();
+      return;
+
+    case 'enum':
+      if (typeof value !== 'string' || !schema.values.includes(value)) mismatch();
+      return;
+
+    case 'regex':
+      if (value instanceof RegExp) return;
+      if (typeof value !== 'string') return mismatch();
+      try {
+        new RegExp(value, 'i');
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        const reason = message.replace(/^Invalid regular expression: \/.*\/\w*: /, '');
+        problems.push([keyPath, `invalid regex ${JSON.stringify(value)}: ${reason}`]);
+      }
+      return;
+
+    case 'glob': {
+      const problem = validatePathPattern(value);
+      if (problem) problems.push([keyPath, `invalid pattern ${describeValue(value)}: ${problem}`]);
+      return;
+    }
+
+    case 'array':
+      if (!Array.isArray(value)) return mismatch();
+      value.forEach((item, index) => check(item, schema.items, `${keyPath}[${index}]`, problems));
+      return;
+
+    case 'record':
+      if (!isPlainObject(value)) return mismatch();
+      for (const [key, item] of Object.entries(value)) {
+        check(item, schema.values, joinPath(keyPath, key), problems);
+      }
+      return;
+
+    case 'oneOf': {
+      const attempts = schema.options.map(option => {
+        const optionProblems: Array<[string, string]> = [];
+        check(value, option, keyPath, optionProblems);
+        return optionProblems;
+      });
+      if (attempts.some(attempt => attempt.length === 0)) return;
+      // Report the option the value got furthest into, e.g. an array with a bad item
+      const nested = attempts.find(attempt => attempt.some(([itemPath]) => itemPath !== keyPath));
+      if (nested) problems.push(...nested);
+      else mismatch();
+      return;
+    }
+
+    case 'object': {
+      if (!isPlainObject(value)) return mismatch();
+      const known = Object.keys(schema.fields);
+      for (const key of schema.required ?? []) {
+        if (value[key] === undefined) {
+          problems.push([joinPath(keyPath, key), `is required (${describeSchema(schema.fields[key])})`]);
+        }
+      }
+      for (const [key, item] of Object.entries(value)) {
+        const field = schema.fields[key];
+        if (field) {
+          check(item, field, joinPath(keyPath, key), problems);
+          continue;
+        }
+        const suggestion = suggestKey(key, known);
+        problems.push([
+          joinPath(keyPath, key),
+          suggestion ? `unknown key (did you mean "${suggestion}"?)` : 'unknown key'
+        ]);
+      }
+      return;
+    }
+  }
+}
+
+function joinPath(parent: string, key: string): string {
+  return parent === '' ? key : `${parent}.${key}`;
+}
+
+/**
+ * Check a user config against the schema
+ *
+ * `basePath` prefixes key paths, e.g. "docOrganizer" for package.json.
+ */
+export function validateConfig(value: unknown, file: string, basePath: string = ''): ConfigIssue[] {
+  const problems: Array<[string, string]> = [];
+  check(value, USER_CONFIG_SCHEMA, basePath, problems);
+  return problems.map(([path, message]) => ({ file, path, message }));
+}
+
+/**
+ * Check a user config, throwing a ConfigValidationError listing every problem
+ */
+export function assertValidConfig(value: unknown, file: string, basePath: string = ''): void {
+  const issues = validateConfig(value, file, basePath);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+}
+
+/**
+ * Leaf values of a config, keyed by dotted path; arrays and regexes are leaves
+ */
+function flatten(value: unknown, keyPath: string, leaves: Map<string, unknown>): void {
+  if (isPlainObject(value) && Object.keys(value).length > 0) {
+    for (const [key, item] of Object.entries(value)) {
+      flatten(item, joinPath(keyPath, key), leaves);
+    }
+  } else {
+    leaves.set(keyPath, value);
+  }
+}
+
+/**
+ * Explain where each value of an effective config came from
+ *
+ * A value set by a layer is attributed to the last layer setting it; lists
+ * that are appended to the defaults (protectedFiles, outlineRules) name
+ * every layer that added to them. Values left at their default are
+ * "default". Anything else, such as project-type adjustments or weights
+ * taken from thresholds, is "derived".
+ */
+export function explainConfig(
+  config: DocOrganizerConfig,
+  defaults: DocOrganizerConfig,
+  layers: ConfigLayer[]
+): ConfigValueSource[] {
+  const effective = new Map<string, unknown>();
+  const initial = new Map<string, unknown>();
+  flatten(config, '', effective);
+  flatten(defaults, '', initial);
+  const layerLeaves = layers.map(layer => {
+    const leaves = new Map<string, unknown>();
+    flatten(layer.config, '', leaves);
+    return leaves;
+  });
+
+  return [...effective.entries()].map(([path, value]) => {
+    const index = layerLeaves.map(leaves => leaves.has(path)).lastIndexOf(true);
+    let source: string;
+    if (index !== -1) {
+      const set = layerLeaves[index].get(path);
+      if (Array.isArray(value) && Array.isArray(set) && value.length > set.length) {
+        const appended = layers.filter((_, i) => layerLeaves[i].has(path));
+        source = ['default', ...appended.map(layer => layer.source)].join(' + ');
+      } else {
+        // String patterns are compiled, so compare them by source
+        const compiled = value instanceof RegExp && typeof set === 'string' && value.source === set;
+        source = compiled || sameValue(value, set) ? layers[index].source : 'derived';
+      }
+    } else {
+      source = sameValue(value, initial.get(path)) ? 'default' : 'derived';
+    }
+    return { path, value, source };
+  });
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  const serialize = (value: unknown) =>
+    JSON.stringify(value, (_, item) => (item instanceof RegExp ? item.toString() : item));
+  return serialize(a) === serialize(b);
+}
+
+/**
+ * Render a config value for display
+ */
+export function formatConfigValue(value: unknown): string {
+  if (value instanceof RegExp) return value.toString();
+  return JSON.stringify(value, (_, item) => (item instanceof RegExp ? item.toString() : item));
+}
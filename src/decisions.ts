@@ -0,0 +1,126 @@
+/**
+ * Decision store for suggestions
+ *
+ * Records accept, reject and override decisions in
+ * `.doc-organizer/decisions.json`, keyed by path and content hash, so a
+ * rejected move stays rejected and a manual override becomes the expected
+ * location until the file changes. Relative link targets are left out of
+ * the hash: applying moves rewrites them without changing the document.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ContradictedRule, Decision } from './types';
+import { isRelativeLink, parseMarkdownLinks, toLinkPath } from './markdown-links';
+
+// Decision store location relative to the project root
+export const DECISIONS_FILE = path.join('.doc-organizer', 'decisions.json');
+
+// On-disk format
+interface DecisionFile {
+  version: number;
+  decisions: Decision[];
+}
+
+/**
+ * Hash a document's content without its relative link targets
+ */
+export function hashDocument(filePath: string): string {
+  const content = fs.readFileSync(filePath, 'utf8');
+  const parts: string[] = [];
+  let cursor = 0;
+  for (const link of parseMarkdownLinks(content)) {
+    if (!isRelativeLink(link.target)) continue;
+    parts.push(content.slice(cursor, link.offset));
+    cursor = link.offset + link.length;
+  }
+  parts.push(content.slice(cursor));
+  return crypto.createHash('sha256').update(parts.join('')).digest('hex');
+}
+
+/**
+ * Read all recorded decisions
+ */
+export function readDecisions(rootDir: string = '.'): Decision[] {
+  const file = path.join(rootDir, DECISIONS_FILE);
+  if (!fs.existsSync(file)) return [];
+  const data: DecisionFile = JSON.parse(fs.readFileSync(file, 'utf8'));
+  return data.decisions ?? [];
+}
+
+/**
+ * Write all decisions, returning the store path
+ */
+export function writeDecisions(decisions: Decision[], rootDir: string = '.'): string {
+  const file = path.join(rootDir, DECISIONS_FILE);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const data: DecisionFile = { version: 1, decisions };
+  fs.writeFileSync(file, JSON.stringify(data, null, 2) + '\n');
+  return file;
+}
+
+/**
+ * Record a decision, replacing any earlier decision for the same file
+ */
+export function recordDecision(decision: Decision, rootDir: string = '.'): Decision[] {
+  const file = toLinkPath(decision.file);
+  const decisions = readDecisions(rootDir).filter(d => toLinkPath(d.file) !== file);
+  decisions.push({ ...decision, file });
+  writeDecisions(decisions, rootDir);
+  return decisions;
+}
+
+/**
+ * Remove the decision for a file, returning whether one existed
+ */
+export function forgetDecision(file: string, rootDir: string = '.'): boolean {
+  const decisions = readDecisions(rootDir);
+  const remaining = decisions.filter(d => toLinkPath(d.file) !== toLinkPath(file));
+  if (remaining.length === decisions.length) return false;
+  writeDecisions(remaining, rootDir);
+  return true;
+}
+
+/**
+ * Find the decision that applies to a file with the given content hash
+ *
+ * Matches the path the decision was made for, or the destination it
+ * accepted or chose, so a file that was moved keeps its decision.
+ */
+export function findDecision(decisions: Decision[], file: string, hash: string): Decision | null {
+  const target = toLinkPath(file);
+  const matches = decisions.filter(
+    d =>
+      d.hash === hash &&
+      (toLinkPath(d.file) === target || (d.destination && toLinkPath(d.destination) === target))
+  );
+  return matches.length > 0 ? matches[matches.length - 1] : null;
+}
+
+/**
+ * Category rules whose suggestions were rejected or overridden at least
+ * `threshold` times, most contradicted first
+ */
+export function findContradictedRules(decisions: Decision[], threshold: number): ContradictedRule[] {
+  const rules = new Map<string, ContradictedRule>();
+
+  for (const decision of decisions) {
+    if (decision.action === 'accept' || !decision.category) continue;
+    const reason = decision.reasons?.[0] ?? 'unknown';
+    const key = `${decision.category}\n${reason}`;
+    const rule = rules.get(key) ?? {
+      category: decision.category,
+      reason,
+      contradictions: 0,
+      files: []
+    };
+    rule.contradictions++;
+    rule.files.push(decision.file);
+    rules.set(key, rule);
+  }
+
+  return [...rules.values()]
+    .filter(rule => rule.contradictions >= threshold)
+    .sort((a, b) => b.contradictions - a.contradictions);
+}
@@ -0,0 +1,252 @@
+/**
+ * Document format support
+ *
+ * Maps file extensions to formats and extracts titles and headings from
+ * Markdown, MDX, reStructuredText, AsciiDoc and plain-text documents so
+ * content matching works the same way across formats.
+ */
+
+import * as path from 'path';
+import { DocumentFormat } from './types';
+
+// A heading found in a document
+export interface DocumentHeading {
+  level: number; // 1 for the document title
+  text: string;
+  line: number; // 1-based
+}
+
+// Extensions recognized for each format
+const FORMAT_EXTENSIONS: Record<DocumentFormat, string[]> = {
+  markdown: ['.md', '.markdown'],
+  mdx: ['.mdx'],
+  rst: ['.rst', '.rest'],
+  asciidoc: ['.adoc', '.asciidoc', '.asc'],
+  text: ['.txt', '.text']
+};
+
+// Characters allowed in reStructuredText section adornments
+const RST_ADORNMENT = /^([=\-`:'"~^_*+#<>.])\1+\s*$/;
+
+// Setext underlines for Markdown and plain text
+const SETEXT_UNDERLINE = /^(=+|-+)\s*$/;
+
+/**
+ * Determine a document's format from its extension (defaults to markdown)
+ */
+export function getDocumentFormat(filePath: string): DocumentFormat {
+  const ext = path.extname(filePath).toLowerCase();
+  for (const [format, extensions] of Object.entries(FORMAT_EXTENSIONS)) {
+    if (extensions.includes(ext)) return format as DocumentFormat;
+  }
+  return 'markdown';
+}
+
+/**
+ * Whether links in this format use Markdown syntax
+ */
+export function hasMarkdownLinks(format: DocumentFormat): boolean {
+  return format === 'markdown' || format === 'mdx';
+}
+
+/**
+ * Normalize a configured extension to the lowercase `.ext` form
+ */
+export function normalizeExtension(extension: string): string {
+  const lower = extension.trim().toLowerCase();
+  return lower.startsWith('.') ? lower : `.${lower}`;
+}
+
+/**
+ * Extract headings, skipping code blocks
+ */
+export function extractHeadings(content: string, format: DocumentFormat): DocumentHeading[] {
+  const lines = content.split(/\r?\n/);
+  switch (format) {
+    case 'rst':
+      return extractRstHeadings(lines);
+    case 'asciidoc':
+      return extractAsciiDocHeadings(lines);
+    case 'text':
+      return extractTextHeadings(lines);
+    default:
+      return extractMarkdownHeadings(lines, format === 'mdx');
+  }
+}
+
+/**
+ * Extract the document title: the first top-level heading, or the first
+ * heading of any level when there is none
+ */
+export function extractTitle(content: string, format: DocumentFormat): string | null {
+  const headings = extractHeadings(content, format);
+  if (headings.length === 0) return null;
+  const top = Math.min(...headings.map(h => h.level));
+  return headings.find(h => h.level === top)!.text;
+}
+
+/**
+ * Extract the first paragraph of body text with inline Markdown removed,
+ * shortened at a word boundary; null when the document has none
+ */
+export function extractSummary(
+  content: string,
+  format: DocumentFormat,
+  maxLength: number = 200
+): string | null {
+  const headingLines = new Set(extractHeadings(content, format).map(h => h.line));
+  const paragraph: string[] = [];
+  let fence: string | null = null;
+
+  for (const [index, line] of content.split(/\r?\n/).entries()) {
+    const fenceMatch = line.match(/^ {0,3}(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      if (fence === null) fence = fenceMatch[1];
+      else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) fence = null;
+      continue;
+    }
+    if (fence !== null) continue;
+
+    const trimmed = line.trim();
+    // Headings, underlines, HTML, images, tables, MDX imports and directives/attributes
+    const skipped =
+      headingLines.has(index + 1) ||
+      RST_ADORNMENT.test(trimmed) ||
+      SETEXT_UNDERLINE.test(trimmed) ||
+      /^(<|!\[|\[!\[|\||(import|export)\s|\.\. |:[\w-]+:)/.test(trimmed);
+    if (trimmed === '' || skipped) {
+      if (paragraph.length > 0) break;
+      continue;
+    }
+    paragraph.push(trimmed.replace(/^>\s*/, ''));
+  }
+
+  const text = paragraph
+    .join(' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/`+([^`]+)`+/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/\*(\S[^*]*?)\*/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (text === '') return null;
+  if (text.length <= maxLength) return text;
+
+  const cut = text.slice(0, maxLength - 1);
+  const boundary = text[cut.length] === ' ' ? cut.length : cut.lastIndexOf(' ');
+  return `${boundary > maxLength / 2 ? cut.slice(0, boundary) : cut}…`;
+}
+
+function extractMarkdownHeadings(lines: string[], mdx: boolean): DocumentHeading[] {
+  const headings: DocumentHeading[] = [];
+  let fence: string | null = null;
+
+  lines.forEach((line, index) => {
+    const fenceMatch = line.match(/^ {0,3}(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      if (fence === null) fence = fenceMatch[1];
+      else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) fence = null;
+      return;
+    }
+    if (fence !== null) return;
+    if (mdx && /^(import|export)\s/.test(line)) return;
+
+    const atx = line.match(/^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/);
+    if (atx) {
+      headings.push({ level: atx[1].length, text: atx[2].trim(), line: index + 1 });
+      return;
+    }
+
+    const previous = lines[index - 1];
+    if (
+      index > 0 &&
+      SETEXT_UNDERLINE.test(line) &&
+      previous.trim() !== '' &&
+      !/^ {0,3}(#|>|[-*+]\s|`{3}|~{3})/.test(previous) &&
+      !SETEXT_UNDERLINE.test(previous)
+    ) {
+      headings.push({ level: line.trim()[0] === '=' ? 1 : 2, text: previous.trim(), line: index });
+    }
+  });
+
+  return headings;
+}
+
+function extractRstHeadings(lines: string[]): DocumentHeading[] {
+  const headings: DocumentHeading[] = [];
+  // Levels are assigned in the order adornment styles first appear
+  const styles: string[] = [];
+  let inLiteral = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Skip indented literal blocks following `::` and directive bodies
+    if (/::\s*$/.test(line)) {
+      inLiteral = true;
+      continue;
+    }
+    if (inLiteral) {
+      if (line.trim() === '' || /^\s/.test(line)) continue;
+      inLiteral = false;
+    }
+
+    const next = lines[i + 1];
+    if (line.trim() === '' || RST_ADORNMENT.test(line) || next === undefined) continue;
+    if (!RST_ADORNMENT.test(next) || next.trim().length < line.trim().length) continue;
+
+    const overline = lines[i - 1];
+    const hasOverline = overline !== undefined && RST_ADORNMENT.test(overline) && overline[0] === next[0];
+    const style = (hasOverline ? 'over' : 'under') + next[0];
+    if (!styles.includes(style)) styles.push(style);
+
+    headings.push({ level: styles.indexOf(style) + 1, text: line.trim(), line: i + 1 });
+    i++;
+  }
+
+  return headings;
+}
+
+function extractAsciiDocHeadings(lines: string[]): DocumentHeading[] {
+  const headings: DocumentHeading[] = [];
+  let delimiter: string | null = null;
+
+  lines.forEach((line, index) => {
+    // Listing, literal, passthrough and comment blocks
+    const block = line.match(/^(-{4,}|\.{4,}|\+{4,}|\/{4,}|`{3,})\s*$/);
+    if (block) {
+      if (delimiter === null) delimiter = block[1];
+      else if (block[1] === delimiter) delimiter = null;
+      return;
+    }
+    if (delimiter !== null) return;
+
+    const section = line.match(/^(={1,6}|#{1,6})\s+(.*?)\s*$/);
+    if (section) {
+      headings.push({ level: section[1].length, text: section[2], line: index + 1 });
+    }
+  });
+
+  return headings;
+}
+
+function extractTextHeadings(lines: string[]): DocumentHeading[] {
+  const headings: DocumentHeading[] = [];
+  const first = lines.findIndex(line => line.trim() !== '');
+  if (first === -1) return headings;
+
+  // The first line of a plain-text document is its title
+  headings.push({ level: 1, text: lines[first].trim(), line: first + 1 });
+
+  for (let i = first + 1; i < lines.length - 1; i++) {
+    if (lines[i].trim() !== '' && SETEXT_UNDERLINE.test(lines[i + 1])) {
+      if (i - 1 !== first || !SETEXT_UNDERLINE.test(lines[i])) {
+        headings.push({ level: 2, text: lines[i].trim(), line: i + 1 });
+      }
+      i++;
+    }
+  }
+
+  return headings;
+}
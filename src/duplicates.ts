@@ -0,0 +1,294 @@
+/**
+ * Duplicate document detection
+ *
+ * Finds exact duplicates by content hash and near duplicates by comparing
+ * word shingles. MinHash signatures, split into bands (locality-sensitive
+ * hashing), pick candidate pairs without comparing every document with
+ * every other; each candidate is then scored with the exact Jaccard
+ * similarity of its shingles. Similar pairs are grouped into clusters, and
+ * the sections the two documents share are reported by heading.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { DocumentFormat, DuplicateCluster, DuplicatePair } from './types';
+import { extractHeadings, getDocumentFormat } from './doc-formats';
+import { stripFrontMatter } from './front-matter';
+import { DocumentationOrganizer } from './organizer';
+
+// MinHash signature length and how it is split into bands. Two documents
+// share a band with probability 1 - (1 - s^rows)^bands at similarity s; with
+// 25 bands of 5 rows that curve rises steepest around (1/25)^(1/5) = 0.53,
+// next to the default 0.5 threshold, so far fewer dissimilar pairs need an
+// exact comparison than with shorter bands
+const BANDS = 25;
+const ROWS_PER_BAND = 5;
+const SIGNATURE_SIZE = BANDS * ROWS_PER_BAND;
+
+// Most overlapping sections reported per pair
+const MAX_SECTIONS = 5;
+
+// Options for findDuplicates
+export interface DuplicateOptions {
+  threshold?: number; // Minimum Jaccard similarity (default 0.5)
+  shingleSize?: number; // Words per shingle (default 3)
+  minWords?: number; // Shorter documents are only compared for exact duplicates (default 20)
+}
+
+// A document to compare
+export interface DuplicateCandidate {
+  file: string;
+  content: string;
+  format?: DocumentFormat;
+}
+
+// Hash, words, shingles and signature of one document
+interface Fingerprint {
+  file: string;
+  content: string;
+  format: DocumentFormat;
+  hash: string; // Of the content without front matter
+  words: string[];
+  shingles: Set<string>;
+  signature: Uint32Array;
+}
+
+/**
+ * Lowercase words of a text, without Markdown punctuation
+ */
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+}
+
+/**
+ * Overlapping runs of `size` words; shorter texts are a single shingle
+ */
+function shingle(words: string[], size: number): Set<string> {
+  if (words.length <= size) return new Set(words.length > 0 ? [words.join(' ')] : []);
+  const shingles = new Set<string>();
+  for (let i = 0; i + size <= words.length; i++) {
+    shingles.add(words.slice(i, i + size).join(' '));
+  }
+  return shingles;
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * MurmurHash3 finalizer, used to derive independent hash functions from one hash
+ */
+function mix(value: number): number {
+  let hash = value;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+// Seeds of the MinHash functions, fixed so signatures are reproducible
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => mix(i + 1));
+
+/**
+ * MinHash signature: the smallest hash of any shingle under each hash function
+ */
+function minHash(shingles: Set<string>): Uint32Array {
+  const signature = new Uint32Array(SIGNATURE_SIZE).fill(0xffffffff);
+  for (const value of shingles) {
+    const hash = hashString(value);
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const h = mix(hash ^ SEEDS[i]);
+      if (h < signature[i]) signature[i] = h;
+    }
+  }
+  return signature;
+}
+
+/**
+ * Jaccard similarity of two sets
+ */
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let shared = 0;
+  for (const value of small) {
+    if (large.has(value)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Split a document into sections by heading; text before the first heading
+ * is the "(introduction)" section
+ */
+function splitSections(content: string, format: DocumentFormat): Array<{ heading: string; text: string }> {
+  const lines = content.split(/\r?\n/);
+  const headings = extractHeadings(content, format);
+  const sections = [{ heading: '(introduction)', start: 0 }];
+  headings.forEach(heading => sections.push({ heading: heading.text, start: heading.line }));
+  return sections.map((section, i) => ({
+    heading: section.heading,
+    text: lines.slice(section.start, i + 1 < sections.length ? sections[i + 1].start - 1 : undefined).join('\n')
+  }));
+}
+
+/**
+ * Sections of two documents with overlapping content, most similar first
+ */
+function overlappingSections(
+  a: Fingerprint,
+  b: Fingerprint,
+  threshold: number,
+  shingleSize: number
+): DuplicatePair['sections'] {
+  const sectionsOf = (doc: Fingerprint) =>
+    splitSections(doc.content, doc.format)
+      .map(section => ({ heading: section.heading, words: tokenize(section.text) }))
+      .filter(section => section.words.length >= shingleSize)
+      .map(section => ({ heading: section.heading, shingles: shingle(section.words, shingleSize) }));
+  const sectionsA = sectionsOf(a);
+  const sectionsB = sectionsOf(b);
+
+  const matches: DuplicatePair['sections'] = [];
+  for (const section of sectionsA) {
+    let best: DuplicatePair['sections'][number] | null = null;
+    for (const other of sectionsB) {
+      const similarity = jaccard(section.shingles, other.shingles);
+      if (similarity >= threshold && (!best || similarity > best.similarity)) {
+        best = { headings: [section.heading, other.heading], similarity };
+      }
+    }
+    if (best) matches.push(best);
+  }
+  return matches.sort((x, y) => y.similarity - x.similarity).slice(0, MAX_SECTIONS);
+}
+
+/**
+ * Find clusters of exact and near-duplicate documents
+ *
+ * Clusters are sorted by similarity, most similar first; each lists its
+ * files in path order and every similar pair in it.
+ */
+export function findDuplicates(
+  documents: DuplicateCandidate[],
+  options: DuplicateOptions = {}
+): DuplicateCluster[] {
+  const threshold = options.threshold ?? 0.5;
+  const shingleSize = options.shingleSize ?? 3;
+  const minWords = options.minWords ?? 20;
+
+  const fingerprints: Fingerprint[] = documents
+    .map(document => {
+      const content = stripFrontMatter(document.content);
+      const words = tokenize(content);
+      const shingles = shingle(words, shingleSize);
+      return {
+        file: document.file,
+        content,
+        format: document.format ?? getDocumentFormat(document.file),
+        hash: crypto.createHash('sha256').update(content).digest('hex'),
+        words,
+        shingles,
+        signature: minHash(shingles)
+      };
+    })
+    .filter(fingerprint => fingerprint.content.trim() !== '');
+
+  // Documents in the same bucket are candidates: every document by its hash,
+  // long enough documents by each band of their signature
+  const candidates = new Set<string>();
+  const addBuckets = (keyOf: (fingerprint: Fingerprint) => string | null) => {
+    const buckets = new Map<string, number[]>();
+    fingerprints.forEach((fingerprint, index) => {
+      const key = keyOf(fingerprint);
+      if (key !== null) buckets.set(key, [...(buckets.get(key) ?? []), index]);
+    });
+    for (const members of buckets.values()) {
+      for (let i = 0; i < members.length; i++) {
+        for (let j = i + 1; j < members.length; j++) {
+          candidates.add(`${members[i]},${members[j]}`);
+        }
+      }
+    }
+  };
+  addBuckets(fingerprint => fingerprint.hash);
+  for (let start = 0; start < SIGNATURE_SIZE; start += ROWS_PER_BAND) {
+    addBuckets(fingerprint =>
+      fingerprint.words.length >= minWords
+        ? fingerprint.signature.slice(start, start + ROWS_PER_BAND).join(',')
+        : null
+    );
+  }
+
+  const pairs: Array<DuplicatePair & { indexes: [number, number] }> = [];
+  for (const candidate of candidates) {
+    const [i, j] = candidate.split(',').map(Number);
+    const [a, b] = [fingerprints[i], fingerprints[j]];
+    const exact = a.hash === b.hash;
+    const similarity = exact ? 1 : jaccard(a.shingles, b.shingles);
+    if (similarity < threshold) continue;
+    const [first, second] = a.file <= b.file ? [a, b] : [b, a];
+    pairs.push({
+      files: [first.file, second.file],
+      similarity,
+      exact,
+      sections: overlappingSections(first, second, threshold, shingleSize),
+      indexes: [i, j]
+    });
+  }
+
+  // Union-find over similar pairs
+  const parent = fingerprints.map((_, index) => index);
+  const find = (index: number): number =>
+    parent[index] === index ? index : (parent[index] = find(parent[index]));
+  for (const { indexes } of pairs) {
+    parent[find(indexes[0])] = find(indexes[1]);
+  }
+
+  const clusters = new Map<number, DuplicateCluster>();
+  for (const { indexes, ...pair } of pairs.sort((a, b) => b.similarity - a.similarity)) {
+    const root = find(indexes[0]);
+    const cluster = clusters.get(root) ?? { files: [], similarity: 0, exact: true, pairs: [] };
+    cluster.files = [...new Set([...cluster.files, ...pair.files])].sort();
+    cluster.similarity = Math.max(cluster.similarity, pair.similarity);
+    cluster.exact = cluster.exact && pair.exact;
+    cluster.pairs.push(pair);
+    clusters.set(root, cluster);
+  }
+
+  return [...clusters.values()].sort(
+    (a, b) => b.similarity - a.similarity || a.files[0].localeCompare(b.files[0])
+  );
+}
+
+/**
+ * Find duplicate clusters among the documents an organizer scans
+ */
+export function findDuplicateDocuments(
+  organizer: DocumentationOrganizer,
+  options: DuplicateOptions = {}
+): DuplicateCluster[] {
+  const documents: DuplicateCandidate[] = [];
+  for (const file of organizer.getAllMdFiles()) {
+    try {
+      documents.push({ file, content: fs.readFileSync(organizer.resolvePath(file), 'utf8') });
+    } catch {
+      // Skip files we can't read
+    }
+  }
+  return findDuplicates(documents, {
+    threshold: organizer.config.thresholds.duplicate,
+    ...options
+  });
+}
@@ -0,0 +1,130 @@
+/**
+ * Document freshness from git history
+ *
+ * A document's age is the time since the last commit that changed its
+ * content, following renames, so clones, checkouts and reorganizations do
+ * not make it look fresh. Outside a repository, for files without commits
+ * and for uncommitted edits newer than the last commit, the modification
+ * time is used instead. Optionally, the code a document references
+ * (relative links and `path/to/file` code spans) is checked too: when that
+ * code was committed after the document, the gap counts against the
+ * document's freshness.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DocFreshness } from './types';
+import { DocumentationOrganizer } from './organizer';
+import { hasUncommittedChanges, isGitRepository, lastCommit, lastContentCommit } from './git';
+import { parseMarkdownLinks, resolveLinkTarget, toLinkPath } from './markdown-links';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Code spans that look like a repository path, e.g. `src/organizer.ts`
+const CODE_SPAN_PATH = /`([\w.-]+(?:\/[\w.-]+)+\/?)`/g;
+
+// Options for assessFreshness
+export interface FreshnessOptions {
+  staleDays?: number; // Days at which freshness halves and a file becomes stale (default 90)
+  compareCode?: boolean; // Compare against the last commit to referenced code (default false)
+  now?: number; // Reference time in milliseconds (default Date.now())
+}
+
+/**
+ * Freshness score: 1 for a document changed just now, halving every
+ * `staleDays` of age or lag behind its code
+ */
+export function freshnessScore(ageDays: number, behindCodeDays: number, staleDays: number): number {
+  return Math.pow(0.5, (Math.max(ageDays, 0) + Math.max(behindCodeDays, 0)) / staleDays);
+}
+
+/**
+ * Code paths a document references that exist in the project
+ *
+ * Relative links are resolved against the document, code spans against
+ * the project root. Other documents and paths outside the root are skipped.
+ */
+export function findCodeReferences(
+  file: string,
+  content: string,
+  rootDir: string,
+  documentExtensions: string[]
+): string[] {
+  const targets = parseMarkdownLinks(content)
+    .map(link => resolveLinkTarget(file, link.target))
+    .filter((target): target is string => target !== null);
+  for (const match of content.matchAll(CODE_SPAN_PATH)) {
+    targets.push(path.posix.normalize(match[1]).replace(/\/$/, ''));
+  }
+
+  const references = new Set<string>();
+  for (const target of targets) {
+    const relative = toLinkPath(target).replace(/\/$/, '');
+    if (relative === '' || relative === '.' || relative.startsWith('../')) continue;
+    if (documentExtensions.includes(path.posix.extname(relative).toLowerCase())) continue;
+    if (fs.existsSync(path.join(rootDir, relative))) references.add(relative);
+  }
+  return [...references].sort();
+}
+
+/**
+ * Assess the freshness of every document the organizer scans, stalest first
+ */
+export function assessFreshness(
+  organizer: DocumentationOrganizer,
+  options: FreshnessOptions = {}
+): DocFreshness[] {
+  const staleDays = options.staleDays ?? 90;
+  const now = options.now ?? Date.now();
+  const { rootDir, extensions } = organizer.config;
+  const useGit = isGitRepository(rootDir);
+  const results: DocFreshness[] = [];
+
+  for (const file of organizer.getAllMdFiles()) {
+    const commit = useGit ? lastContentCommit(file, rootDir) : null;
+    let mtime: number | null = null;
+    if (!commit || hasUncommittedChanges(file, rootDir)) {
+      try {
+        mtime = fs.statSync(organizer.resolvePath(file)).mtimeMs;
+      } catch {
+        if (!commit) continue; // Skip files we can't stat
+      }
+    }
+    const fromMtime = mtime !== null && (!commit || mtime > commit.timestamp);
+    const lastModified = fromMtime ? mtime! : commit!.timestamp;
+
+    const result: DocFreshness = {
+      file,
+      source: fromMtime ? 'mtime' : 'git',
+      lastModified: new Date(lastModified).toISOString(),
+      ageDays: Math.max(Math.floor((now - lastModified) / DAY_MS), 0),
+      author: commit?.author ?? null,
+      commit: commit?.hash ?? null,
+      freshness: 0,
+      stale: false
+    };
+
+    let behindCodeDays = 0;
+    if (options.compareCode && useGit) {
+      try {
+        const content = fs.readFileSync(organizer.resolvePath(file), 'utf8');
+        result.codeReferences = findCodeReferences(file, content, rootDir, extensions);
+      } catch {
+        result.codeReferences = [];
+      }
+      const code = lastCommit(result.codeReferences, rootDir);
+      if (code) {
+        result.codeLastModified = new Date(code.timestamp).toISOString();
+        behindCodeDays = Math.max(code.timestamp - lastModified, 0) / DAY_MS;
+        result.behindCodeDays = Math.floor(behindCodeDays);
+      }
+    }
+
+    const score = freshnessScore((now - lastModified) / DAY_MS, behindCodeDays, staleDays);
+    result.freshness = Math.round(score * 100) / 100;
+    result.stale = score < 0.5;
+    results.push(result);
+  }
+
+  return results.sort((a, b) => a.freshness - b.freshness || a.file.localeCompare(b.file));
+}
@@ -0,0 +1,132 @@
+/**
+ * Front-matter directives
+ *
+ * Lets authors override the classifier from inside a document, either in
+ * YAML front matter:
+ *
+ *   ---
+ *   doc-organizer:
+ *     category: architecture
+ *     destination: "{aiDocs}/architecture/"
+ *     pin: true
+ *   ---
+ *
+ * or in an HTML comment anywhere in the document outside code:
+ *
+ *   <!-- doc-organizer: ignore -->
+ *   <!-- doc-organizer: { category: setup } -->
+ */
+
+import { parse as parseYaml } from 'yaml';
+import { DocDirectives } from './types';
+import { maskCode } from './markdown-links';
+
+// Key holding the directives in front matter and comments
+export const DIRECTIVE_KEY = 'doc-organizer';
+
+// Keywords accepted in place of a mapping, e.g. `doc-organizer: ignore`
+const KEYWORDS: Record<string, DocDirectives> = {
+  ignore: { ignore: true },
+  pin: { pin: true }
+};
+
+// YAML front matter at the very start of a document
+const FRONT_MATTER = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+// HTML comment directives
+const COMMENT_DIRECTIVE = /<!--\s*doc-organizer:([\s\S]*?)-->/g;
+
+// Parsed front matter
+export interface FrontMatter {
+  data: Record<string, unknown>;
+  body: string; // Content after the front matter
+}
+
+/**
+ * Split YAML front matter from a document
+ *
+ * Returns empty data when there is no front matter. Throws when the front
+ * matter is not valid YAML or not a mapping.
+ */
+export function parseFrontMatter(content: string): FrontMatter {
+  const match = content.match(FRONT_MATTER);
+  if (!match) return { data: {}, body: content };
+
+  const data = parseYaml(match[1]) ?? {};
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('front matter must be a YAML mapping');
+  }
+  return { data, body: content.slice(match[0].length) };
+}
+
+/**
+ * Remove front matter from a document, leaving it unchanged when there is none
+ */
+export function stripFrontMatter(content: string): string {
+  const match = content.match(FRONT_MATTER);
+  return match ? content.slice(match[0].length) : content;
+}
+
+/**
+ * Validate one directive value, which may be a keyword or a mapping
+ */
+export function toDirectives(value: unknown): DocDirectives {
+  if (typeof value === 'string' && KEYWORDS[value.trim()]) {
+    return { ...KEYWORDS[value.trim()] };
+  }
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`expected ${Object.keys(KEYWORDS).join(' or ')}, or a mapping`);
+  }
+
+  const directives: DocDirectives = {};
+  for (const [key, field] of Object.entries(value as Record<string, unknown>)) {
+    switch (key) {
+      case 'category':
+      case 'destination':
+        if (typeof field !== 'string' || field.trim() === '') {
+          throw new Error(`${key} must be a non-empty string`);
+        }
+        directives[key] = field.trim();
+        break;
+      case 'pin':
+      case 'ignore':
+        if (typeof field !== 'boolean') {
+          throw new Error(`${key} must be true or false`);
+        }
+        directives[key] = field;
+        break;
+      default:
+        throw new Error(`unknown key "${key}"`);
+    }
+  }
+  return directives;
+}
+
+/**
+ * Collect the directives in a document's front matter and HTML comments
+ *
+ * Comments are applied after front matter, so they win on conflicts;
+ * comments inside fenced or inline code are examples and are skipped.
+ * Returns null when the document has no directives.
+ */
+export function parseDirectives(content: string): DocDirectives | null {
+  const { data, body } = parseFrontMatter(content);
+  let directives: DocDirectives | null = null;
+
+  if (DIRECTIVE_KEY in data) {
+    directives = toDirectives(data[DIRECTIVE_KEY]);
+  }
+
+  for (const match of maskCode(body).matchAll(COMMENT_DIRECTIVE)) {
+    let value: unknown;
+    try {
+      value = parseYaml(match[1].trim());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`invalid comment directive: ${message}`);
+    }
+    directives = { ...directives, ...toDirectives(value) };
+  }
+
+  return directives;
+}
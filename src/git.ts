@@ -0,0 +1,154 @@
+/**
+ * Git helpers for history-preserving moves and file history
+ *
+ * Inside a git working tree, tracked files are moved with `git mv` so the
+ * rename is staged and `git log --follow` keeps working. Everything else
+ * falls back to a plain rename. History lookups skip pure renames so a
+ * reorganization does not make moved files look recently edited.
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// How a file was moved
+export type MoveMethod = 'git' | 'fs';
+
+// A commit that changed a file
+export interface CommitInfo {
+  hash: string;
+  author: string;
+  timestamp: number; // Author date, milliseconds since the epoch
+}
+
+/**
+ * Run a git command and return its trimmed output
+ */
+export function git(args: string[], cwd: string = '.'): string {
+  return execFileSync('git', args, {
+    cwd,
+    encoding: 'utf8',
+    stdio: ['ignore', 'pipe', 'pipe']
+  }).trim();
+}
+
+/**
+ * Whether a directory is inside a git working tree
+ */
+export function isGitRepository(cwd: string = '.'): boolean {
+  try {
+    return git(['rev-parse', '--is-inside-work-tree'], cwd) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a file is tracked by git
+ */
+export function isTracked(file: string, cwd: string = '.'): boolean {
+  try {
+    git(['ls-files', '--error-unmatch', '--', file], cwd);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a tracked file has staged or unstaged changes
+ */
+export function hasUncommittedChanges(file: string, cwd: string = '.'): boolean {
+  return git(['status', '--porcelain', '--', file], cwd) !== '';
+}
+
+/**
+ * Commit checked out in a working tree, or null outside a repository or
+ * before the first commit
+ */
+export function headCommit(cwd: string = '.'): string | null {
+  try {
+    return git(['rev-parse', '--verify', '-q', 'HEAD'], cwd) || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Files tracked in the repository, relative to `cwd`; empty outside one
+ */
+export function listTrackedFiles(cwd: string = '.'): string[] {
+  try {
+    return git(['ls-files', '-z'], cwd).split('\0').filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Last commit that changed a file's content, following renames
+ *
+ * Commits that only renamed the file (100% similarity) and merges are
+ * skipped. Returns null for untracked files or outside a repository.
+ */
+export function lastContentCommit(file: string, cwd: string = '.'): CommitInfo | null {
+  let output: string;
+  try {
+    output = git(
+      ['log', '--follow', '-M', '--format=%x1e%H%x1f%an%x1f%at', '--name-status', '--', file],
+      cwd
+    );
+  } catch {
+    return null;
+  }
+
+  for (const record of output.split('\x1e').filter(Boolean)) {
+    const [header, ...rest] = record.split('\n');
+    const [hash, author, seconds] = header.split('\x1f');
+    const status = rest.find(line => line.trim() !== '')?.split('\t')[0];
+    if (!status || status === 'R100') continue;
+    return { hash, author, timestamp: Number(seconds) * 1000 };
+  }
+  return null;
+}
+
+/**
+ * Last commit touching any of the given paths, or null when none has one
+ */
+export function lastCommit(paths: string[], cwd: string = '.'): CommitInfo | null {
+  if (paths.length === 0) return null;
+  try {
+    const output = git(['log', '-1', '--format=%H%x1f%an%x1f%at', '--', ...paths], cwd);
+    if (output === '') return null;
+    const [hash, author, seconds] = output.split('\x1f');
+    return { hash, author, timestamp: Number(seconds) * 1000 };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Move a file, using `git mv` for tracked files in a git working tree
+ *
+ * Refuses to move a tracked file with uncommitted changes unless `force`
+ * is set, since the rename would be staged together with those changes.
+ */
+export function moveFile(
+  from: string,
+  to: string,
+  options: { force?: boolean; useGit?: boolean; cwd?: string } = {}
+): MoveMethod {
+  const cwd = options.cwd ?? '.';
+  const useGit = options.useGit ?? isGitRepository(cwd);
+
+  if (useGit && isTracked(from, cwd)) {
+    if (!options.force && hasUncommittedChanges(from, cwd)) {
+      throw new Error(`${from} has uncommitted changes (commit them or use --force)`);
+    }
+    git(['mv', '--', from, to], cwd);
+    return 'git';
+  }
+
+  fs.renameSync(path.resolve(cwd, from), path.resolve(cwd, to));
+  return 'fs';
+}
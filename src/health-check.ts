@@ -0,0 +1,139 @@
+/**
+ * Documentation health check
+ *
+ * Scores a project's documentation from 0 to 100: misplaced, stale (by
+ * last commit, see freshness.ts) and orphaned (by link graph, see
+ * link-graph.ts) files, naming violations, out-of-date folder indexes,
+ * broken links and duplicate documents each lower the score in proportion
+ * to how many documents they affect.
+ */
+
+import { HealthCheckResult } from './types';
+import { DocumentationOrganizer } from './organizer';
+import { findStaleIndexes } from './index-generator';
+import { findDuplicateDocuments } from './duplicates';
+import { assessFreshness } from './freshness';
+import { buildDocumentLinkGraph, findOrphans, findUnreachable } from './link-graph';
+import { checkLinks } from './link-checker';
+
+// Options for checkHealth
+export interface HealthCheckOptions {
+  staleDays?: number; // Days without changes before a file is stale (default 90)
+  compareCode?: boolean; // Also count how far docs lag behind the code they reference
+}
+
+/**
+ * Check the documentation health of the organizer's project
+ */
+export function checkHealth(
+  organizer: DocumentationOrganizer,
+  options: HealthCheckOptions = {}
+): HealthCheckResult {
+  const staleDays = options.staleDays ?? 90;
+  const stats = organizer.generateSuggestions();
+  const namingViolations = organizer.checkNamingConventions();
+  const staleIndexes = findStaleIndexes(organizer).map(index => index.file);
+  const duplicates = findDuplicateDocuments(organizer);
+  const brokenLinks = checkLinks(organizer);
+
+  // Stale files: last changed (by commit when in git) more than staleDays ago
+  const freshness = assessFreshness(organizer, { staleDays, compareCode: options.compareCode });
+  const staleFiles = freshness.filter(doc => doc.stale).map(doc => doc.file);
+
+  // Orphans: documents no other document links to
+  const allFiles = organizer.getAllMdFiles();
+  const graph = buildDocumentLinkGraph(organizer);
+  const orphanedFiles = findOrphans(graph);
+  const unreachable = findUnreachable(graph);
+
+  // Calculate health score (0-100)
+  const misplacedPenalty = (stats.misplaced / Math.max(stats.files, 1)) * 30;
+  const stalePenalty = (staleFiles.length / Math.max(allFiles.length, 1)) * 20;
+  const orphanPenalty = (orphanedFiles.length / Math.max(allFiles.length, 1)) * 20;
+  // Informational naming issues do not count against the score
+  const namingProblems = namingViolations.filter(violation => violation.severity !== 'info');
+  const namingPenalty = (namingProblems.length / Math.max(allFiles.length, 1)) * 30;
+  const indexPenalty = Math.min(staleIndexes.length * 2, 10);
+  const filesWithBrokenLinks = new Set(brokenLinks.map(link => link.file)).size;
+  const brokenLinkPenalty = (filesWithBrokenLinks / Math.max(allFiles.length, 1)) * 20;
+  // Every document beyond the first of a cluster is redundant
+  const redundant = duplicates.reduce((sum, cluster) => sum + cluster.files.length - 1, 0);
+  const duplicatePenalty = (redundant / Math.max(allFiles.length, 1)) * 20;
+
+  const healthScore = Math.max(
+    0,
+    Math.round(
+      100 -
+        misplacedPenalty -
+        stalePenalty -
+        orphanPenalty -
+        namingPenalty -
+        indexPenalty -
+        brokenLinkPenalty -
+        duplicatePenalty
+    )
+  );
+
+  return {
+    totalFiles: stats.files,
+    misplacedFiles: stats.misplaced,
+    staleFiles,
+    freshness,
+    orphanedFiles,
+    unreachable,
+    namingViolations,
+    staleIndexes,
+    brokenLinks,
+    duplicates,
+    healthScore
+  };
+}
+
+/**
+ * Suggested next steps for a health check result
+ */
+export function healthRecommendations(result: HealthCheckResult, staleDays: number = 90): string[] {
+  const recommendations: string[] = [];
+  if (result.misplacedFiles > 0) {
+    recommendations.push(`Move ${result.misplacedFiles} misplaced files using apply_organization`);
+  }
+  if (result.staleFiles.length > 0) {
+    recommendations.push(`Review ${result.staleFiles.length} stale files (not updated in ${staleDays} days)`);
+  }
+  if (result.orphanedFiles.length > 0) {
+    recommendations.push(`Check ${result.orphanedFiles.length} orphaned files (not linked from any doc)`);
+  }
+  if (result.unreachable.length > 0) {
+    const files = result.unreachable.reduce((sum, subtree) => sum + subtree.files.length, 0);
+    recommendations.push(`Link ${files} docs that cannot be reached from README.md`);
+  }
+  if (result.namingViolations.length > 0) {
+    const fixable = result.namingViolations.filter(violation => violation.fix).length;
+    recommendations.push(
+      `Fix ${result.namingViolations.length} naming convention violations (${fixable} fixable with doc-organize --fix)`
+    );
+  }
+  if (result.staleIndexes.length > 0) {
+    recommendations.push(`Regenerate ${result.staleIndexes.length} out-of-date folder indexes with doc-organize index`);
+  }
+  if (result.brokenLinks.length > 0) {
+    const files = new Set(result.brokenLinks.map(link => link.file)).size;
+    recommendations.push(
+      `Fix ${result.brokenLinks.length} broken links in ${files} files (see doc-organize check-links)`
+    );
+  }
+  if (result.duplicates.length > 0) {
+    const files = result.duplicates.reduce((sum, cluster) => sum + cluster.files.length, 0);
+    recommendations.push(
+      `Merge or remove ${result.duplicates.length} groups of duplicate documents (${files} files)`
+    );
+  }
+  return recommendations;
+}
+
+/**
+ * Letter grade for a health score
+ */
+export function healthGrade(score: number): string {
+  return score >= 90 ? 'A' : score >= 80 ? 'B' : score >= 70 ? 'C' : score >= 60 ? 'D' : 'F';
+}
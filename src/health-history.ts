@@ -0,0 +1,106 @@
+/**
+ * Health score history
+ *
+ * Appends health check snapshots (score, issue counts, commit and time) to
+ * `.doc-organizer/history.json`, and compares two snapshots to find the
+ * metrics that regressed between them.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { HealthCheckResult, HealthIssueCounts, HealthRegression, HealthSnapshot } from './types';
+import { healthGrade } from './health-check';
+import { headCommit } from './git';
+
+// History location relative to the project root
+export const HISTORY_FILE = path.join('.doc-organizer', 'history.json');
+
+// On-disk format
+interface HistoryFile {
+  version: number;
+  snapshots: HealthSnapshot[];
+}
+
+/**
+ * Snapshot of a health check result, tagged with the checked-out commit
+ */
+export function createSnapshot(
+  result: HealthCheckResult,
+  rootDir: string = '.',
+  date: Date = new Date()
+): HealthSnapshot {
+  const issues: HealthIssueCounts = {
+    misplaced: result.misplacedFiles,
+    stale: result.staleFiles.length,
+    orphaned: result.orphanedFiles.length,
+    unreachable: result.unreachable.reduce((sum, subtree) => sum + subtree.files.length, 0),
+    namingViolations: result.namingViolations.filter(violation => violation.severity !== 'info').length,
+    staleIndexes: result.staleIndexes.length,
+    brokenLinks: result.brokenLinks.length,
+    duplicates: result.duplicates.reduce((sum, cluster) => sum + cluster.files.length - 1, 0)
+  };
+  return {
+    timestamp: date.toISOString(),
+    commit: headCommit(rootDir),
+    healthScore: result.healthScore,
+    grade: healthGrade(result.healthScore),
+    totalFiles: result.totalFiles,
+    issues
+  };
+}
+
+/**
+ * Read all snapshots, oldest first
+ */
+export function readHistory(rootDir: string = '.'): HealthSnapshot[] {
+  const file = path.join(rootDir, HISTORY_FILE);
+  if (!fs.existsSync(file)) return [];
+  const data: HistoryFile = JSON.parse(fs.readFileSync(file, 'utf8'));
+  return data.snapshots ?? [];
+}
+
+/**
+ * Append a snapshot to the history, returning the history path
+ */
+export function recordSnapshot(snapshot: HealthSnapshot, rootDir: string = '.'): string {
+  const file = path.join(rootDir, HISTORY_FILE);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const data: HistoryFile = { version: 1, snapshots: [...readHistory(rootDir), snapshot] };
+  fs.writeFileSync(file, JSON.stringify(data, null, 2) + '\n');
+  return file;
+}
+
+/**
+ * Find a snapshot by commit SHA (or a prefix of at least 4 characters), or
+ * the last snapshot taken on or before a date
+ */
+export function findSnapshot(history: HealthSnapshot[], ref: string): HealthSnapshot | null {
+  if (/^[0-9a-f]{4,40}$/i.test(ref)) {
+    const byCommit = [...history].reverse().find(snapshot => snapshot.commit?.startsWith(ref.toLowerCase()));
+    if (byCommit) return byCommit;
+  }
+
+  const time = Date.parse(ref);
+  if (Number.isNaN(time)) return null;
+  // A bare date means the end of that day
+  const until = /^\d{4}-\d{2}-\d{2}$/.test(ref) ? time + 24 * 60 * 60 * 1000 - 1 : time;
+  return [...history].reverse().find(snapshot => Date.parse(snapshot.timestamp) <= until) ?? null;
+}
+
+/**
+ * Metrics that got worse from one snapshot to another: a lower score or
+ * more issues of a kind
+ */
+export function compareSnapshots(before: HealthSnapshot, after: HealthSnapshot): HealthRegression[] {
+  const regressions: HealthRegression[] = [];
+  if (after.healthScore < before.healthScore) {
+    regressions.push({ metric: 'healthScore', before: before.healthScore, after: after.healthScore });
+  }
+  for (const metric of Object.keys(after.issues) as Array<keyof HealthIssueCounts>) {
+    const previous = before.issues[metric] ?? 0;
+    if (after.issues[metric] > previous) {
+      regressions.push({ metric, before: previous, after: after.issues[metric] });
+    }
+  }
+  return regressions;
+}
@@ -0,0 +1,196 @@
+/**
+ * Folder index pages
+ *
+ * Writes a README.md (or index.md) in each destination folder listing its
+ * documents with their title and first-paragraph summary, grouped by
+ * category. Only the region between the index markers is generated, so
+ * hand-written content around it survives updates.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DocumentationOrganizer } from './organizer';
+import { extractSummary, extractTitle, getDocumentFormat } from './doc-formats';
+import { stripFrontMatter } from './front-matter';
+import { toLinkPath } from './markdown-links';
+
+// Markers around the generated region
+export const INDEX_START = '<!-- doc-organizer:index:start -->';
+export const INDEX_END = '<!-- doc-organizer:index:end -->';
+
+// File names recognized as folder indexes
+const INDEX_FILE_NAMES = ['README.md', 'index.md'];
+
+// A document listed in a folder index
+export interface IndexEntry {
+  file: string; // Relative to the folder, posix separators
+  title: string; // First heading, or the file name
+  summary: string | null;
+  category: string;
+}
+
+// Generated index for one destination folder
+export interface FolderIndex {
+  folder: string; // Root-relative, posix separators
+  file: string; // Root-relative path of the index page
+  entries: IndexEntry[];
+  current: string | null; // Content on disk, null when the page does not exist
+  content: string; // Content with the generated region up to date
+  upToDate: boolean;
+  generated: boolean; // Whether the page on disk already has index markers
+}
+
+/**
+ * Replace the generated region of a page, appending it when the page has
+ * no markers and creating a titled page when there is none
+ */
+export function updateIndexRegion(current: string | null, region: string, title: string): string {
+  const block = `${INDEX_START}\n${region}${INDEX_END}`;
+  if (current === null) {
+    return `# ${title}\n\n${block}\n`;
+  }
+  const start = current.indexOf(INDEX_START);
+  const end = current.indexOf(INDEX_END, start);
+  if (start !== -1 && end !== -1) {
+    return `${current.slice(0, start)}${block}${current.slice(end + INDEX_END.length)}`;
+  }
+  return `${current.replace(/\s*$/, '')}\n\n${block}\n`;
+}
+
+/**
+ * Escape text for a Markdown link label
+ */
+function escapeLinkText(text: string): string {
+  return text.replace(/[\\[\]]/g, '\\$&');
+}
+
+/**
+ * Render the generated region: one section per category, in the given order
+ */
+export function renderIndex(entries: IndexEntry[], categoryOrder: string[] = []): string {
+  const rank = (category: string) => {
+    const index = categoryOrder.indexOf(category);
+    return index === -1 ? categoryOrder.length : index;
+  };
+  const categories = [...new Set(entries.map(entry => entry.category))].sort(
+    (a, b) => rank(a) - rank(b) || a.localeCompare(b)
+  );
+
+  const lines = ['<!-- Generated by doc-organize index; edit outside the markers -->', ''];
+  if (entries.length === 0) {
+    lines.push('_No documents yet._', '');
+  }
+  for (const category of categories) {
+    lines.push(`## ${category}`, '');
+    for (const entry of entries.filter(e => e.category === category)) {
+      const summary = entry.summary ? ` - ${entry.summary}` : '';
+      lines.push(`- [${escapeLinkText(entry.title)}](${encodeURI(entry.file)})${summary}`);
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Title for a new index page, from the folder name
+ */
+function folderTitle(folder: string): string {
+  const name = path.posix.basename(folder).replace(/[-_]+/g, ' ');
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/**
+ * Plan the index page of every destination folder
+ *
+ * Folders are the resolved category destinations except the project root.
+ * Each lists the documents below it that are not inside a deeper indexed
+ * folder. Documents are grouped by the category the organizer assigns,
+ * falling back to the folder's own category.
+ */
+export function planFolderIndexes(organizer: DocumentationOrganizer): FolderIndex[] {
+  const { destinations } = organizer.config;
+  const folderCategories = new Map<string, string[]>();
+  for (const [category, destination] of Object.entries(destinations)) {
+    const folder = toLinkPath(path.normalize(organizer.resolveDestination(destination))).replace(/\/$/, '');
+    if (folder === '.' || folder === '') continue;
+    folderCategories.set(folder, [...(folderCategories.get(folder) ?? []), category]);
+  }
+
+  const files = organizer.getAllMdFiles().map(toLinkPath);
+  const folders = [...folderCategories.keys()]
+    .filter(folder => fs.existsSync(organizer.resolvePath(folder)))
+    .sort();
+  const inFolder = (file: string, folder: string) => file.startsWith(`${folder}/`);
+
+  return folders.map(folder => {
+    const existing = INDEX_FILE_NAMES.map(name => `${folder}/${name}`).filter(file =>
+      fs.existsSync(organizer.resolvePath(file))
+    );
+    const marked = existing.find(file =>
+      fs.readFileSync(organizer.resolvePath(file), 'utf8').includes(INDEX_START)
+    );
+    const indexFile = marked ?? `${folder}/${organizer.config.indexes.fileName}`;
+    const deeper = folders.filter(other => other !== folder && inFolder(other, folder));
+
+    const entries: IndexEntry[] = files
+      .filter(file => inFolder(file, folder) && file !== indexFile)
+      .filter(file => !deeper.some(other => inFolder(file, other)))
+      .sort()
+      .map(file => {
+        const content = stripFrontMatter(fs.readFileSync(organizer.resolvePath(file), 'utf8'));
+        const format = getDocumentFormat(file);
+        const analysis = organizer.analyzeFileContent(file);
+        return {
+          file: path.posix.relative(folder, file),
+          title: extractTitle(content, format) ?? path.posix.basename(file, path.posix.extname(file)),
+          summary: extractSummary(content, format),
+          category: analysis?.suggestedCategory ?? folderCategories.get(folder)![0]
+        };
+      });
+
+    const current = fs.existsSync(organizer.resolvePath(indexFile))
+      ? fs.readFileSync(organizer.resolvePath(indexFile), 'utf8')
+      : null;
+    const content = updateIndexRegion(
+      current,
+      renderIndex(entries, folderCategories.get(folder)),
+      folderTitle(folder)
+    );
+    return {
+      folder,
+      file: indexFile,
+      entries,
+      current,
+      content,
+      upToDate: content === current,
+      generated: marked !== undefined
+    };
+  });
+}
+
+/**
+ * Generated index pages whose listing no longer matches their folder
+ */
+export function findStaleIndexes(organizer: DocumentationOrganizer): FolderIndex[] {
+  return planFolderIndexes(organizer).filter(index => index.generated && !index.upToDate);
+}
+
+/**
+ * Write the index pages that are missing or out of date, returning them
+ *
+ * Folders without documents only get a page when one already has markers.
+ */
+export function writeFolderIndexes(
+  organizer: DocumentationOrganizer,
+  options: { dryRun?: boolean } = {}
+): FolderIndex[] {
+  const written = planFolderIndexes(organizer).filter(
+    index => !index.upToDate && (index.entries.length > 0 || index.generated)
+  );
+  if (!options.dryRun) {
+    for (const index of written) {
+      fs.writeFileSync(organizer.resolvePath(index.file), index.content);
+    }
+  }
+  return written;
+}
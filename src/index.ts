@@ -8,16 +8,123 @@
 export * from './types';
 
 // AI classifier exports
-export { AIClassifier, aiClassifier, classifyWithAI } from './ai-classifier';
+export {
+  AIClassifier,
+  aiClassifier,
+  classifyWithAI,
+  buildClassificationTool,
+  buildSystemPrompt
+} from './ai-classifier';
+
+// Category exports
+export { BUILT_IN_CATEGORIES, UNKNOWN_CATEGORY } from './categories';
 
 // Core organizer exports
 export {
   DocumentationOrganizer,
   loadConfiguration,
+  findConfiguration,
+  explainConfiguration,
+  LoadedConfiguration,
   UserConfig,
   AnalysisStats,
   NamingViolation
 } from './organizer';
 
+// Config schema exports
+export {
+  validateConfig,
+  ConfigValidationError,
+  ConfigIssue,
+  ConfigValueSource
+} from './config-schema';
+
+// Project type detection exports
+export { detectProjectType } from './project-detector';
+
+// Workspace exports
+export {
+  discoverWorkspaces,
+  analyzeWorkspaces,
+  Workspace,
+  WorkspaceResult,
+  WorkspaceAnalysis
+} from './workspaces';
+
+// Offline classifier exports
+export { LocalClassifier, TrainingDocument } from './local-classifier';
+
+// Link rewriting exports
+export { parseMarkdownLinks, rewriteLinksForMoves, MarkdownLink } from './markdown-links';
+
+// Document format exports
+export {
+  getDocumentFormat,
+  extractHeadings,
+  extractTitle,
+  extractSummary,
+  DocumentHeading
+} from './doc-formats';
+
+// Folder index exports
+export {
+  planFolderIndexes,
+  writeFolderIndexes,
+  findStaleIndexes,
+  FolderIndex,
+  IndexEntry
+} from './index-generator';
+
+// Duplicate detection exports
+export { findDuplicates, findDuplicateDocuments, DuplicateOptions } from './duplicates';
+
+// Link graph exports
+export {
+  buildLinkGraph,
+  buildDocumentLinkGraph,
+  findOrphans,
+  findEntryPoints,
+  findUnreachable,
+  isEntryPage,
+  LinkGraph,
+  LinkEdge,
+  LinkGraphDocument
+} from './link-graph';
+
+// Link checker exports
+export { checkLinks, collectAnchors, githubSlug } from './link-checker';
+
+// Freshness exports
+export { assessFreshness, findCodeReferences, freshnessScore, FreshnessOptions } from './freshness';
+
+// Health check exports
+export { checkHealth, healthRecommendations, healthGrade, HealthCheckOptions } from './health-check';
+export {
+  createSnapshot,
+  readHistory,
+  recordSnapshot,
+  findSnapshot,
+  compareSnapshots,
+  HISTORY_FILE
+} from './health-history';
+
+// Naming rule exports
+export { DEFAULT_NAMING_RULES, checkName, fixName } from './naming-rules';
+
+// Outline exports
+export { buildOutline, flattenHeadings, matchOutlineRules } from './outline';
+
+// Scoring exports
+export { scoreCategories, calibrateConfidence } from './scoring';
+
+// Front-matter directive exports
+export { parseFrontMatter, parseDirectives } from './front-matter';
+
+// Decision store exports
+export { readDecisions, recordDecision, forgetDecision, findContradictedRules } from './decisions';
+
+// Undo journal exports
+export { undoJournal, listJournals, readJournal } from './journal';
+
 // Default export
 export { DocumentationOrganizer as default } from './organizer';
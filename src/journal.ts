@@ -0,0 +1,190 @@
+/**
+ * Undo journal for applied moves
+ *
+ * Every applyMoves run records its moves, created directories and link
+ * rewrites under `.doc-organizer/journal/`, so the run can be replayed
+ * backwards later.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { JournalEntry, LinkRewrite, UndoResult } from './types';
+import { revertLinkRewrites } from './markdown-links';
+import { moveFile } from './git';
+
+// Journal location relative to the project root
+export const JOURNAL_DIR = path.join('.doc-organizer', 'journal');
+
+/**
+ * Hash file contents to detect changes made after a move
+ */
+export function hashFile(filePath: string): string {
+  return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+}
+
+/**
+ * Create a sortable journal id from a timestamp
+ */
+export function createJournalId(date: Date = new Date()): string {
+  return date.toISOString().replace(/[:.]/g, '-');
+}
+
+/**
+ * Write a journal entry, returning its path
+ */
+export function writeJournal(entry: JournalEntry, rootDir: string = '.'): string {
+  const dir = path.join(rootDir, JOURNAL_DIR);
+  fs.mkdirSync(dir, { recursive: true });
+  const file = path.join(dir, `${entry.id}.json`);
+  fs.writeFileSync(file, JSON.stringify(entry, null, 2) + '\n');
+  return file;
+}
+
+/**
+ * Read a journal entry by id
+ */
+export function readJournal(id: string, rootDir: string = '.'): JournalEntry | null {
+  const file = path.join(rootDir, JOURNAL_DIR, `${id}.json`);
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+/**
+ * List journal entries, oldest first
+ */
+export function listJournals(rootDir: string = '.'): JournalEntry[] {
+  const dir = path.join(rootDir, JOURNAL_DIR);
+  if (!fs.existsSync(dir)) return [];
+
+  return fs
+    .readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => readJournal(path.basename(file, '.json'), rootDir))
+    .filter((entry): entry is JournalEntry => entry !== null);
+}
+
+/**
+ * Replay a journal entry backwards
+ *
+ * Defaults to the most recent entry that has not been undone. Refuses to
+ * run when files changed after the move unless `force` is set, in which
+ * case the conflicts are reported as warnings and changed files keep
+ * their current links.
+ */
+export function undoJournal(
+  id?: string,
+  options: { force?: boolean } = {},
+  rootDir: string = '.'
+): UndoResult {
+  const entry = id
+    ? readJournal(id, rootDir)
+    : listJournals(rootDir).filter(e => !e.undoneAt).pop() ?? null;
+
+  if (!entry) {
+    throw new Error(id ? `No journal entry found with id ${id}` : 'Nothing to undo');
+  }
+  if (entry.undoneAt) {
+    throw new Error(`Journal entry ${entry.id} was already undone at ${entry.undoneAt}`);
+  }
+
+  const resolve = (file: string) => path.join(rootDir, file);
+  const expectedHashes: Record<string, string> = { ...entry.fileHashes };
+  for (const move of entry.moves) {
+    expectedHashes[move.to] = move.hash;
+  }
+
+  // Detect changes made since the apply
+  const conflicts: string[] = [];
+  const changed = new Set<string>();
+  for (const [file, hash] of Object.entries(expectedHashes)) {
+    if (!fs.existsSync(resolve(file))) {
+      conflicts.push(`${file} no longer exists`);
+      changed.add(file);
+    } else if (hashFile(resolve(file)) !== hash) {
+      conflicts.push(`${file} changed after the move`);
+      changed.add(file);
+    }
+  }
+  for (const move of entry.moves) {
+    if (fs.existsSync(resolve(move.from))) {
+      conflicts.push(`${move.from} already exists`);
+    }
+  }
+
+  if (conflicts.length > 0 && !options.force) {
+    throw new Error(
+      `Refusing to undo ${entry.id}:\n  ${conflicts.join('\n  ')}\nUse force to undo anyway.`
+    );
+  }
+
+  const result: UndoResult = {
+    id: entry.id,
+    restored: 0,
+    failed: 0,
+    moves: [],
+    revertedLinks: 0,
+    removedDirs: [],
+    warnings: [...conflicts]
+  };
+
+  // Revert link rewrites while files are still at their post-move paths
+  const rewritesByFile = new Map<string, LinkRewrite[]>();
+  for (const rewrite of entry.linkRewrites) {
+    const list = rewritesByFile.get(rewrite.file) ?? [];
+    list.push(rewrite);
+    rewritesByFile.set(rewrite.file, list);
+  }
+  for (const [file, rewrites] of rewritesByFile) {
+    if (changed.has(file)) {
+      result.warnings.push(`Kept current links in ${file}`);
+      continue;
+    }
+    const content = fs.readFileSync(resolve(file), 'utf8');
+    fs.writeFileSync(resolve(file), revertLinkRewrites(content, rewrites));
+    result.revertedLinks += rewrites.length;
+  }
+
+  // Move files back in reverse order
+  for (const move of [...entry.moves].reverse()) {
+    const moveResult: UndoResult['moves'][number] = {
+      from: move.to,
+      to: move.from,
+      success: false
+    };
+
+    try {
+      if (fs.existsSync(resolve(move.from))) {
+        throw new Error(`${move.from} already exists`);
+      }
+      fs.mkdirSync(path.dirname(resolve(move.from)), { recursive: true });
+      // Changes were already checked against the journal hashes above
+      moveFile(move.to, move.from, { force: true, useGit: move.method === 'git', cwd: rootDir });
+      moveResult.success = true;
+      result.restored++;
+    } catch (error) {
+      moveResult.error = error instanceof Error ? error.message : 'Unknown error';
+      result.failed++;
+    }
+
+    result.moves.push(moveResult);
+  }
+
+  // Remove directories created by the apply, deepest first, if now empty
+  for (const dir of [...entry.createdDirs].reverse()) {
+    try {
+      if (fs.existsSync(resolve(dir)) && fs.readdirSync(resolve(dir)).length === 0) {
+        fs.rmdirSync(resolve(dir));
+        result.removedDirs.push(dir);
+      }
+    } catch {
+      // Leave directories we cannot remove
+    }
+  }
+
+  entry.undoneAt = new Date().toISOString();
+  writeJournal(entry, rootDir);
+
+  return result;
+}
@@ -0,0 +1,208 @@
+/**
+ * Broken link checker
+ *
+ * Resolves every relative link and image in the scanned Markdown and MDX
+ * documents, including `#heading` anchors, which are matched against the
+ * target's headings using GitHub's slug rules and against explicit HTML
+ * ids. Each broken link comes with the closest existing target: where the
+ * journal says the file was moved, a file with the same name elsewhere, or
+ * a similarly named file or heading.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BrokenLink, DocumentFormat } from './types';
+import { DocumentationOrganizer } from './organizer';
+import { extractHeadings, getDocumentFormat, hasMarkdownLinks } from './doc-formats';
+import { listJournals } from './journal';
+import { listTrackedFiles } from './git';
+import { suggestKey } from './config-schema';
+import {
+  isRelativeLink,
+  parseMarkdownLinks,
+  resolveLinkTarget,
+  splitLinkTarget,
+  toLinkPath
+} from './markdown-links';
+
+// Anchors browsers resolve without a matching element
+const BUILT_IN_ANCHORS = ['', 'top'];
+
+// Explicit anchors: <a name="..."> and id="..." attributes
+const HTML_ANCHOR = /<[a-z][^>]*?\s(?:id|name)\s*=\s*["']([^"']+)["']/gi;
+
+/**
+ * GitHub heading slug: lowercase, punctuation removed, spaces as hyphens
+ */
+export function githubSlug(text: string): string {
+  return text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/`+([^`]*)`+/g, '$1')
+    .replace(/(\*\*|__|\*|_|~~)(\S(?:.*?\S)?)\1/g, '$2')
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\p{Pc}\- ]/gu, '')
+    .replace(/ /g, '-');
+}
+
+/**
+ * Anchors a document defines: heading slugs, numbered like GitHub when
+ * repeated (`usage`, `usage-1`, ...), and explicit HTML ids
+ */
+export function collectAnchors(content: string, format: DocumentFormat): string[] {
+  const anchors: string[] = [];
+  const seen = new Map<string, number>();
+  for (const heading of extractHeadings(content, format)) {
+    const slug = githubSlug(heading.text);
+    const count = seen.get(slug) ?? 0;
+    seen.set(slug, count + 1);
+    anchors.push(count === 0 ? slug : `${slug}-${count}`);
+  }
+  for (const match of content.matchAll(HTML_ANCHOR)) {
+    anchors.push(match[1]);
+  }
+  return anchors;
+}
+
+/**
+ * Number of leading path segments two paths share
+ */
+function sharedSegments(a: string, b: string): number {
+  const partsA = a.split('/');
+  const partsB = b.split('/');
+  let shared = 0;
+  while (shared < partsA.length && shared < partsB.length && partsA[shared] === partsB[shared]) {
+    shared++;
+  }
+  return shared;
+}
+
+/**
+ * The existing file a missing target most likely became
+ *
+ * Moves recorded in the journal win; otherwise a file with the same name,
+ * then a similarly named file with the same extension, preferring the one
+ * closest to the missing path.
+ */
+function suggestTarget(missing: string, files: string[], moves: Map<string, string>): string | null {
+  const known = new Set(files);
+  let moved = missing;
+  for (let i = 0; i < moves.size && moves.has(moved); i++) {
+    moved = moves.get(moved)!;
+  }
+  if (moved !== missing && known.has(moved)) return moved;
+
+  const closest = (candidates: string[]) =>
+    candidates.sort(
+      (a, b) =>
+        sharedSegments(b, missing) - sharedSegments(a, missing) ||
+        a.split('/').length - b.split('/').length ||
+        a.localeCompare(b)
+    )[0] ?? null;
+
+  const name = path.posix.basename(missing).toLowerCase();
+  const sameName = files.filter(file => path.posix.basename(file).toLowerCase() === name);
+  if (sameName.length > 0) return closest(sameName);
+
+  const extension = path.posix.extname(missing).toLowerCase();
+  const sameType = files.filter(file => path.posix.extname(file).toLowerCase() === extension);
+  const similar = suggestKey(
+    path.posix.basename(missing),
+    [...new Set(sameType.map(file => path.posix.basename(file)))]
+  );
+  return similar === null ? null : closest(sameType.filter(file => path.posix.basename(file) === similar));
+}
+
+/**
+ * Check the relative links and images of every scanned document
+ *
+ * Broken links are returned in file, line and column order.
+ */
+export function checkLinks(organizer: DocumentationOrganizer): BrokenLink[] {
+  const { rootDir } = organizer.config;
+  const documents = organizer.getAllMdFiles();
+
+  // Files a missing target could have become, and where the journal moved files
+  const files = [...new Set([...documents.map(toLinkPath), ...listTrackedFiles(rootDir)])].sort();
+  const moves = new Map<string, string>();
+  for (const entry of listJournals(rootDir).filter(journal => !journal.undoneAt)) {
+    for (const move of entry.moves) {
+      moves.set(toLinkPath(move.from), toLinkPath(move.to));
+    }
+  }
+
+  const anchorCache = new Map<string, string[] | null>();
+  const anchorsOf = (file: string): string[] | null => {
+    if (!anchorCache.has(file)) {
+      const format = getDocumentFormat(file);
+      let anchors: string[] | null = null;
+      if (hasMarkdownLinks(format)) {
+        try {
+          anchors = collectAnchors(fs.readFileSync(path.join(rootDir, file), 'utf8'), format);
+        } catch {
+          anchors = null;
+        }
+      }
+      anchorCache.set(file, anchors);
+    }
+    return anchorCache.get(file)!;
+  };
+
+  const broken: BrokenLink[] = [];
+  for (const document of [...documents].sort()) {
+    if (!hasMarkdownLinks(getDocumentFormat(document))) continue;
+    let content: string;
+    try {
+      content = fs.readFileSync(organizer.resolvePath(document), 'utf8');
+    } catch {
+      continue; // Skip files we can't read
+    }
+
+    const from = toLinkPath(document);
+    for (const link of parseMarkdownLinks(content)) {
+      const local = link.target.startsWith('#');
+      if (!local && !isRelativeLink(link.target)) continue;
+
+      const { path: linkPath, suffix } = splitLinkTarget(link.target);
+      const target = local ? from : resolveLinkTarget(from, link.target);
+      if (target === null) continue;
+      const report = (reason: BrokenLink['reason'], suggestion: string | null) =>
+        broken.push({
+          file: document,
+          line: link.line,
+          column: link.column,
+          target: link.target,
+          reason,
+          suggestion
+        });
+
+      if (!local && !fs.existsSync(path.join(rootDir, target))) {
+        const suggested = suggestTarget(target, files, moves);
+        const relative = suggested && path.posix.relative(path.posix.dirname(from), suggested);
+        report('missing-file', relative ? `${relative}${suffix}` : null);
+        continue;
+      }
+
+      const hash = suffix.indexOf('#');
+      if (hash === -1) continue;
+      const anchors = anchorsOf(target);
+      if (anchors === null) continue; // Only Markdown targets have checkable anchors
+      let anchor = suffix.slice(hash + 1);
+      try {
+        anchor = decodeURIComponent(anchor);
+      } catch {
+        // Keep the anchor as written
+      }
+      const lower = anchor.toLowerCase();
+      if (BUILT_IN_ANCHORS.includes(lower) || anchors.some(known => known.toLowerCase() === lower)) {
+        continue;
+      }
+      const similar = suggestKey(lower, anchors);
+      report('missing-anchor', similar === null ? null : `${linkPath}#${similar}`);
+    }
+  }
+
+  return broken;
+}
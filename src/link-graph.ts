@@ -0,0 +1,209 @@
+/**
+ * Link graph between documents
+ *
+ * Parses every document's Markdown links, reference definitions and
+ * wiki-links once, resolves them relative to the document, and keeps the
+ * edges between scanned documents in both directions. Orphans (documents
+ * nothing links to), entry points and the documents that cannot be reached
+ * from the root README are derived from the graph.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DocumentFormat, UnreachableSubtree } from './types';
+import { getDocumentFormat, hasMarkdownLinks } from './doc-formats';
+import { DocumentationOrganizer } from './organizer';
+import {
+  MarkdownLinkKind,
+  parseMarkdownLinks,
+  parseWikiLinks,
+  resolveLinkTarget,
+  toLinkPath
+} from './markdown-links';
+
+// Pages readers open directly, matched on the file name without extension
+const ENTRY_PAGE_NAMES = ['readme', 'index', 'changelog', 'license', 'contributing', 'claude'];
+
+// Pages a directory link resolves to
+const DIRECTORY_PAGE_NAMES = ['README.md', 'index.md'];
+
+// A document to add to the graph
+export interface LinkGraphDocument {
+  file: string;
+  content: string;
+  format?: DocumentFormat;
+}
+
+// A resolved link from one document to another
+export interface LinkEdge {
+  from: string; // Posix separators, like every path in the graph
+  to: string;
+  kind: MarkdownLinkKind | 'wiki';
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+// Documents and the links between them
+export interface LinkGraph {
+  files: string[]; // Sorted
+  outbound: Map<string, LinkEdge[]>;
+  inbound: Map<string, LinkEdge[]>;
+}
+
+/**
+ * Whether a document is a page readers open directly (README, index, ...)
+ */
+export function isEntryPage(file: string): boolean {
+  const name = path.posix.basename(file, path.posix.extname(file)).toLowerCase();
+  return ENTRY_PAGE_NAMES.includes(name);
+}
+
+/**
+ * Resolve a wiki-link target to a document
+ *
+ * Targets with a slash are paths, relative to the linking document or the
+ * root; bare names match a file name with or without its extension,
+ * preferring the linking document's folder, then the shortest path.
+ */
+function resolveWikiTarget(from: string, target: string, files: string[]): string | null {
+  const wanted = target.toLowerCase();
+  const withoutExtension = (file: string) => file.slice(0, file.length - path.posix.extname(file).length);
+  const matches = (candidate: string, file: string) => {
+    const lower = file.toLowerCase();
+    return lower === candidate || withoutExtension(lower) === candidate;
+  };
+
+  if (wanted.includes('/')) {
+    const relative = path.posix.normalize(path.posix.join(path.posix.dirname(from), wanted));
+    const fromRoot = path.posix.normalize(wanted.replace(/^\//, ''));
+    return (
+      files.find(file => matches(relative, file)) ?? files.find(file => matches(fromRoot, file)) ?? null
+    );
+  }
+
+  const candidates = files.filter(file => matches(wanted, path.posix.basename(file)));
+  const folder = path.posix.dirname(from);
+  return (
+    candidates.find(file => path.posix.dirname(file) === folder) ??
+    candidates.sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b))[0] ??
+    null
+  );
+}
+
+/**
+ * Build the link graph of a set of documents
+ *
+ * Only links between the given documents become edges; links to other
+ * files, URLs and a document's links to itself are left out. A link to a
+ * folder points at its README.md or index.md.
+ */
+export function buildLinkGraph(documents: LinkGraphDocument[]): LinkGraph {
+  const files = documents.map(document => toLinkPath(document.file)).sort();
+  const known = new Set(files);
+  const outbound = new Map<string, LinkEdge[]>(files.map(file => [file, []]));
+  const inbound = new Map<string, LinkEdge[]>(files.map(file => [file, []]));
+
+  const addEdge = (edge: LinkEdge) => {
+    if (edge.from === edge.to) return;
+    outbound.get(edge.from)!.push(edge);
+    inbound.get(edge.to)!.push(edge);
+  };
+
+  for (const document of documents) {
+    const from = toLinkPath(document.file);
+    if (!hasMarkdownLinks(document.format ?? getDocumentFormat(document.file))) continue;
+
+    for (const link of parseMarkdownLinks(document.content)) {
+      const target = resolveLinkTarget(from, link.target);
+      if (target === null) continue;
+      const to = known.has(target)
+        ? target
+        : DIRECTORY_PAGE_NAMES.map(name => path.posix.join(target, name)).find(file => known.has(file));
+      if (to) addEdge({ from, to, kind: link.kind, line: link.line, column: link.column });
+    }
+
+    for (const link of parseWikiLinks(document.content)) {
+      if (!link.target) continue;
+      const to = resolveWikiTarget(from, link.target, files);
+      if (to) addEdge({ from, to, kind: 'wiki', line: link.line, column: link.column });
+    }
+  }
+
+  return { files, outbound, inbound };
+}
+
+/**
+ * Build the link graph of the documents an organizer scans
+ */
+export function buildDocumentLinkGraph(organizer: DocumentationOrganizer): LinkGraph {
+  const documents: LinkGraphDocument[] = [];
+  for (const file of organizer.getAllMdFiles()) {
+    try {
+      documents.push({ file, content: fs.readFileSync(organizer.resolvePath(file), 'utf8') });
+    } catch {
+      // Skip files we can't read
+    }
+  }
+  return buildLinkGraph(documents);
+}
+
+/**
+ * Documents no other document links to, except entry pages
+ */
+export function findOrphans(graph: LinkGraph): string[] {
+  return graph.files.filter(file => graph.inbound.get(file)!.length === 0 && !isEntryPage(file));
+}
+
+/**
+ * Entry pages no other document links to: where readers start
+ */
+export function findEntryPoints(graph: LinkGraph): string[] {
+  return graph.files.filter(file => graph.inbound.get(file)!.length === 0 && isEntryPage(file));
+}
+
+/**
+ * Documents that cannot be reached by following links from `start`
+ *
+ * Unreachable documents are grouped by the highest folder whose documents
+ * are all unreachable; the rest are reported one by one. Returns nothing
+ * when `start` is not in the graph.
+ */
+export function findUnreachable(graph: LinkGraph, start: string = 'README.md'): UnreachableSubtree[] {
+  if (!graph.inbound.has(start)) return [];
+
+  const reached = new Set([start]);
+  const queue = [start];
+  while (queue.length > 0) {
+    for (const edge of graph.outbound.get(queue.shift()!)!) {
+      if (!reached.has(edge.to)) {
+        reached.add(edge.to);
+        queue.push(edge.to);
+      }
+    }
+  }
+
+  const unreachable = graph.files.filter(file => !reached.has(file));
+  const folderUnreachable = new Map<string, boolean>();
+  const allUnreachable = (folder: string) => {
+    if (!folderUnreachable.has(folder)) {
+      folderUnreachable.set(
+        folder,
+        graph.files.every(file => !file.startsWith(`${folder}/`) || !reached.has(file))
+      );
+    }
+    return folderUnreachable.get(folder)!;
+  };
+
+  const subtrees = new Map<string, string[]>();
+  for (const file of unreachable) {
+    let root = file;
+    for (let folder = path.posix.dirname(file); folder !== '.'; folder = path.posix.dirname(folder)) {
+      if (allUnreachable(folder)) root = `${folder}/`;
+    }
+    subtrees.set(root, [...(subtrees.get(root) ?? []), file]);
+  }
+
+  return [...subtrees.entries()]
+    .map(([root, files]) => ({ root, files }))
+    .sort((a, b) => a.root.localeCompare(b.root));
+}
@@ -0,0 +1,254 @@
+/**
+ * Offline document classifier
+ *
+ * A TF-IDF nearest-centroid model trained on documents that already sit in
+ * their category's folder. It runs without any network access, so teams
+ * that cannot send docs to an external API still get a fallback for
+ * low-confidence files. Models are stored as JSON under `.doc-organizer/`.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  CategoryCandidate,
+  DocumentCategory,
+  LocalClassificationResult,
+  LocalModel,
+  LocalModelEvaluation
+} from './types';
+import { calibrateConfidence } from './scoring';
+
+// Model location relative to the project root
+export const MODEL_FILE = path.join('.doc-organizer', 'model.json');
+
+// Bump when the model format changes
+const MODEL_VERSION = 1;
+
+// File names are short, so their words count more than body words
+const FILENAME_WEIGHT = 3;
+
+// Words too common to tell categories apart
+const STOP_WORDS = new Set(
+  (
+    'a an and are as at be by can for from has have how if in into is it its of on or ' +
+    'that the their then there these this to use used using was we when which will with you your'
+  ).split(' ')
+);
+
+// A labeled training document
+export interface TrainingDocument {
+  category: DocumentCategory;
+  fileName: string;
+  text: string;
+}
+
+// Sparse term vector
+type Vector = Record<string, number>;
+
+/**
+ * Split text into lowercase terms, dropping stop words and numbers
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z][a-z0-9]+/g) ?? []).filter(
+    term => !STOP_WORDS.has(term)
+  );
+}
+
+/**
+ * Terms for a document: its body plus its file name, weighted higher
+ */
+function documentTerms(fileName: string, text: string): string[] {
+  const nameTerms = tokenize(fileName.replace(/[-_.]/g, ' '));
+  const terms = tokenize(text);
+  for (let i = 0; i < FILENAME_WEIGHT; i++) terms.push(...nameTerms);
+  return terms;
+}
+
+/**
+ * Scale a vector to unit length
+ */
+function normalize(vector: Vector): Vector {
+  const length = Math.sqrt(Object.values(vector).reduce((sum, w) => sum + w * w, 0));
+  if (length === 0) return vector;
+  const result: Vector = {};
+  for (const [term, weight] of Object.entries(vector)) result[term] = weight / length;
+  return result;
+}
+
+/**
+ * Cosine similarity of two unit vectors
+ */
+function dot(a: Vector, b: Vector): number {
+  let sum = 0;
+  for (const [term, weight] of Object.entries(a)) sum += weight * (b[term] ?? 0);
+  return sum;
+}
+
+/**
+ * TF-IDF vector of a term list against an IDF table
+ */
+function vectorize(terms: string[], idf: Record<string, number>): Vector {
+  const counts: Vector = {};
+  for (const term of terms) {
+    if (idf[term] !== undefined) counts[term] = (counts[term] ?? 0) + 1;
+  }
+  const vector: Vector = {};
+  for (const [term, count] of Object.entries(counts)) {
+    vector[term] = (1 + Math.log(count)) * idf[term];
+  }
+  return normalize(vector);
+}
+
+export class LocalClassifier {
+  constructor(private model: LocalModel) {}
+
+  /**
+   * Train a model from labeled documents
+   */
+  static train(documents: TrainingDocument[]): LocalClassifier {
+    const termLists = documents.map(doc => documentTerms(doc.fileName, doc.text));
+
+    // Inverse document frequency, smoothed so unseen-elsewhere terms stay finite
+    const documentFrequency: Record<string, number> = {};
+    for (const terms of termLists) {
+      for (const term of new Set(terms)) {
+        documentFrequency[term] = (documentFrequency[term] ?? 0) + 1;
+      }
+    }
+    const idf: Record<string, number> = {};
+    for (const [term, df] of Object.entries(documentFrequency)) {
+      idf[term] = Math.log((1 + documents.length) / (1 + df)) + 1;
+    }
+
+    // Each category is represented by the mean of its document vectors
+    const sums: Record<string, Vector> = {};
+    const documentCounts: Record<string, number> = {};
+    documents.forEach((doc, index) => {
+      const vector = vectorize(termLists[index], idf);
+      const sum = (sums[doc.category] ??= {});
+      for (const [term, weight] of Object.entries(vector)) {
+        sum[term] = (sum[term] ?? 0) + weight;
+      }
+      documentCounts[doc.category] = (documentCounts[doc.category] ?? 0) + 1;
+    });
+
+    const centroids: Record<string, Vector> = {};
+    for (const [category, sum] of Object.entries(sums)) {
+      centroids[category] = normalize(sum);
+    }
+
+    return new LocalClassifier({
+      version: MODEL_VERSION,
+      trainedAt: new Date().toISOString(),
+      idf,
+      centroids,
+      documentCounts
+    });
+  }
+
+  /**
+   * Load a saved model, returning null when none exists
+   */
+  static load(rootDir: string = '.'): LocalClassifier | null {
+    const file = path.join(rootDir, MODEL_FILE);
+    if (!fs.existsSync(file)) return null;
+
+    const model: LocalModel = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (model.version !== MODEL_VERSION) {
+      throw new Error(
+        `${MODEL_FILE} was saved by an incompatible version; run "doc-organize train"`
+      );
+    }
+    return new LocalClassifier(model);
+  }
+
+  /**
+   * Save the model, returning its path
+   */
+  save(rootDir: string = '.'): string {
+    const file = path.join(rootDir, MODEL_FILE);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(this.model) + '\n');
+    return file;
+  }
+
+  /**
+   * Get the underlying model
+   */
+  getModel(): LocalModel {
+    return this.model;
+  }
+
+  /**
+   * Categories the model was trained on
+   */
+  getCategories(): DocumentCategory[] {
+    return Object.keys(this.model.centroids) as DocumentCategory[];
+  }
+
+  /**
+   * Classify a document by its nearest category centroid
+   *
+   * Confidence is the similarity to the nearest centroid, lowered when the
+   * second nearest is close (see calibrateConfidence).
+   */
+  classify(
+    fileName: string,
+    text: string,
+    ambiguityPenalty: number = 0.5
+  ): LocalClassificationResult | null {
+    const vector = vectorize(documentTerms(fileName, text), this.model.idf);
+    const candidates: CategoryCandidate[] = Object.entries(this.model.centroids)
+      .map(([category, centroid]) => ({
+        category: category as DocumentCategory,
+        score: dot(vector, centroid),
+        signals: {}
+      }))
+      .filter(candidate => candidate.score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    if (candidates.length === 0) return null;
+
+    return {
+      category: candidates[0].category,
+      confidence: calibrateConfidence(candidates, ambiguityPenalty),
+      similarity: candidates[0].score,
+      alternatives: candidates.slice(1, 3).map(c => ({ category: c.category, similarity: c.score }))
+    };
+  }
+
+  /**
+   * Estimate accuracy with k-fold cross-validation
+   *
+   * Documents are assigned to folds round-robin, so results are repeatable.
+   */
+  static evaluate(documents: TrainingDocument[], folds: number = 5): LocalModelEvaluation {
+    const k = Math.max(2, Math.min(folds, documents.length));
+    const perCategory: LocalModelEvaluation['perCategory'] = {};
+    let correct = 0;
+
+    for (let fold = 0; fold < k; fold++) {
+      const training = documents.filter((_, index) => index % k !== fold);
+      const testing = documents.filter((_, index) => index % k === fold);
+      if (training.length === 0 || testing.length === 0) continue;
+
+      const classifier = LocalClassifier.train(training);
+      for (const doc of testing) {
+        const stats = (perCategory[doc.category] ??= { total: 0, correct: 0 });
+        stats.total++;
+        if (classifier.classify(doc.fileName, doc.text)?.category === doc.category) {
+          stats.correct++;
+          correct++;
+        }
+      }
+    }
+
+    return {
+      documents: documents.length,
+      folds: k,
+      correct,
+      accuracy: documents.length > 0 ? correct / documents.length : 0,
+      perCategory
+    };
+  }
+}
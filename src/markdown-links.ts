@@ -0,0 +1,306 @@
+/**
+ * Markdown link parsing and rewriting
+ *
+ * Finds inline links, image links and reference-style definitions in
+ * markdown content, and rewrites relative targets when files are moved.
+ * Wiki-links ([[Page]]) are parsed separately: they name a page rather
+ * than a path, so they are resolved against the set of documents and are
+ * not rewritten.
+ */
+
+import * as path from 'path';
+import { LinkRewrite } from './types';
+
+// Kind of link found in a document
+export type MarkdownLinkKind = 'inline' | 'image' | 'reference';
+
+// A single link target found in a document
+export interface MarkdownLink {
+  kind: MarkdownLinkKind;
+  target: string; // Raw target as written, without angle brackets
+  line: number; // 1-based
+  column: number; // 1-based column of the target
+  offset: number; // Offset of the target in the content
+  length: number; // Length of the raw target (including angle brackets)
+  angleBrackets: boolean;
+}
+
+// A wiki-link: [[Page]], [[folder/Page#Heading|label]] or an ![[embed]]
+export interface WikiLink {
+  target: string; // Page name or path, without the anchor and label
+  anchor: string | null; // Heading after #, if any
+  embed: boolean;
+  line: number; // 1-based
+  column: number; // 1-based column of the opening brackets
+}
+
+// Inline links and images: [text](target "title") / ![alt](target)
+const INLINE_LINK = /(!?)\[((?:[^[\]]|\[[^\]]*\])*)\]\(\s*(<[^>\n]*>|[^\s()]*(?:\([^\s()]*\)[^\s()]*)*)(?:\s+(?:"[^"]*"|'[^']*'|\([^)]*\)))?\s*\)/g;
+
+// Reference definitions: [id]: target "title"
+const REFERENCE_DEFINITION = /^( {0,3}\[[^\]]+\]:[ \t]*)(<[^>\n]*>|\S+)/;
+
+// Wiki-links: [[target#anchor|label]], optionally embedded with !
+const WIKI_LINK = /(!?)\[\[([^[\]|#\n]*)(?:#([^[\]|\n]*))?(?:\|[^[\]\n]*)?\]\]/g;
+
+// Fenced code block delimiters
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Replace inline code spans with spaces so their contents are not parsed
+ */
+function maskInlineCode(line: string): string {
+  return line.replace(/(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)/g, match => ' '.repeat(match.length));
+}
+
+/**
+ * Call `visit` for every line outside fenced code, with inline code masked
+ */
+function forEachProseLine(
+  content: string,
+  visit: (masked: string, lineIndex: number, lineOffset: number) => void
+): void {
+  let offset = 0;
+  let fence: string | null = null;
+
+  content.split('\n').forEach((line, index) => {
+    const fenceMatch = line.match(FENCE);
+    if (fenceMatch) {
+      const marker = fenceMatch[1];
+      if (fence === null) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = null;
+      }
+    } else if (fence === null) {
+      visit(maskInlineCode(line), index, offset);
+    }
+
+    offset += line.length + 1;
+  });
+}
+
+/**
+ * Blank out fenced code blocks and inline code, keeping line numbers
+ */
+export function maskCode(content: string): string {
+  const lines = content.split('\n').map(() => '');
+  forEachProseLine(content, (masked, index) => {
+    lines[index] = masked;
+  });
+  return lines.join('\n');
+}
+
+/**
+ * Parse all links in markdown content, skipping fenced and inline code
+ */
+export function parseMarkdownLinks(content: string): MarkdownLink[] {
+  const links: MarkdownLink[] = [];
+
+  forEachProseLine(content, (masked, index, offset) => {
+    const reference = masked.match(REFERENCE_DEFINITION);
+    if (reference) {
+      const raw = reference[2];
+      const column = reference[1].length;
+      links.push(createLink('reference', raw, index, column, offset));
+    } else {
+      INLINE_LINK.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = INLINE_LINK.exec(masked)) !== null) {
+        const raw = match[3];
+        if (!raw) continue;
+        const openParen = match.index + match[1].length + match[2].length + 2;
+        const column = masked.indexOf(raw, openParen + 1);
+        links.push(createLink(match[1] ? 'image' : 'inline', raw, index, column, offset));
+      }
+    }
+  });
+
+  return links;
+}
+
+/**
+ * Parse all wiki-links in markdown content, skipping fenced and inline code
+ */
+export function parseWikiLinks(content: string): WikiLink[] {
+  const links: WikiLink[] = [];
+
+  forEachProseLine(content, (masked, index) => {
+    WIKI_LINK.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = WIKI_LINK.exec(masked)) !== null) {
+      const target = match[2].trim();
+      const anchor = match[3]?.trim() || null;
+      if (!target && !anchor) continue;
+      links.push({
+        target,
+        anchor,
+        embed: match[1] === '!',
+        line: index + 1,
+        column: match.index + 1
+      });
+    }
+  });
+
+  return links;
+}
+
+function createLink(
+  kind: MarkdownLinkKind,
+  raw: string,
+  lineIndex: number,
+  column: number,
+  lineOffset: number
+): MarkdownLink {
+  const angleBrackets = raw.startsWith('<') && raw.endsWith('>');
+  return {
+    kind,
+    target: angleBrackets ? raw.slice(1, -1) : raw,
+    line: lineIndex + 1,
+    column: column + 1,
+    offset: lineOffset + column,
+    length: raw.length,
+    angleBrackets
+  };
+}
+
+/**
+ * Whether a link target points at a relative file path
+ */
+export function isRelativeLink(target: string): boolean {
+  if (target === '' || target.startsWith('#') || target.startsWith('/')) return false;
+  // URLs and other schemes (http:, mailto:, data:, ...)
+  if (/^[a-z][a-z0-9+.-]*:/i.test(target)) return false;
+  return true;
+}
+
+/**
+ * Split a link target into its path and its `#anchor` / `?query` suffix
+ */
+export function splitLinkTarget(target: string): { path: string; suffix: string } {
+  const index = target.search(/[#?]/);
+  if (index === -1) return { path: target, suffix: '' };
+  return { path: target.slice(0, index), suffix: target.slice(index) };
+}
+
+/**
+ * Normalize a file path to the forward-slash form used for link resolution
+ */
+export function toLinkPath(filePath: string): string {
+  return path.posix.normalize(filePath.split(path.sep).join('/'));
+}
+
+function decodeLinkPath(linkPath: string): string {
+  try {
+    return decodeURI(linkPath);
+  } catch {
+    return linkPath;
+  }
+}
+
+/**
+ * Resolve a relative link target against the file containing it
+ */
+export function resolveLinkTarget(fromFile: string, target: string): string | null {
+  if (!isRelativeLink(target)) return null;
+  const { path: linkPath } = splitLinkTarget(target);
+  if (linkPath === '') return null;
+  return path.posix.normalize(
+    path.posix.join(path.posix.dirname(toLinkPath(fromFile)), decodeLinkPath(linkPath))
+  );
+}
+
+/**
+ * Build the relative link from one file to a target path
+ */
+function buildRelativeLink(fromFile: string, targetPath: string, original: string): string {
+  let relative = path.posix.relative(path.posix.dirname(fromFile), targetPath);
+  if (relative === '') relative = path.posix.basename(targetPath);
+  if (original.endsWith('/') && !relative.endsWith('/')) relative += '/';
+  if (original.startsWith('./') && !relative.startsWith('../')) relative = './' + relative;
+  return relative;
+}
+
+/**
+ * Rewrite the relative links in a document after a set of moves
+ *
+ * `moves` maps old paths to new paths (normalized with `toLinkPath`).
+ * `oldFile` is where the document lived when its links were written and
+ * `newFile` is where it lives now; they are equal for documents that did not move.
+ * Reported positions refer to the rewritten content.
+ */
+export function rewriteLinksForMoves(
+  content: string,
+  oldFile: string,
+  newFile: string,
+  moves: Map<string, string>
+): { content: string; rewrites: LinkRewrite[] } {
+  const from = toLinkPath(oldFile);
+  const to = toLinkPath(newFile);
+  const rewrites: LinkRewrite[] = [];
+  const parts: string[] = [];
+  let cursor = 0;
+  let currentLine = 0;
+  let lineDelta = 0;
+
+  for (const link of parseMarkdownLinks(content)) {
+    const resolved = resolveLinkTarget(from, link.target);
+    if (!resolved) continue;
+
+    const movedTarget = moves.get(resolved) ?? resolved;
+    if (from === to && movedTarget === resolved) continue;
+
+    const { path: linkPath, suffix } = splitLinkTarget(link.target);
+    let newPath = buildRelativeLink(to, movedTarget, linkPath);
+    if (!link.angleBrackets && linkPath !== decodeLinkPath(linkPath)) {
+      newPath = encodeURI(newPath);
+    } else if (!link.angleBrackets) {
+      newPath = newPath.replace(/ /g, '%20');
+    }
+
+    const newTarget = newPath + suffix;
+    if (newTarget === link.target) continue;
+
+    const replacement = link.angleBrackets ? `<${newTarget}>` : newTarget;
+    parts.push(content.slice(cursor, link.offset), replacement);
+    cursor = link.offset + link.length;
+
+    // Earlier rewrites on the same line shift later columns
+    if (link.line !== currentLine) {
+      currentLine = link.line;
+      lineDelta = 0;
+    }
+    rewrites.push({
+      file: newFile,
+      line: link.line,
+      column: link.column + lineDelta,
+      kind: link.kind,
+      from: link.target,
+      to: newTarget
+    });
+    lineDelta += replacement.length - link.length;
+  }
+
+  parts.push(content.slice(cursor));
+  return { content: parts.join(''), rewrites };
+}
+
+/**
+ * Undo link rewrites in content produced by `rewriteLinksForMoves`
+ */
+export function revertLinkRewrites(content: string, rewrites: LinkRewrite[]): string {
+  const lines = content.split('\n');
+
+  // Revert back to front so earlier columns stay valid
+  const ordered = [...rewrites].sort((a, b) => b.line - a.line || b.column - a.column);
+  for (const rewrite of ordered) {
+    const line = lines[rewrite.line - 1];
+    if (line === undefined) continue;
+    const start = rewrite.column - 1;
+    const index = line.indexOf(rewrite.to, start);
+    if (index === -1 || index > start + 1) continue;
+    lines[rewrite.line - 1] = line.slice(0, index) + rewrite.from + line.slice(index + rewrite.to.length);
+  }
+
+  return lines.join('\n');
+}
@@ -8,6 +8,9 @@
  * - analyze_docs: Scan and return organization suggestions
  * - apply_organization: Execute file moves
  * - health_check: Return documentation health metrics
+ * - check_links: Report broken relative links and anchors
+ * - health_trend: Show the recorded health score history and regressions
+ * - undo_organization: Revert a previous apply_organization run
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
@@ -17,14 +20,13 @@ import {
   ListToolsRequestSchema,
   Tool
 } from '@modelcontextprotocol/sdk/types.js';
-import * as fs from 'fs';
-import * as path from 'path';
 
-import { HealthCheckResult, OrganizationSuggestion, ApplyMovesResult } from './types';
-
-// Import the DocumentationOrganizer from the JS file
-// eslint-disable-next-line @typescript-eslint/no-var-requires
-const DocumentationOrganizer = require('../doc-organizer.js');
+import { OrganizationSuggestion, ProjectType } from './types';
+import { DocumentationOrganizer, loadConfiguration, UserConfig } from './organizer';
+import { undoJournal } from './journal';
+import { checkHealth, healthGrade, healthRecommendations } from './health-check';
+import { checkLinks } from './link-checker';
+import { compareSnapshots, createSnapshot, findSnapshot, readHistory, recordSnapshot } from './health-history';
 
 // Tool definitions
 const TOOLS: Tool[] = [
@@ -40,8 +42,8 @@ const TOOLS: Tool[] = [
         },
         projectType: {
           type: 'string',
-          enum: ['web-app', 'library', 'api', 'data-science', 'mobile'],
-          description: 'Project type for context-aware classification. Defaults to web-app.'
+          enum: ['web-app', 'library', 'api', 'data-science', 'mobile', 'auto'],
+          description: 'Project type for context-aware classification. "auto" detects it from package.json, Python project files, notebooks, OpenAPI documents and mobile build files. Defaults to the project config, else web-app.'
         },
         useAI: {
           type: 'boolean',
@@ -49,7 +51,16 @@ const TOOLS: Tool[] = [
         },
         minConfidence: {
           type: 'number',
-          description: 'Minimum confidence threshold for suggestions (0-1). Defaults to 0.7.'
+          description: 'Minimum confidence threshold for suggestions (0-1). Defaults to the project config, else 0.7.'
+        },
+        useIgnoreFiles: {
+          type: 'boolean',
+          description: 'Whether to skip paths matched by .gitignore and .doc-organizerignore files. Defaults to the project config, else true.'
+        },
+        extensions: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Document extensions to scan, e.g. [".md", ".mdx", ".rst"]. Defaults to the project config, else [".md"].'
         }
       },
       required: []
@@ -57,7 +68,7 @@ const TOOLS: Tool[] = [
   },
   {
     name: 'apply_organization',
-    description: 'Apply suggested file moves from analyze_docs. Only applies high-confidence moves by default.',
+    description: 'Apply suggested file moves from analyze_docs. Only applies high-confidence moves by default. Tracked files are moved with git mv to preserve history.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -79,11 +90,15 @@ const TOOLS: Tool[] = [
         },
         minConfidence: {
           type: 'number',
-          description: 'Minimum confidence to auto-apply (0-1). Defaults to 0.8.'
+          description: 'Minimum confidence to auto-apply (0-1). Defaults to the project config, else 0.8.'
         },
         dryRun: {
           type: 'boolean',
           description: 'If true, only report what would be moved without executing. Defaults to false.'
+        },
+        force: {
+          type: 'boolean',
+          description: 'Move git-tracked files even if they have uncommitted changes. Defaults to false.'
         }
       },
       required: []
@@ -91,7 +106,7 @@ const TOOLS: Tool[] = [
   },
   {
     name: 'health_check',
-    description: 'Check documentation health including stale files, orphans, naming violations, and overall organization score.',
+    description: 'Check documentation health including stale files (by last git commit, with age, author and a freshness score per file), orphans, broken links, naming violations, out-of-date folder indexes, and overall organization score.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -102,6 +117,72 @@ const TOOLS: Tool[] = [
         staleDays: {
           type: 'number',
           description: 'Number of days after which a file is considered stale. Defaults to 90.'
+        },
+        compareCode: {
+          type: 'boolean',
+          description: 'Also lower the freshness of docs whose referenced code was committed after them. Defaults to false.'
+        },
+        record: {
+          type: 'boolean',
+          description: 'Append a snapshot (score, issue counts, commit, time) to .doc-organizer/history.json. Defaults to false.'
+        }
+      },
+      required: []
+    }
+  },
+  {
+    name: 'check_links',
+    description: 'Check every relative link and image in the docs, including #heading anchors (GitHub slug rules). Reports broken targets with file, line and column, and suggests the closest existing target for moved or renamed files.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        directory: {
+          type: 'string',
+          description: 'Root directory to check. Defaults to current working directory.'
+        }
+      },
+      required: []
+    }
+  },
+  {
+    name: 'health_trend',
+    description: 'Show the health score over time from snapshots recorded by health_check, and which issues regressed since a given snapshot.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        directory: {
+          type: 'string',
+          description: 'Root directory. Defaults to current working directory.'
+        },
+        since: {
+          type: 'string',
+          description: 'Snapshot to compare the latest one against: a commit SHA (or prefix) or a date. Defaults to the previous snapshot.'
+        },
+        limit: {
+          type: 'number',
+          description: 'Number of most recent snapshots to return. Defaults to 20.'
+        }
+      },
+      required: []
+    }
+  },
+  {
+    name: 'undo_organization',
+    description: 'Revert a previous apply_organization run using its journal: moves files back, reverts rewritten links and removes created directories.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        directory: {
+          type: 'string',
+          description: 'Root directory. Defaults to current working directory.'
+        },
+        id: {
+          type: 'string',
+          description: 'Journal id returned by apply_organization. Defaults to the most recent run that has not been undone.'
+        },
+        force: {
+          type: 'boolean',
+          description: 'Undo even if files changed after the move. Defaults to false.'
         }
       },
       required: []
@@ -142,6 +223,15 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       case 'health_check':
         return await handleHealthCheck(args);
 
+      case 'check_links':
+        return await handleCheckLinks(args);
+
+      case 'health_trend':
+        return await handleHealthTrend(args);
+
+      case 'undo_organization':
+        return await handleUndoOrganization(args);
+
       default:
         return {
           content: [{ type: 'text', text: `Unknown tool: ${name}` }],
@@ -162,48 +252,56 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
  */
 async function handleAnalyzeDocs(args: Record<string, unknown> | undefined) {
   const directory = (args?.directory as string) || process.cwd();
-  const projectType = (args?.projectType as string) || 'web-app';
-  const minConfidence = (args?.minConfidence as number) || 0.7;
-
-  // Change to target directory
-  const originalCwd = process.cwd();
-  process.chdir(directory);
-
-  try {
-    const config = {
-      projectType,
-      thresholds: {
-        suggest: minConfidence
-      }
-    };
-
-    const organizer = new DocumentationOrganizer(config);
-    const stats = organizer.generateSuggestions();
-    const suggestions: OrganizationSuggestion[] = organizer.suggestions;
-
-    const result = {
-      directory,
-      projectType,
-      totalFiles: stats.files,
-      misplacedFiles: stats.misplaced,
-      suggestions: suggestions.map(s => ({
-        current: s.current,
-        suggested: s.suggested,
-        category: s.category,
-        confidence: Math.round(s.confidence * 100) + '%',
-        reasons: s.reasons
-      }))
-    };
-
-    return {
-      content: [{
-        type: 'text',
-        text: JSON.stringify(result, null, 2)
-      }]
-    };
-  } finally {
-    process.chdir(originalCwd);
-  }
+  const projectType = args?.projectType as ProjectType | 'auto' | undefined;
+  const minConfidence = args?.minConfidence as number | undefined;
+  const useIgnoreFiles = args?.useIgnoreFiles as boolean | undefined;
+  const extensions = args?.extensions as string[] | undefined;
+
+  // Tool arguments override the project config
+  const loaded = loadConfiguration(directory);
+  const config: UserConfig = {
+    ...loaded,
+    rootDir: directory,
+    useIgnoreFiles: useIgnoreFiles ?? loaded.useIgnoreFiles,
+    extensions: extensions ?? loaded.extensions,
+    projectType: projectType ?? loaded.projectType,
+    thresholds: { ...loaded.thresholds, ...(minConfidence ? { suggest: minConfidence } : {}) }
+  };
+
+  const organizer = new DocumentationOrganizer(config);
+  const stats = organizer.generateSuggestions();
+  const suggestions: OrganizationSuggestion[] = organizer.suggestions;
+
+  const result = {
+    directory,
+    projectType: organizer.config.projectType,
+    projectDetection: organizer.projectDetection,
+    totalFiles: stats.files,
+    misplacedFiles: stats.misplaced,
+    ignoredFiles: stats.ignored,
+    suppressedFiles: stats.suppressed,
+    suggestions: suggestions.map(s => ({
+      current: s.current,
+      suggested: s.suggested,
+      category: s.category,
+      confidence: Math.round(s.confidence * 100) + '%',
+      reasons: s.reasons
+    })),
+    collisions: organizer.collisions,
+    contradictedRules: organizer.getContradictedRules(),
+    categories: organizer.getCategories().map(({ name, description, destination }) => ({
+      name,
+      description,
+      destination
+    }))
+  };
+
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify(result, null, 2)
+    }]
+  };
 }
 
 /**
@@ -211,88 +309,48 @@ async function handleAnalyzeDocs(args: Record<string, unknown> | undefined) {
  */
 async function handleApplyOrganization(args: Record<string, unknown> | undefined) {
   const directory = (args?.directory as string) || process.cwd();
-  const minConfidence = (args?.minConfidence as number) || 0.8;
+  const minConfidence = args?.minConfidence as number | undefined;
   const dryRun = (args?.dryRun as boolean) || false;
+  const force = (args?.force as boolean) || false;
   const providedSuggestions = args?.suggestions as Array<{ current: string; suggested: string }> | undefined;
 
-  const originalCwd = process.cwd();
-  process.chdir(directory);
-
-  try {
-    let suggestions: OrganizationSuggestion[];
-
-    if (providedSuggestions && providedSuggestions.length > 0) {
-      // Use provided suggestions
-      suggestions = providedSuggestions.map(s => ({
-        current: s.current,
-        suggested: s.suggested,
-        category: 'unknown' as const,
-        confidence: 1,
-        reasons: ['user-provided']
-      }));
-    } else {
-      // Run analysis first
-      const organizer = new DocumentationOrganizer({
-        thresholds: { autoApply: minConfidence }
-      });
-      organizer.generateSuggestions();
-      suggestions = organizer.suggestions.filter(
-        (s: OrganizationSuggestion) => s.confidence >= minConfidence
-      );
-    }
-
-    const result: ApplyMovesResult = {
-      successful: 0,
-      failed: 0,
-      moves: []
-    };
-
-    for (const suggestion of suggestions) {
-      const moveResult = {
-        from: suggestion.current,
-        to: suggestion.suggested,
-        success: false,
-        error: undefined as string | undefined
-      };
-
-      if (dryRun) {
-        moveResult.success = true;
-        result.successful++;
-      } else {
-        try {
-          // Ensure destination directory exists
-          const destDir = path.dirname(suggestion.suggested);
-          if (!fs.existsSync(destDir)) {
-            fs.mkdirSync(destDir, { recursive: true });
-          }
-
-          // Move the file
-          fs.renameSync(suggestion.current, suggestion.suggested);
-          moveResult.success = true;
-          result.successful++;
-        } catch (error) {
-          moveResult.success = false;
-          moveResult.error = error instanceof Error ? error.message : 'Unknown error';
-          result.failed++;
-        }
-      }
-
-      result.moves.push(moveResult);
-    }
-
-    return {
-      content: [{
-        type: 'text',
-        text: JSON.stringify({
-          ...result,
-          dryRun,
-          directory
-        }, null, 2)
-      }]
-    };
-  } finally {
-    process.chdir(originalCwd);
+  // Tool arguments override the project config
+  const loaded = loadConfiguration(directory);
+  const organizer = new DocumentationOrganizer({
+    ...loaded,
+    rootDir: directory,
+    thresholds: { ...loaded.thresholds, ...(minConfidence ? { autoApply: minConfidence } : {}) }
+  });
+  let suggestions: OrganizationSuggestion[];
+
+  if (providedSuggestions && providedSuggestions.length > 0) {
+    // Use provided suggestions
+    suggestions = providedSuggestions.map(s => ({
+      current: s.current,
+      suggested: s.suggested,
+      category: 'unknown' as const,
+      confidence: 1,
+      reasons: ['user-provided']
+    }));
+  } else {
+    // Run analysis first
+    organizer.generateSuggestions();
+    suggestions = organizer.getHighConfidenceSuggestions();
   }
+
+  // Moves files (git mv for tracked files) and rewrites relative links
+  const result = organizer.applySuggestions(suggestions, { dryRun, force });
+
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        ...result,
+        dryRun,
+        directory
+      }, null, 2)
+    }]
+  };
 }
 
 /**
@@ -301,100 +359,101 @@ async function handleApplyOrganization(args: Record<string, unknown> | undefined
 async function handleHealthCheck(args: Record<string, unknown> | undefined) {
   const directory = (args?.directory as string) || process.cwd();
   const staleDays = (args?.staleDays as number) || 90;
+  const compareCode = (args?.compareCode as boolean) || false;
+  const record = (args?.record as boolean) || false;
+
+  const organizer = new DocumentationOrganizer({ ...loadConfiguration(directory), rootDir: directory });
+  const result = checkHealth(organizer, { staleDays, compareCode });
+  const recommendations = healthRecommendations(result, staleDays);
+  if (record) {
+    recordSnapshot(createSnapshot(result, directory), directory);
+  }
 
-  const originalCwd = process.cwd();
-  process.chdir(directory);
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        ...result,
+        directory,
+        staleDays,
+        recommendations,
+        healthGrade: healthGrade(result.healthScore),
+        recorded: record
+      }, null, 2)
+    }]
+  };
+}
 
-  try {
-    const organizer = new DocumentationOrganizer({});
-    const stats = organizer.generateSuggestions();
-    const namingViolations = organizer.checkNamingConventions();
-
-    // Find stale files (not modified in staleDays)
-    const staleThreshold = Date.now() - staleDays * 24 * 60 * 60 * 1000;
-    const allFiles = organizer.getAllMdFiles();
-    const staleFiles: string[] = [];
-    const orphanedFiles: string[] = [];
-
-    for (const file of allFiles) {
-      try {
-        const stat = fs.statSync(file);
-        if (stat.mtimeMs < staleThreshold) {
-          staleFiles.push(file);
-        }
+/**
+ * Handle check_links tool
+ */
+async function handleCheckLinks(args: Record<string, unknown> | undefined) {
+  const directory = (args?.directory as string) || process.cwd();
 
-        // Check for orphaned files (not referenced anywhere)
-        const isReferenced = allFiles.some((otherFile: string) => {
-          if (otherFile === file) return false;
-          try {
-            const content = fs.readFileSync(otherFile, 'utf8');
-            const basename = path.basename(file);
-            return content.includes(basename);
-          } catch {
-            return false;
-          }
-        });
-
-        // Files in root that aren't referenced and aren't protected
-        const isProtected = ['README.md', 'CHANGELOG.md', 'LICENSE.md', 'CLAUDE.md'].includes(
-          path.basename(file)
-        );
-        const isInRoot = path.dirname(file) === '.';
-        if (isInRoot && !isReferenced && !isProtected) {
-          orphanedFiles.push(file);
-        }
-      } catch {
-        // Skip files we can't stat
-      }
-    }
+  const organizer = new DocumentationOrganizer({ ...loadConfiguration(directory), rootDir: directory });
+  const brokenLinks = checkLinks(organizer);
+
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        directory,
+        totalFiles: organizer.getAllMdFiles().length,
+        brokenCount: brokenLinks.length,
+        brokenLinks
+      }, null, 2)
+    }]
+  };
+}
 
-    // Calculate health score (0-100)
-    const misplacedPenalty = (stats.misplaced / Math.max(stats.files, 1)) * 30;
-    const stalePenalty = (staleFiles.length / Math.max(allFiles.length, 1)) * 20;
-    const orphanPenalty = (orphanedFiles.length / Math.max(allFiles.length, 1)) * 20;
-    const namingPenalty = (namingViolations.length / Math.max(allFiles.length, 1)) * 30;
-
-    const healthScore = Math.max(0, Math.round(100 - misplacedPenalty - stalePenalty - orphanPenalty - namingPenalty));
-
-    const result: HealthCheckResult = {
-      totalFiles: stats.files,
-      misplacedFiles: stats.misplaced,
-      staleFiles,
-      orphanedFiles,
-      namingViolations,
-      healthScore
-    };
+/**
+ * Handle health_trend tool
+ */
+async function handleHealthTrend(args: Record<string, unknown> | undefined) {
+  const directory = (args?.directory as string) || process.cwd();
+  const since = args?.since as string | undefined;
+  const limit = (args?.limit as number) || 20;
+
+  const history = readHistory(directory);
+  const latest = history[history.length - 1] ?? null;
+  const baseline = since !== undefined ? findSnapshot(history, since) : history[history.length - 2] ?? null;
+  if (since !== undefined && baseline === null) {
+    throw new Error(`No snapshot matches "${since}"`);
+  }
 
-    // Add recommendations
-    const recommendations: string[] = [];
-    if (stats.misplaced > 0) {
-      recommendations.push(`Move ${stats.misplaced} misplaced files using apply_organization`);
-    }
-    if (staleFiles.length > 0) {
-      recommendations.push(`Review ${staleFiles.length} stale files (not updated in ${staleDays} days)`);
-    }
-    if (orphanedFiles.length > 0) {
-      recommendations.push(`Check ${orphanedFiles.length} orphaned files (not referenced)`);
-    }
-    if (namingViolations.length > 0) {
-      recommendations.push(`Fix ${namingViolations.length} naming convention violations`);
-    }
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        directory,
+        snapshots: history.slice(-limit),
+        baseline,
+        latest,
+        regressions: baseline && latest ? compareSnapshots(baseline, latest) : []
+      }, null, 2)
+    }]
+  };
+}
 
-    return {
-      content: [{
-        type: 'text',
-        text: JSON.stringify({
-          ...result,
-          directory,
-          staleDays,
-          recommendations,
-          healthGrade: healthScore >= 90 ? 'A' : healthScore >= 80 ? 'B' : healthScore >= 70 ? 'C' : healthScore >= 60 ? 'D' : 'F'
-        }, null, 2)
-      }]
-    };
-  } finally {
-    process.chdir(originalCwd);
-  }
+/**
+ * Handle undo_organization tool
+ */
+async function handleUndoOrganization(args: Record<string, unknown> | undefined) {
+  const directory = (args?.directory as string) || process.cwd();
+  const id = args?.id as string | undefined;
+  const force = (args?.force as boolean) || false;
+
+  const result = undoJournal(id, { force }, directory);
+
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        ...result,
+        directory
+      }, null, 2)
+    }]
+  };
 }
 
 // Main entry point
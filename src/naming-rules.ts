@@ -0,0 +1,269 @@
+/**
+ * File naming rules
+ *
+ * Checks file names against configurable conventions (case style, required
+ * prefixes and suffixes, maximum length, forbidden words and names, date or
+ * sequence prefixes for ADRs, spaces and uppercase) and computes a compliant
+ * name for the problems that can be fixed by renaming.
+ */
+
+import { CaseStyle, NamingIssue, NamingRule, NamingSeverity } from './types';
+import { validatePathPattern } from './path-patterns';
+
+// Built-in rules; configured rules with the same name replace them
+export const DEFAULT_NAMING_RULES: NamingRule[] = [
+  {
+    name: 'vague-names',
+    forbiddenNames: ['doc', 'file', 'guide'],
+    message: 'Vague naming - be more specific'
+  },
+  {
+    name: 'feature-kebab-case',
+    categories: ['features'],
+    case: 'kebab-case',
+    message: 'Feature files should use kebab-case with descriptive names'
+  }
+];
+
+const SEVERITIES: NamingSeverity[] = ['error', 'warning', 'info', 'off'];
+
+const CASE_PATTERNS: Record<CaseStyle, RegExp> = {
+  'kebab-case': /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+  snake_case: /^[a-z0-9]+(?:_[a-z0-9]+)*$/,
+  camelCase: /^[a-z][a-z0-9]*(?:[A-Z][a-z0-9]*)*$/,
+  PascalCase: /^(?:[A-Z][a-z0-9]*)+$/
+};
+
+// Tokens of a datePrefix format
+const DATE_TOKENS = /YYYY|MM|DD|N+|[-_.]/g;
+
+// Files in the same directory and when the file was last modified, for date and sequence prefixes
+export interface NamingContext {
+  modified: Date;
+  siblings: string[]; // Names without extension
+}
+
+/**
+ * Check a naming rule, returning a description of the problem or null if valid
+ */
+export function validateNamingRule(rule: NamingRule): string | null {
+  if (!rule || typeof rule.name !== 'string' || rule.name === '') {
+    return 'name is required';
+  }
+  if (rule.severity !== undefined && !SEVERITIES.includes(rule.severity)) {
+    return `severity must be one of ${SEVERITIES.join(', ')}`;
+  }
+  if (rule.case !== undefined && !(rule.case in CASE_PATTERNS)) {
+    return `case must be one of ${Object.keys(CASE_PATTERNS).join(', ')}`;
+  }
+  if (rule.maxLength !== undefined && !(Number.isInteger(rule.maxLength) && rule.maxLength > 0)) {
+    return 'maxLength must be a positive integer';
+  }
+  if (rule.datePrefix !== undefined && rule.datePrefix.replace(DATE_TOKENS, '') !== '') {
+    return `datePrefix "${rule.datePrefix}" may only contain YYYY, MM, DD, N... and - _ .`;
+  }
+  for (const pattern of rule.directories ?? []) {
+    const problem = validatePathPattern(pattern);
+    if (problem) return `directory "${pattern}": ${problem}`;
+  }
+  return null;
+}
+
+/**
+ * Merge naming rules by name, later fields taking precedence
+ */
+export function mergeNamingRules(base: NamingRule[], overrides: NamingRule[]): NamingRule[] {
+  const merged = new Map(base.map(rule => [rule.name, { ...rule }]));
+  for (const rule of overrides) {
+    merged.set(rule.name, { ...merged.get(rule.name), ...rule });
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Split a name into words on separators and case changes
+ */
+export function splitWords(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Convert a name to a case style
+ */
+export function toCase(name: string, style: CaseStyle): string {
+  const words = splitWords(name).map(word => word.toLowerCase());
+  const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+  switch (style) {
+    case 'kebab-case':
+      return words.join('-');
+    case 'snake_case':
+      return words.join('_');
+    case 'camelCase':
+      return words.map((word, i) => (i === 0 ? word : capitalize(word))).join('');
+    case 'PascalCase':
+      return words.map(capitalize).join('');
+  }
+}
+
+/**
+ * Regex matching a datePrefix format at the start of a name; the sequence
+ * number (N...) is captured
+ */
+function compileDatePrefix(format: string): RegExp {
+  const source = format.replace(DATE_TOKENS, token => {
+    if (token === 'YYYY') return '\\d{4}';
+    if (token === 'MM') return '(?:0[1-9]|1[0-2])';
+    if (token === 'DD') return '(?:0[1-9]|[12]\\d|3[01])';
+    if (token.startsWith('N')) return `(\\d{${token.length}})`;
+    return `\\${token}`;
+  });
+  // The prefix must be followed by a separator (or be the whole name)
+  return new RegExp(`^${source}(?=[-_. ]|$)[-_. ]?`);
+}
+
+/**
+ * Format a date prefix for a modification date and sequence number
+ */
+function formatDatePrefix(format: string, date: Date, sequence: number): string {
+  const pad = (value: number, length: number) => String(value).padStart(length, '0');
+  return format.replace(DATE_TOKENS, token => {
+    if (token === 'YYYY') return pad(date.getFullYear(), 4);
+    if (token === 'MM') return pad(date.getMonth() + 1, 2);
+    if (token === 'DD') return pad(date.getDate(), 2);
+    if (token.startsWith('N')) return pad(sequence, token.length);
+    return token;
+  });
+}
+
+/**
+ * Next free sequence number among names with a datePrefix
+ */
+function nextSequence(format: string, siblings: string[]): number {
+  const regex = compileDatePrefix(format);
+  const numbers = siblings.map(name => Number(regex.exec(name)?.[1] ?? 0));
+  return Math.max(0, ...numbers) + 1;
+}
+
+/**
+ * Strip separators left at the ends of a name
+ */
+function trimSeparators(name: string): string {
+  return name.replace(/^[-_. ]+|[-_. ]+$/g, '');
+}
+
+/**
+ * Words of a name that a rule forbids
+ */
+function forbiddenWordsIn(name: string, rule: NamingRule): string[] {
+  const forbidden = new Set((rule.forbiddenWords ?? []).map(word => word.toLowerCase()));
+  return splitWords(name).filter(word => forbidden.has(word.toLowerCase()));
+}
+
+/**
+ * Check a file name (without extension) against one rule
+ */
+export function checkName(name: string, rule: NamingRule): NamingIssue[] {
+  const severity = rule.severity ?? 'warning';
+  if (severity === 'off') return [];
+
+  const problems: Array<[string, boolean]> = [];
+  const datePrefix = rule.datePrefix ? compileDatePrefix(rule.datePrefix).exec(name) : null;
+  const body = datePrefix ? name.slice(datePrefix[0].length) : name;
+
+  if (rule.forbiddenNames?.some(forbidden => forbidden.toLowerCase() === name.toLowerCase())) {
+    problems.push([`name "${name}" is not allowed`, false]);
+  }
+  const forbidden = forbiddenWordsIn(name, rule);
+  for (const word of new Set(forbidden)) {
+    problems.push([`contains forbidden word "${word}"`, splitWords(name).length > forbidden.length]);
+  }
+  if (rule.noSpaces && /\s/.test(name)) {
+    problems.push(['contains spaces', true]);
+  }
+  if (rule.noUppercase && /[A-Z]/.test(name)) {
+    problems.push(['contains uppercase letters', true]);
+  }
+  if (rule.datePrefix && !datePrefix) {
+    problems.push([`should start with a ${rule.datePrefix} prefix`, true]);
+  }
+  if (rule.prefix?.length && !rule.prefix.some(prefix => name.startsWith(prefix))) {
+    problems.push([`should start with ${rule.prefix.map(p => `"${p}"`).join(' or ')}`, true]);
+  }
+  if (rule.suffix?.length && !rule.suffix.some(suffix => name.endsWith(suffix))) {
+    problems.push([`should end with ${rule.suffix.map(s => `"${s}"`).join(' or ')}`, true]);
+  }
+  if (rule.case && body !== '' && !CASE_PATTERNS[rule.case].test(body)) {
+    problems.push([`should be ${rule.case}`, splitWords(body).length > 0]);
+  }
+  if (rule.maxLength && name.length > rule.maxLength) {
+    problems.push([`is longer than ${rule.maxLength} characters (${name.length})`, true]);
+  }
+
+  return problems.map(([message, fixable]) => ({
+    rule: rule.name,
+    severity,
+    message: rule.message ?? message,
+    fixable
+  }));
+}
+
+/**
+ * Rename a file name (without extension) to comply with the rules
+ *
+ * Problems that cannot be fixed by renaming (forbidden names) are left.
+ */
+export function fixName(name: string, rules: NamingRule[], context: NamingContext): string {
+  let fixed = name;
+
+  for (const rule of rules) {
+    if ((rule.severity ?? 'warning') === 'off') continue;
+
+    const forbidden = forbiddenWordsIn(fixed, rule);
+    if (forbidden.length > 0 && splitWords(fixed).length > forbidden.length) {
+      const separator = /[-_ ]/.exec(fixed)?.[0] ?? '-';
+      fixed = splitWords(fixed)
+        .filter(word => !forbidden.includes(word))
+        .join(separator);
+    }
+    if (rule.noSpaces) {
+      fixed = fixed.replace(/\s+/g, rule.case === 'snake_case' ? '_' : '-');
+    }
+
+    // Keep an existing date prefix out of case conversion and truncation
+    const existing = rule.datePrefix ? compileDatePrefix(rule.datePrefix).exec(fixed) : null;
+    let prefix = existing ? existing[0] : '';
+    let body = existing ? fixed.slice(prefix.length) : fixed;
+    if (rule.datePrefix && !existing) {
+      const sequence = nextSequence(rule.datePrefix, context.siblings);
+      prefix = `${formatDatePrefix(rule.datePrefix, context.modified, sequence)}${
+        rule.case === 'snake_case' ? '_' : '-'
+      }`;
+    }
+
+    if (rule.case && splitWords(body).length > 0 && !CASE_PATTERNS[rule.case].test(body)) {
+      body = toCase(body, rule.case);
+    }
+    if (rule.noUppercase) {
+      body = body.toLowerCase();
+    }
+    if (rule.prefix?.length && !rule.prefix.some(p => `${prefix}${body}`.startsWith(p))) {
+      body = `${rule.prefix[0]}${body}`;
+    }
+    const suffix =
+      rule.suffix?.length && !rule.suffix.some(s => body.endsWith(s)) ? rule.suffix[0] : '';
+    if (rule.maxLength && prefix.length + body.length + suffix.length > rule.maxLength) {
+      // Cut at a word boundary when one is close enough
+      const room = Math.max(1, rule.maxLength - prefix.length - suffix.length);
+      const cut = body.slice(0, room);
+      const boundary = cut.search(/[-_. ][^-_. ]*$/);
+      body = trimSeparators(boundary > room / 2 ? cut.slice(0, boundary) : cut);
+    }
+    fixed = `${prefix}${body}${suffix}`;
+  }
+
+  return fixed;
+}
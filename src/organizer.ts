@@ -1,7 +1,7 @@
 /**
  * DocumentationOrganizer - Core documentation organization logic
  *
- * Analyzes and organizes markdown documentation files based on
+ * Analyzes and organizes documentation files based on
  * configurable patterns and project type awareness.
  */
 
@@ -13,33 +13,122 @@ import {
   DocOrganizerConfig,
   FileAnalysis,
   OrganizationSuggestion,
-  AIConfig
+  AIConfig,
+  ApplyMovesOptions,
+  ApplyMovesResult,
+  LinkRewrite,
+  JournalEntry,
+  DestinationCollision,
+  DocDirectives,
+  OutlineRule,
+  LocalModelEvaluation,
+  Decision,
+  DecisionAction,
+  ContradictedRule,
+  ProjectTypeDetection,
+  CategoryDefinition,
+  NamingIssue,
+  NamingRule
 } from './types';
 import { AIClassifier } from './ai-classifier';
+import { rewriteLinksForMoves, toLinkPath } from './markdown-links';
+import { createJournalId, hashFile, writeJournal } from './journal';
+import { isGitRepository, moveFile, MoveMethod } from './git';
+import { PathMatcher, parseIgnoreFile } from './path-patterns';
+import {
+  getDocumentFormat,
+  hasMarkdownLinks,
+  normalizeExtension
+} from './doc-formats';
+import { parseDirectives, parseFrontMatter, stripFrontMatter } from './front-matter';
+import { calibrateConfidence, describeSignals, scoreCategories } from './scoring';
+import { LocalClassifier, TrainingDocument } from './local-classifier';
+import {
+  findContradictedRules,
+  findDecision,
+  hashDocument,
+  readDecisions,
+  recordDecision
+} from './decisions';
+import { buildOutline, flattenHeadings, matchOutlineRules, validateOutlineRule } from './outline';
+import { ConfigValueSource, explainConfig } from './config-schema';
+import { detectProjectType } from './project-detector';
+import {
+  BUILT_IN_CATEGORIES,
+  PROJECT_TYPE_CATEGORIES,
+  compileCategoryPatterns,
+  describeCategories,
+  mergeCategories,
+  validateCategory
+} from './categories';
+import {
+  checkName,
+  DEFAULT_NAMING_RULES,
+  fixName,
+  mergeNamingRules,
+  validateNamingRule
+} from './naming-rules';
+import {
+  findConfiguration,
+  LoadedConfiguration,
+  mergeUserConfigs,
+  resolveConfigLayers
+} from './config-loader';
+
+// Ignore files honored at every directory level, later ones taking precedence
+export const IGNORE_FILES = ['.gitignore', '.doc-organizerignore'];
+
+// Patterns from one ignore file, relative to the directory holding it
+interface IgnoreScope {
+  base: string;
+  matcher: PathMatcher;
+}
 
 // Partial config for user input
 export interface UserConfig {
-  projectType?: ProjectType;
+  extends?: string | string[]; // "preset:<name>" or a config file path, applied first
+  projectType?: ProjectType | 'auto'; // "auto" detects the type from the project's files
   structure?: Partial<DocOrganizerConfig['structure']>;
   patterns?: Record<string, RegExp | string>;
   destinations?: Record<string, string>;
+  categories?: CategoryDefinition[];
   protectedFiles?: string[];
   thresholds?: Partial<DocOrganizerConfig['thresholds']>;
   ai?: Partial<AIConfig>;
+  localModel?: Partial<DocOrganizerConfig['localModel']>;
+  decisions?: Partial<DocOrganizerConfig['decisions']>;
   excludePatterns?: string[];
+  collisions?: Partial<DocOrganizerConfig['collisions']>;
+  indexes?: Partial<DocOrganizerConfig['indexes']>;
+  keywords?: Record<string, string[]>;
+  outlineRules?: OutlineRule[];
+  namingRules?: NamingRule[];
+  scoring?: {
+    weights?: Partial<DocOrganizerConfig['scoring']['weights']>;
+    ambiguityPenalty?: number;
+  };
+  extensions?: string[];
+  rootDir?: string;
+  useIgnoreFiles?: boolean;
   useAI?: boolean;
+  workspaces?: boolean; // Scan monorepo packages as separate projects (default true)
 }
 
 // Stats returned from analysis
 export interface AnalysisStats {
   files: number;
   misplaced: number;
+  ignored: number; // Documents skipped because of .gitignore / .doc-organizerignore
+  suppressed: number; // Suggestions hidden by a recorded rejection
 }
 
 // Naming violation
 export interface NamingViolation {
   file: string;
   issues: string[];
+  details: NamingIssue[];
+  severity: NamingIssue['severity']; // The most serious issue
+  fix?: string; // Compliant path, when renaming resolves some issues
 }
 
 export class DocumentationOrganizer {
@@ -47,7 +136,15 @@ export class DocumentationOrganizer {
   public suggestions: OrganizationSuggestion[] = [];
   public moves: OrganizationSuggestion[] = [];
   public errors: string[] = [];
+  public collisions: DestinationCollision[] = [];
+  public ignoredPaths: string[] = [];
+  public projectDetection: ProjectTypeDetection | null = null; // Set when projectType is "auto"
   private aiClassifier: AIClassifier | null = null;
+  private localClassifier: LocalClassifier | null | undefined; // undefined until loaded
+  private trainingMode = false;
+  private matchers = new Map<string, PathMatcher>();
+  private configuredPatterns = new Set<string>(); // Categories whose patterns the config sets
+  private configuredDestinations = new Set<string>(); // Categories whose destinations the config sets
 
   constructor(userConfig: UserConfig = {}) {
     this.config = this.mergeWithDefaults(userConfig);
@@ -63,6 +160,12 @@ export class DocumentationOrganizer {
     return {
       projectType: 'web-app',
 
+      rootDir: process.cwd(),
+
+      useIgnoreFiles: true,
+
+      extensions: ['.md'],
+
       structure: {
         aiDocs: 'ai_docs',
         specs: 'specs',
@@ -95,6 +198,8 @@ export class DocumentationOrganizer {
         testing: '{aiDocs}/maintenance/'
       },
 
+      categories: BUILT_IN_CATEGORIES,
+
       protectedFiles: [
         'README.md',
         'CHANGELOG.md',
@@ -108,16 +213,93 @@ export class DocumentationOrganizer {
         suggest: 0.7,
         filename: 0.9,
         content: 0.5,
-        aiConfidence: 0.7
+        aiConfidence: 0.7,
+        duplicate: 0.5
+      },
+
+      keywords: {
+        aiInstructions: ['claude', 'cursor', 'copilot', 'prompt', 'assistant', 'agent'],
+        architecture: ['architecture', 'component', 'design', 'diagram', 'boundar', 'module'],
+        features: ['feature', 'user stor', 'requirement', 'acceptance', 'persona', 'roadmap'],
+        maintenance: ['refactor', 'troubleshoot', 'maintenance', 'cleanup', 'runbook', 'incident'],
+        setup: ['install', 'setup', 'configur', 'prerequisite', 'environment', 'quickstart'],
+        guides: ['guide', 'tutorial', 'step', 'walkthrough', 'example', 'how'],
+        audits: ['audit', 'finding', 'severity', 'vulnerabilit', 'assessment', 'compliance'],
+        specs: ['spec', 'rfc', 'proposal', 'requirement', 'must', 'should'],
+        api: ['api', 'endpoint', 'request', 'response', 'schema', 'openapi'],
+        testing: ['test', 'coverage', 'fixture', 'assert', 'qa', 'regression']
+      },
+
+      outlineRules: [
+        {
+          category: 'setup',
+          headings: ['^(installation|installing|getting started|prerequisites|quick ?start)'],
+          fenceLanguages: ['sh', 'bash', 'shell', 'console', 'zsh', 'powershell']
+        },
+        { category: 'architecture', fenceLanguages: ['mermaid', 'plantuml'] },
+        {
+          category: 'architecture',
+          headings: ['^(architecture|system design|components|data flow)\\b']
+        },
+        {
+          category: 'api',
+          headings: ['^(endpoints?|request|response|parameters)\\b'],
+          fenceLanguages: ['http', 'json', 'graphql']
+        },
+        {
+          category: 'audits',
+          headings: ['^(findings|recommendations|executive summary|severity)\\b']
+        },
+        {
+          category: 'testing',
+          headings: ['^(running (the )?tests|test (plan|cases|coverage))\\b']
+        },
+        { category: 'features', headings: ['^(user stor(y|ies)|acceptance criteria)\\b'] },
+        {
+          category: 'maintenance',
+          headings: ['^(troubleshooting|known issues|rollback|incident)\\b']
+        }
+      ],
+
+      namingRules: DEFAULT_NAMING_RULES,
+
+      scoring: {
+        weights: {
+          filename: 0.9,
+          headings: 0.5,
+          keywords: 0.5,
+          directory: 0.3,
+          frontMatter: 0.6,
+          outline: 0.6
+        },
+        ambiguityPenalty: 0.5
       },
 
       excludePatterns: ['node_modules', '.git', '.next', 'dist', 'build', '__pycache__', '.venv'],
 
+      collisions: {
+        strategy: 'skip'
+      },
+
+      indexes: {
+        fileName: 'README.md'
+      },
+
       ai: {
         enabled: false,
         model: 'claude-sonnet-4-20250514',
         fallbackThreshold: 0.8,
         maxTokens: 500
+      },
+
+      localModel: {
+        enabled: true,
+        minDocuments: 5
+      },
+
+      decisions: {
+        enabled: true,
+        contradictionThreshold: 3
       }
     };
   }
@@ -125,21 +307,86 @@ export class DocumentationOrganizer {
   /**
    * Merge user config with defaults
    */
-  private mergeWithDefaults(userConfig: UserConfig): DocOrganizerConfig {
+  private mergeWithDefaults(config: UserConfig): DocOrganizerConfig {
     const defaults = this.getDefaultConfig();
 
+    // Presets and extended config files are layered under the config itself
+    const userConfig =
+      config.extends === undefined
+        ? config
+        : mergeUserConfigs(
+            resolveConfigLayers(config, 'config').map(layer => layer.config as UserConfig)
+          );
+
+    const rootDir = path.resolve(userConfig.rootDir || defaults.rootDir);
+    if (userConfig.projectType === 'auto') {
+      this.projectDetection = detectProjectType(rootDir);
+    }
+
     const merged: DocOrganizerConfig = {
       ...defaults,
-      projectType: userConfig.projectType || defaults.projectType,
+      projectType:
+        this.projectDetection?.projectType ??
+        (userConfig.projectType as ProjectType | undefined) ??
+        defaults.projectType,
+      rootDir,
+      useIgnoreFiles: userConfig.useIgnoreFiles ?? defaults.useIgnoreFiles,
+      extensions: (userConfig.extensions || defaults.extensions).map(extension => {
+        const normalized = normalizeExtension(extension);
+        if (!/^\.[a-z0-9][a-z0-9.-]*$/.test(normalized)) {
+          throw new Error(
+            `Invalid extensions entry "${extension}": expected a file extension like .md`
+          );
+        }
+        return normalized;
+      }),
       structure: { ...defaults.structure, ...(userConfig.structure || {}) },
       patterns: { ...defaults.patterns },
       destinations: { ...defaults.destinations, ...(userConfig.destinations || {}) },
+      categories: mergeCategories(defaults.categories, userConfig.categories || []),
       thresholds: { ...defaults.thresholds, ...(userConfig.thresholds || {}) },
+      keywords: { ...defaults.keywords, ...(userConfig.keywords || {}) },
+      outlineRules: [...defaults.outlineRules, ...(userConfig.outlineRules || [])],
+      namingRules: mergeNamingRules(defaults.namingRules, userConfig.namingRules || []),
       ai: { ...defaults.ai, ...(userConfig.ai || {}) },
+      localModel: { ...defaults.localModel, ...(userConfig.localModel || {}) },
+      decisions: { ...defaults.decisions, ...(userConfig.decisions || {}) },
+      collisions: { ...defaults.collisions, ...(userConfig.collisions || {}) },
+      indexes: { ...defaults.indexes, ...(userConfig.indexes || {}) },
       protectedFiles: [...defaults.protectedFiles, ...(userConfig.protectedFiles || [])],
       excludePatterns: userConfig.excludePatterns || defaults.excludePatterns
     };
 
+    // The filename and content thresholds double as the default signal weights
+    merged.scoring = {
+      ambiguityPenalty: userConfig.scoring?.ambiguityPenalty ?? defaults.scoring.ambiguityPenalty,
+      weights: {
+        ...defaults.scoring.weights,
+        filename: merged.thresholds.filename,
+        headings: merged.thresholds.content,
+        ...(userConfig.scoring?.weights || {})
+      }
+    };
+
+    for (const rule of merged.namingRules) {
+      const problem = validateNamingRule(rule);
+      if (problem) {
+        throw new Error(`Invalid namingRules entry "${rule?.name}": ${problem}`);
+      }
+    }
+
+    // Validate glob patterns up front so typos surface when the config loads
+    new PathMatcher(merged.excludePatterns, 'excludePatterns entry');
+    new PathMatcher(merged.protectedFiles, 'protectedFiles entry');
+
+    // Project type defaults must not override what the config layers set
+    this.configuredPatterns = new Set(Object.keys(userConfig.patterns || {}));
+    this.configuredDestinations = new Set(Object.keys(userConfig.destinations || {}));
+    for (const category of userConfig.categories || []) {
+      if (category?.patterns) this.configuredPatterns.add(category.name);
+      this.configuredDestinations.add(category?.name);
+    }
+
     // Convert string patterns to RegExp
     if (userConfig.patterns) {
       for (const [key, pattern] of Object.entries(userConfig.patterns)) {
@@ -151,6 +398,41 @@ export class DocumentationOrganizer {
       }
     }
 
+    // Declared categories bring their own patterns, destination and keywords
+    for (const category of userConfig.categories || []) {
+      const problem = validateCategory(category);
+      if (problem) {
+        throw new Error(`Invalid categories entry "${category?.name}": ${problem}`);
+      }
+      if (category.patterns || !merged.patterns[category.name]) {
+        merged.patterns[category.name] = compileCategoryPatterns(category.patterns ?? []);
+      }
+      merged.destinations[category.name] =
+        category.destination ??
+        merged.destinations[category.name] ??
+        `{aiDocs}/${category.name}/`;
+      if (category.keywords) {
+        merged.keywords[category.name] = category.keywords;
+      }
+    }
+
+    // Outline rules may target any category with patterns, a destination or a
+    // definition, and the categories adjustForProjectType adds later
+    const knownCategories = [
+      ...new Set([
+        ...Object.keys(merged.patterns),
+        ...Object.keys(merged.destinations),
+        ...merged.categories.map(category => category.name),
+        ...PROJECT_TYPE_CATEGORIES.map(category => category.name)
+      ])
+    ];
+    for (const rule of merged.outlineRules) {
+      const problem = validateOutlineRule(rule, knownCategories);
+      if (problem) {
+        throw new Error(`Invalid outlineRules entry for "${rule?.category}": ${problem}`);
+      }
+    }
+
     return merged;
   }
 
@@ -164,53 +446,187 @@ export class DocumentationOrganizer {
       .replace('{root}', this.config.structure.root);
   }
 
+  /**
+   * Resolve a root-relative path against the configured root directory
+   */
+  resolvePath(relativePath: string): string {
+    return path.resolve(this.config.rootDir, relativePath);
+  }
+
+  /**
+   * Get a compiled matcher for a list of gitignore-style patterns
+   */
+  private getMatcher(patterns: string[]): PathMatcher {
+    const key = patterns.join('\n');
+    let matcher = this.matchers.get(key);
+    if (!matcher) {
+      matcher = new PathMatcher(patterns);
+      this.matchers.set(key, matcher);
+    }
+    return matcher;
+  }
+
+  /**
+   * Whether a root-relative path matches the protectedFiles patterns
+   */
+  isProtected(filePath: string): boolean {
+    return this.getMatcher(this.config.protectedFiles).matches(filePath);
+  }
+
+  /**
+   * Every category with patterns, described for the AI and reports
+   */
+  getCategories(): CategoryDefinition[] {
+    return describeCategories(this.config.categories, this.config.patterns, this.config.destinations);
+  }
+
   /**
    * Adjust configuration based on project type
+   *
+   * Only fills in what the config (and the presets it extends) left unset,
+   * and can be called repeatedly.
    */
   adjustForProjectType(): void {
+    const protect = (...files: string[]) => {
+      for (const file of files) {
+        if (!this.config.protectedFiles.includes(file)) this.config.protectedFiles.push(file);
+      }
+    };
+    const pattern = (category: string, regex: RegExp) => {
+      if (!this.configuredPatterns.has(category)) this.config.patterns[category] = regex;
+    };
+
     switch (this.config.projectType) {
       case 'library':
-        this.config.protectedFiles.push('API.md', 'USAGE.md');
-        this.config.patterns.api = /^(api|usage|reference)/i;
+        protect('API.md', 'USAGE.md');
+        pattern('api', /^(api|usage|reference)/i);
         break;
       case 'data-science':
-        this.config.protectedFiles.push('METHODOLOGY.md', 'DATA.md');
-        this.config.patterns.analysis = /^(analysis|model|dataset|experiment)/i;
-        this.config.destinations.analysis = '{aiDocs}/analysis/';
+        protect('METHODOLOGY.md', 'DATA.md');
+        pattern('analysis', /^(analysis|model|dataset|experiment)/i);
+        if (!this.configuredDestinations.has('analysis')) {
+          this.config.destinations.analysis = '{aiDocs}/analysis/';
+        }
         break;
       case 'mobile':
-        this.config.protectedFiles.push('DEPLOYMENT.md', 'STORE.md');
-        this.config.patterns.deployment = /^(deploy|store|release|build)/i;
+        protect('DEPLOYMENT.md', 'STORE.md');
+        pattern('deployment', /^(deploy|store|release|build)/i);
         break;
       case 'api':
-        this.config.protectedFiles.push('ENDPOINTS.md', 'SCHEMAS.md');
-        this.config.patterns.endpoints = /^(endpoint|route|schema|model)/i;
+        protect('ENDPOINTS.md', 'SCHEMAS.md');
+        pattern('endpoints', /^(endpoint|route|schema|model)/i);
         break;
     }
   }
 
   /**
-   * Get all markdown files recursively
+   * Read the ignore files in a directory
+   */
+  private loadIgnoreScopes(absoluteDir: string): IgnoreScope[] {
+    const scopes: IgnoreScope[] = [];
+    for (const name of IGNORE_FILES) {
+      const file = path.join(absoluteDir, name);
+      if (!fs.existsSync(file)) continue;
+      try {
+        const patterns = parseIgnoreFile(fs.readFileSync(file, 'utf8'));
+        scopes.push({ base: absoluteDir, matcher: new PathMatcher(patterns) });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        this.errors.push(`Error reading ${file}: ${message}`);
+      }
+    }
+    return scopes;
+  }
+
+  /**
+   * Ignore files from directories above the root, up to the enclosing git working tree
+   */
+  private loadParentIgnoreScopes(): IgnoreScope[] {
+    const parents: string[] = [];
+    let dir = this.config.rootDir;
+    while (!fs.existsSync(path.join(dir, '.git'))) {
+      const parent = path.dirname(dir);
+      if (parent === dir) return [];
+      dir = parent;
+      parents.unshift(dir);
+    }
+    return parents.flatMap(parent => this.loadIgnoreScopes(parent));
+  }
+
+  /**
+   * Whether the innermost ignore file with a matching pattern ignores a path
+   */
+  private isIgnored(scopes: IgnoreScope[], absolutePath: string, isDirectory: boolean): boolean {
+    for (let i = scopes.length - 1; i >= 0; i--) {
+      const relative = path.relative(scopes[i].base, absolutePath);
+      const verdict = scopes[i].matcher.decide(relative, isDirectory);
+      if (verdict !== null) return verdict;
+    }
+    return false;
+  }
+
+  /**
+   * Get all documentation files recursively, as paths relative to the root directory
+   *
+   * Files are selected by the configured extensions (case-insensitive).
+   * Honors excludePatterns plus .gitignore and .doc-organizerignore files at
+   * every level (unless useIgnoreFiles is off). Documents skipped because
+   * of an ignore file, including those inside ignored directories, are
+   * collected in `ignoredPaths`.
    */
   getAllMdFiles(): string[] {
     const files: string[] = [];
+    const excluded = this.getMatcher(this.config.excludePatterns);
+    this.ignoredPaths = [];
+
+    const isDocument = (item: string) => this.config.extensions.includes(path.extname(item).toLowerCase());
 
-    const walkDir = (dir: string): void => {
+    // Documents below an ignored directory are only counted
+    const walkIgnored = (dir: string): void => {
       try {
-        const items = fs.readdirSync(dir);
+        for (const item of fs.readdirSync(this.resolvePath(dir))) {
+          const relativePath = path.join(dir, item);
+          const stat = fs.statSync(this.resolvePath(relativePath));
+          if (excluded.matches(relativePath, stat.isDirectory())) continue;
+          if (stat.isDirectory()) {
+            walkIgnored(relativePath);
+          } else if (isDocument(item)) {
+            this.ignoredPaths.push(relativePath);
+          }
+        }
+      } catch {
+        // Unreadable ignored directories are not counted
+      }
+    };
+
+    const walkDir = (dir: string, parentScopes: IgnoreScope[]): void => {
+      try {
+        const scopes = this.config.useIgnoreFiles
+          ? [...parentScopes, ...this.loadIgnoreScopes(this.resolvePath(dir))]
+          : parentScopes;
+        const items = fs.readdirSync(this.resolvePath(dir));
         for (const item of items) {
-          const fullPath = path.join(dir, item);
+          const relativePath = path.join(dir, item);
+          const stat = fs.statSync(this.resolvePath(relativePath));
+
+          // Skip excluded files and directories
+          if (excluded.matches(relativePath, stat.isDirectory())) {
+            continue;
+          }
 
-          // Skip excluded directories
-          if (this.config.excludePatterns.some(pattern => fullPath.includes(pattern))) {
+          if (this.isIgnored(scopes, this.resolvePath(relativePath), stat.isDirectory())) {
+            if (stat.isDirectory()) {
+              walkIgnored(relativePath);
+            } else if (isDocument(item)) {
+              this.ignoredPaths.push(relativePath);
+            }
             continue;
           }
 
-          const stat = fs.statSync(fullPath);
           if (stat.isDirectory()) {
-            walkDir(fullPath);
-          } else if (path.extname(item) === '.md') {
-            files.push(fullPath);
+            walkDir(relativePath, scopes);
+          } else if (isDocument(item)) {
+            files.push(relativePath);
           }
         }
       } catch (error) {
@@ -219,7 +635,7 @@ export class DocumentationOrganizer {
       }
     };
 
-    walkDir('.');
+    walkDir('.', this.config.useIgnoreFiles ? this.loadParentIgnoreScopes() : []);
     return files;
   }
 
@@ -228,15 +644,20 @@ export class DocumentationOrganizer {
    */
   analyzeFileContent(filePath: string): FileAnalysis | null {
     try {
-      const content = fs.readFileSync(filePath, 'utf8');
-      const fileName = path.basename(filePath, '.md');
+      const content = fs.readFileSync(this.resolvePath(filePath), 'utf8');
+      const extension = path.extname(filePath);
+      const fileName = path.basename(filePath, extension);
       const currentDir = path.dirname(filePath);
+      const format = getDocumentFormat(filePath);
 
       // Skip protected files
-      if (
-        this.config.protectedFiles.includes(filePath) ||
-        this.config.protectedFiles.includes(path.basename(filePath))
-      ) {
+      if (this.isProtected(filePath)) {
+        return null;
+      }
+
+      // Pinned files are kept in place like protected files
+      const directives = this.readDirectives(filePath, content);
+      if (directives?.ignore || directives?.pin) {
         return null;
       }
 
@@ -245,41 +666,80 @@ export class DocumentationOrganizer {
         currentPath: filePath,
         currentDir,
         contentLength: content.length,
+        format,
         suggestedCategory: null,
         suggestedPath: null,
         confidence: 0,
         reasons: []
       };
+      if (directives) {
+        analysis.directives = directives;
+      }
 
-      // Check filename patterns first (high confidence)
-      for (const [category, pattern] of Object.entries(this.config.patterns)) {
-        if (pattern.test(fileName)) {
-          analysis.suggestedCategory = category as DocumentCategory;
-          analysis.confidence = this.config.thresholds.filename;
-          const destination = this.resolveDestination(
-            this.config.destinations[category] || '{root}'
-          );
-          analysis.suggestedPath = destination + fileName + '.md';
-          analysis.reasons = ['filename match'];
-          break;
+      // Score every category against all signals
+      let frontMatter: Record<string, unknown> = {};
+      try {
+        frontMatter = parseFrontMatter(content).data;
+      } catch {
+        // Invalid front matter was reported with the directives
+      }
+      const body = stripFrontMatter(content);
+      const outline = buildOutline(body, format);
+      analysis.outline = outline;
+
+      const candidates = scoreCategories(
+        {
+          fileName,
+          currentDir: toLinkPath(currentDir),
+          headings: flattenHeadings(outline.headings)
+            .filter(heading => heading.level <= 2)
+            .map(heading => heading.text),
+          body,
+          frontMatter,
+          outlineCategories: matchOutlineRules(outline, this.config.outlineRules)
+        },
+        {
+          patterns: this.config.patterns,
+          destinations: Object.fromEntries(
+            Object.keys(this.config.patterns).map(category => [
+              category,
+              this.resolveDestination(this.config.destinations[category] || '{root}')
+            ])
+          ),
+          keywords: this.config.keywords,
+          weights: this.config.scoring.weights
         }
+      );
+
+      if (candidates.length > 0) {
+        const best = candidates[0];
+        analysis.candidates = candidates;
+        analysis.suggestedCategory = best.category;
+        analysis.confidence = calibrateConfidence(candidates, this.config.scoring.ambiguityPenalty);
+        const destination = this.resolveDestination(
+          this.config.destinations[best.category] || '{root}'
+        );
+        analysis.suggestedPath = destination + fileName + extension;
+        analysis.reasons = describeSignals(best);
       }
 
-      // Check content if no filename match (lower confidence)
-      if (!analysis.suggestedCategory) {
-        const contentHeader = content.substring(0, 200);
-        for (const [category, pattern] of Object.entries(this.config.patterns)) {
-          if (pattern.test(contentHeader) && category !== 'aiInstructions') {
-            analysis.suggestedCategory = category as DocumentCategory;
-            analysis.confidence = this.config.thresholds.content;
-            const destination = this.resolveDestination(
-              this.config.destinations[category] || '{root}'
-            );
-            analysis.suggestedPath = destination + fileName + '.md';
-            analysis.reasons = ['content match'];
-            break;
-          }
-        }
+      // Fall back to the offline model for low-confidence files
+      if (analysis.confidence < this.config.ai.fallbackThreshold && !this.trainingMode) {
+        this.applyLocalModel(analysis, body, extension);
+      }
+
+      // An explicit category or destination overrides the classifier
+      if (directives?.category || directives?.destination) {
+        const category = directives.category ?? analysis.suggestedCategory ?? 'unknown';
+        let destination = this.resolveDestination(
+          directives.destination ?? (this.config.destinations[category] || '{root}')
+        );
+        if (!destination.endsWith('/')) destination += '/';
+
+        analysis.suggestedCategory = category as DocumentCategory;
+        analysis.suggestedPath = destination + fileName + extension;
+        analysis.confidence = 1;
+        analysis.reasons = ['front-matter override'];
       }
 
       return analysis;
@@ -290,6 +750,251 @@ export class DocumentationOrganizer {
     }
   }
 
+  /**
+   * Get the offline classifier, loading the saved model on first use
+   */
+  private getLocalClassifier(): LocalClassifier | null {
+    if (!this.config.localModel.enabled) return null;
+    if (this.localClassifier === undefined) {
+      try {
+        this.localClassifier = LocalClassifier.load(this.config.rootDir);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        this.errors.push(`Error loading local model: ${message}`);
+        this.localClassifier = null;
+      }
+    }
+    return this.localClassifier;
+  }
+
+  /**
+   * Merge the offline model's classification into an analysis
+   *
+   * Follows the same policy as AI enhancement: a more confident result
+   * wins, agreement boosts confidence and disagreement is noted.
+   */
+  private applyLocalModel(analysis: FileAnalysis, body: string, extension: string): void {
+    const classifier = this.getLocalClassifier();
+    if (!classifier) return;
+
+    const result = classifier.classify(
+      analysis.fileName,
+      body,
+      this.config.scoring.ambiguityPenalty
+    );
+    if (!result || !(result.category in this.config.patterns)) return;
+
+    analysis.localModelUsed = true;
+    const similarity = `${(result.similarity * 100).toFixed(0)}% similar`;
+
+    if (result.confidence > analysis.confidence) {
+      analysis.suggestedCategory = result.category;
+      analysis.confidence = result.confidence;
+      analysis.reasons = [`local model: ${result.category} (${similarity})`, ...analysis.reasons];
+      const destination = this.resolveDestination(
+        this.config.destinations[result.category] || '{root}'
+      );
+      analysis.suggestedPath = destination + analysis.fileName + extension;
+    } else if (result.category === analysis.suggestedCategory) {
+      analysis.confidence = Math.min(1, analysis.confidence + 0.1);
+      analysis.reasons.push(`local model agreed (${similarity})`);
+    } else {
+      analysis.reasons.push(`local model suggested ${result.category} (${similarity})`);
+    }
+  }
+
+  /**
+   * Collect correctly placed, classified documents as training data
+   */
+  collectTrainingDocuments(): TrainingDocument[] {
+    const documents: TrainingDocument[] = [];
+    this.trainingMode = true;
+
+    try {
+      for (const file of this.getAllMdFiles()) {
+        const analysis = this.analyzeFileContent(file);
+        if (!analysis?.suggestedCategory || !this.isCorrectlyPlaced(analysis)) continue;
+
+        const content = fs.readFileSync(this.resolvePath(file), 'utf8');
+        documents.push({
+          category: analysis.suggestedCategory,
+          fileName: analysis.fileName,
+          text: stripFrontMatter(content)
+        });
+      }
+    } finally {
+      this.trainingMode = false;
+    }
+
+    return documents;
+  }
+
+  /**
+   * Train the offline model on correctly placed documents and save it
+   */
+  trainLocalModel(): { classifier: LocalClassifier; documents: TrainingDocument[]; file: string } {
+    this.adjustForProjectType();
+    const documents = this.collectTrainingDocuments();
+    const categories = new Set(documents.map(doc => doc.category));
+
+    const { minDocuments } = this.config.localModel;
+    if (documents.length < minDocuments) {
+      throw new Error(
+        `Need at least ${minDocuments} correctly placed documents to train (found ${documents.length})`
+      );
+    }
+    if (categories.size < 2) {
+      throw new Error('Need correctly placed documents in at least 2 categories to train');
+    }
+
+    const classifier = LocalClassifier.train(documents);
+    const file = classifier.save(this.config.rootDir);
+    this.localClassifier = classifier;
+    return { classifier, documents, file };
+  }
+
+  /**
+   * Cross-validate the offline model on correctly placed documents
+   */
+  evaluateLocalModel(folds?: number): LocalModelEvaluation {
+    this.adjustForProjectType();
+    return LocalClassifier.evaluate(this.collectTrainingDocuments(), folds);
+  }
+
+  /**
+   * Read recorded decisions, or none when decisions are disabled
+   */
+  private loadDecisions(): Decision[] {
+    if (!this.config.decisions.enabled) return [];
+    try {
+      return readDecisions(this.config.rootDir);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.errors.push(`Error reading decisions: ${message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Apply the recorded decision for a file, if its content is unchanged
+   *
+   * An accepted or overriding destination becomes the expected location,
+   * an accepted suggestion gets full confidence, and a rejected suggestion
+   * is marked so it can be suppressed.
+   */
+  private applyDecision(analysis: FileAnalysis, decisions: Decision[]): void {
+    const current = toLinkPath(analysis.currentPath);
+    if (!decisions.some(d => d.file === current || d.destination === current)) return;
+
+    const decision = findDecision(decisions, current, hashDocument(this.resolvePath(current)));
+    if (!decision) return;
+
+    const suggested = analysis.suggestedPath && toLinkPath(analysis.suggestedPath);
+    if (decision.action === 'reject') {
+      if (suggested === decision.suggested) analysis.decision = 'reject';
+      return;
+    }
+
+    const destination = decision.destination!;
+    if (current === destination) {
+      // Already where the user wants it
+      analysis.decision = decision.action;
+      analysis.suggestedPath = analysis.currentPath;
+    } else if (decision.action === 'override') {
+      analysis.decision = 'override';
+      analysis.suggestedPath = destination;
+      analysis.confidence = 1;
+      analysis.reasons = ['user override'];
+    } else if (suggested === destination) {
+      analysis.decision = 'accept';
+      analysis.confidence = 1;
+      analysis.reasons = ['accepted', ...analysis.reasons];
+    }
+  }
+
+  /**
+   * Record a decision about a file's suggestion
+   *
+   * `accept` and `reject` apply to the current suggestion. `override` sets
+   * the expected location (a directory or file path); without one, the
+   * file's current location is kept.
+   */
+  decide(file: string, action: DecisionAction, destination?: string): Decision {
+    this.adjustForProjectType();
+    const analysis = this.analyzeFileContent(file);
+    const suggestion =
+      analysis?.suggestedPath && !this.isCorrectlyPlaced(analysis) ? analysis : null;
+
+    if (action !== 'override' && !suggestion) {
+      throw new Error(`No suggestion to ${action} for ${file}`);
+    }
+
+    let target: string | undefined;
+    if (action === 'accept') {
+      target = suggestion!.suggestedPath!;
+    } else if (action === 'override') {
+      target = destination ?? file;
+      if (target.endsWith('/') || path.extname(target) === '') {
+        target = path.join(target, path.basename(file));
+      }
+    }
+
+    const decision: Decision = {
+      file: toLinkPath(file),
+      hash: hashDocument(this.resolvePath(file)),
+      action,
+      decidedAt: new Date().toISOString()
+    };
+    if (target !== undefined) {
+      decision.destination = toLinkPath(target);
+    }
+    if (suggestion) {
+      decision.suggested = toLinkPath(suggestion.suggestedPath!);
+      decision.category = suggestion.suggestedCategory ?? undefined;
+      decision.reasons = suggestion.reasons;
+    }
+
+    recordDecision(decision, this.config.rootDir);
+    return decision;
+  }
+
+  /**
+   * Rules whose suggestions users keep rejecting or overriding
+   */
+  getContradictedRules(): ContradictedRule[] {
+    return findContradictedRules(this.loadDecisions(), this.config.decisions.contradictionThreshold);
+  }
+
+  /**
+   * Read front-matter and comment directives, reporting invalid ones as errors
+   */
+  private readDirectives(filePath: string, content: string): DocDirectives | null {
+    try {
+      const directives = parseDirectives(content);
+      const category = directives?.category;
+      const known =
+        category && (category in this.config.patterns || category in this.config.destinations);
+      if (category && !known) {
+        throw new Error(`unknown category "${category}"`);
+      }
+      const destination = directives?.destination;
+      if (destination) {
+        const relative = path.relative(
+          this.config.rootDir,
+          this.resolvePath(this.resolveDestination(destination))
+        );
+        if (relative.startsWith('..') || path.isAbsolute(relative)) {
+          throw new Error(`destination "${destination}" is outside the project root`);
+        }
+      }
+      return directives;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.errors.push(`Ignoring doc-organizer directives in ${filePath}: ${message}`);
+      return null;
+    }
+  }
+
   /**
    * Analyze file with AI enhancement for low-confidence results
    */
@@ -302,6 +1007,7 @@ export class DocumentationOrganizer {
       this.config.ai.enabled &&
       this.aiClassifier &&
       this.aiClassifier.isAvailable() &&
+      !analysis.reasons.includes('front-matter override') &&
       analysis.confidence < this.config.ai.fallbackThreshold;
 
     if (!shouldUseAI) {
@@ -309,14 +1015,15 @@ export class DocumentationOrganizer {
     }
 
     try {
-      const content = fs.readFileSync(filePath, 'utf8');
+      const content = fs.readFileSync(this.resolvePath(filePath), 'utf8');
       const contentPreview = content.substring(0, 2000);
 
       const aiResult = await this.aiClassifier!.classify({
         filePath,
         fileName: analysis.fileName,
         contentPreview,
-        availableCategories: Object.keys(this.config.patterns) as DocumentCategory[],
+        availableCategories: Object.keys(this.config.patterns),
+        categories: this.getCategories(),
         existingAnalysis: {
           category: analysis.suggestedCategory,
           confidence: analysis.confidence,
@@ -341,7 +1048,8 @@ export class DocumentationOrganizer {
 
         if (merged.category && this.config.destinations[merged.category]) {
           const destination = this.resolveDestination(this.config.destinations[merged.category]);
-          analysis.suggestedPath = destination + analysis.fileName + '.md';
+          analysis.suggestedPath =
+            destination + analysis.fileName + path.extname(analysis.currentPath);
         }
       }
     } catch (error) {
@@ -358,6 +1066,13 @@ export class DocumentationOrganizer {
   isCorrectlyPlaced(analysis: FileAnalysis): boolean {
     if (!analysis || !analysis.suggestedCategory) return true;
 
+    // A destination from front matter or a recorded decision is compared as a path
+    const explicit =
+      analysis.directives?.destination || (analysis.decision && analysis.decision !== 'reject');
+    if (explicit && analysis.suggestedPath) {
+      return toLinkPath(analysis.currentPath) === toLinkPath(analysis.suggestedPath);
+    }
+
     const expectedDir = this.resolveDestination(
       this.config.destinations[analysis.suggestedCategory] || '{root}'
     );
@@ -392,12 +1107,19 @@ export class DocumentationOrganizer {
     this.adjustForProjectType();
     const files = this.getAllMdFiles();
     const misplacedFiles: FileAnalysis[] = [];
+    const decisions = this.loadDecisions();
+    let suppressed = 0;
 
     for (const file of files) {
       const analysis = this.analyzeFileContent(file);
       if (!analysis) continue;
+      this.applyDecision(analysis, decisions);
 
       if (!this.isCorrectlyPlaced(analysis) && analysis.confidence >= this.config.thresholds.suggest) {
+        if (analysis.decision === 'reject') {
+          suppressed++;
+          continue;
+        }
         misplacedFiles.push(analysis);
         this.suggestions.push({
           current: analysis.currentPath,
@@ -409,7 +1131,13 @@ export class DocumentationOrganizer {
       }
     }
 
-    return { files: files.length, misplaced: misplacedFiles.length };
+    this.applyCollisionStrategy();
+    return {
+      files: files.length,
+      misplaced: misplacedFiles.length,
+      ignored: this.ignoredPaths.length,
+      suppressed
+    };
   }
 
   /**
@@ -419,6 +1147,8 @@ export class DocumentationOrganizer {
     this.adjustForProjectType();
     const files = this.getAllMdFiles();
     const misplacedFiles: FileAnalysis[] = [];
+    const decisions = this.loadDecisions();
+    let suppressed = 0;
 
     for (const file of files) {
       const analysis = this.config.ai.enabled
@@ -426,8 +1156,13 @@ export class DocumentationOrganizer {
         : this.analyzeFileContent(file);
 
       if (!analysis) continue;
+      this.applyDecision(analysis, decisions);
 
       if (!this.isCorrectlyPlaced(analysis) && analysis.confidence >= this.config.thresholds.suggest) {
+        if (analysis.decision === 'reject') {
+          suppressed++;
+          continue;
+        }
         misplacedFiles.push(analysis);
         this.suggestions.push({
           current: analysis.currentPath,
@@ -440,68 +1175,366 @@ export class DocumentationOrganizer {
       }
     }
 
-    return { files: files.length, misplaced: misplacedFiles.length };
+    this.applyCollisionStrategy();
+    return {
+      files: files.length,
+      misplaced: misplacedFiles.length,
+      ignored: this.ignoredPaths.length,
+      suppressed
+    };
+  }
+
+  /**
+   * Resolve destination collisions in the current suggestions
+   */
+  private applyCollisionStrategy(): void {
+    const resolved = this.resolveCollisions(this.suggestions);
+    this.suggestions = resolved.suggestions;
+    this.collisions = resolved.collisions;
+  }
+
+  /**
+   * Detect suggestions that share a destination, or whose destination
+   * already exists on disk, and resolve them with the configured strategy
+   *
+   * With the `fail` strategy colliding suggestions are kept and the
+   * collisions are marked as failed; applying them is refused.
+   */
+  resolveCollisions<T extends Pick<OrganizationSuggestion, 'current' | 'suggested'>>(
+    suggestions: T[]
+  ): { suggestions: T[]; collisions: DestinationCollision[] } {
+    const strategy = this.config.collisions.strategy;
+    const byDestination = new Map<string, T[]>();
+    for (const suggestion of suggestions) {
+      const key = toLinkPath(suggestion.suggested);
+      byDestination.set(key, [...(byDestination.get(key) ?? []), suggestion]);
+    }
+
+    const collisions: DestinationCollision[] = [];
+    const skipped = new Set<T>();
+    const renamed = new Map<T, string>();
+    const taken = new Set(byDestination.keys());
+
+    for (const [destination, group] of byDestination) {
+      const onDisk = fs.existsSync(this.resolvePath(destination));
+      if (group.length < 2 && !onDisk) continue;
+
+      const collision: DestinationCollision = {
+        destination,
+        sources: group.map(s => s.current),
+        kind: onDisk ? 'disk' : 'plan',
+        resolution: strategy === 'suffix' ? 'suffixed' : strategy === 'skip' ? 'skipped' : 'failed'
+      };
+
+      if (strategy === 'skip') {
+        group.forEach(s => skipped.add(s));
+      } else if (strategy === 'suffix') {
+        collision.renamedTo = {};
+        for (const suggestion of group) {
+          const target = this.suffixDestination(suggestion, group, taken);
+          taken.add(target);
+          renamed.set(suggestion, target);
+          collision.renamedTo[suggestion.current] = target;
+        }
+      }
+
+      collisions.push(collision);
+    }
+
+    return {
+      suggestions: suggestions
+        .filter(s => !skipped.has(s))
+        .map(s => (renamed.has(s) ? { ...s, suggested: renamed.get(s)! } : s)),
+      collisions
+    };
+  }
+
+  /**
+   * Build a unique destination by suffixing the file name with its source directory
+   */
+  private suffixDestination(
+    suggestion: Pick<OrganizationSuggestion, 'current' | 'suggested'>,
+    group: Array<Pick<OrganizationSuggestion, 'current' | 'suggested'>>,
+    taken: Set<string>
+  ): string {
+    const slug = (file: string, full: boolean): string => {
+      const dir = toLinkPath(path.dirname(file));
+      if (dir === '.') return 'root';
+      return full ? dir.replace(/\//g, '-') : path.posix.basename(dir);
+    };
+
+    // Use the full source path when the parent directory names alone are ambiguous
+    const shortSlugs = group.map(s => slug(s.current, false));
+    const ambiguous = shortSlugs.filter(s => s === slug(suggestion.current, false)).length > 1;
+    const suffix = slug(suggestion.current, ambiguous);
+
+    const destination = toLinkPath(suggestion.suggested);
+    const ext = path.posix.extname(destination);
+    const base = destination.slice(0, destination.length - ext.length);
+
+    let candidate = `${base}-${suffix}${ext}`;
+    for (let n = 2; taken.has(candidate) || fs.existsSync(this.resolvePath(candidate)); n++) {
+      candidate = `${base}-${suffix}-${n}${ext}`;
+    }
+    return candidate;
+  }
+
+  /**
+   * Naming rules that apply to a root-relative file path
+   */
+  private namingRulesFor(file: string): NamingRule[] {
+    const normalized = toLinkPath(file);
+    return this.config.namingRules.filter(rule => {
+      if (rule.severity === 'off') return false;
+      if (rule.directories && !this.getMatcher(rule.directories).matches(normalized)) {
+        return false;
+      }
+      if (rule.categories) {
+        return rule.categories.some(category => {
+          const destination = this.config.destinations[category];
+          if (!destination) return false;
+          const dir = toLinkPath(path.normalize(this.resolveDestination(destination)));
+          return dir === '.' || normalized.startsWith(`${dir.replace(/\/$/, '')}/`);
+        });
+      }
+      return true;
+    });
   }
 
   /**
-   * Check for naming convention violations
+   * Check file names against the naming rules
+   *
+   * Protected files are not checked. A violation carries the compliant
+   * path when renaming fixes some of its issues.
    */
   checkNamingConventions(): NamingViolation[] {
     const files = this.getAllMdFiles();
     const violations: NamingViolation[] = [];
+    const ranks = { error: 3, warning: 2, info: 1 };
 
     for (const file of files) {
-      const fileName = path.basename(file, '.md');
-      const issues: string[] = [];
+      if (this.isProtected(file)) continue;
+      const rules = this.namingRulesFor(file);
+      const ext = path.extname(file);
+      const fileName = path.basename(file, ext);
+      const details = rules.flatMap(rule => checkName(fileName, rule));
+      if (details.length === 0) continue;
+
+      const violation: NamingViolation = {
+        file,
+        issues: details.map(issue => issue.message),
+        details,
+        severity: details.reduce(
+          (worst, issue) => (ranks[issue.severity] > ranks[worst] ? issue.severity : worst),
+          details[0].severity
+        )
+      };
 
-      const vaguePatterns = [/^doc$/, /^file$/, /^guide$/];
-      if (vaguePatterns.some(pattern => pattern.test(fileName))) {
-        issues.push('Vague naming - be more specific');
+      if (details.some(issue => issue.fixable)) {
+        // Date and sequence prefixes come from the file's mtime and its neighbours
+        const dated = rules.some(rule => rule.datePrefix);
+        const fixed = fixName(fileName, rules, {
+          modified: dated ? fs.statSync(this.resolvePath(file)).mtime : new Date(),
+          siblings: dated
+            ? fs
+                .readdirSync(this.resolvePath(path.dirname(file)))
+                .map(name => path.basename(name, path.extname(name)))
+            : []
+        });
+        if (fixed !== '' && fixed !== fileName) {
+          violation.fix = toLinkPath(path.join(path.dirname(file), `${fixed}${ext}`));
+        }
       }
+      violations.push(violation);
+    }
 
-      const dir = path.dirname(file);
-      if (
-        dir.includes(`${this.config.structure.aiDocs}/features`) &&
-        !fileName.includes('-') &&
-        fileName !== 'README' &&
-        fileName.length > 3
-      ) {
-        issues.push('Feature files should use kebab-case with descriptive names');
-      }
+    return violations;
+  }
 
-      if (issues.length > 0) {
-        violations.push({ file, issues });
+  /**
+   * Rename files to comply with the naming rules
+   *
+   * Renames go through applySuggestions, so collisions are checked, links
+   * are rewritten and the run is journaled for undo.
+   */
+  fixNamingViolations(options: ApplyMovesOptions = {}): ApplyMovesResult {
+    const renames = this.checkNamingConventions()
+      .filter(violation => violation.fix)
+      .map(violation => ({ current: violation.file, suggested: violation.fix! }));
+    return this.applySuggestions(renames, options);
+  }
+
+  /**
+   * Apply high-confidence moves
+   */
+  applyMoves(options: ApplyMovesOptions = {}): ApplyMovesResult {
+    return this.applySuggestions(this.getHighConfidenceSuggestions(), options);
+  }
+
+  /**
+   * Move the given files and rewrite relative links affected by the moves
+   */
+  applySuggestions(
+    suggestions: Array<Pick<OrganizationSuggestion, 'current' | 'suggested'>>,
+    options: ApplyMovesOptions = {}
+  ): ApplyMovesResult {
+    // Re-check the plan: files may have appeared since analysis, or the plan was provided
+    const resolved = this.resolveCollisions(suggestions);
+    const failedCollisions = resolved.collisions.filter(c => c.resolution === 'failed');
+    if (failedCollisions.length > 0) {
+      const details = failedCollisions.map(c => `${c.destination} <- ${c.sources.join(', ')}`);
+      throw new Error(`Refusing to apply moves with destination collisions:\n  ${details.join('\n  ')}`);
+    }
+    suggestions = resolved.suggestions;
+
+    const dryRun = options.dryRun ?? false;
+    const rewriteLinks = options.rewriteLinks ?? true;
+    // Scan before moving so link sources are known by their original paths
+    const scannedFiles = rewriteLinks ? this.getAllMdFiles().map(toLinkPath) : [];
+    const useGit = options.useGit ?? (!dryRun && isGitRepository(this.config.rootDir));
+    const completed = new Map<string, string>();
+    const methods = new Map<string, MoveMethod>();
+    const createdDirs: string[] = [];
+
+    const result: ApplyMovesResult = {
+      successful: 0,
+      failed: 0,
+      moves: [],
+      linkRewrites: [],
+      collisions: resolved.collisions
+    };
+
+    for (const move of suggestions) {
+      const moveResult: ApplyMovesResult['moves'][number] = {
+        from: move.current,
+        to: move.suggested,
+        success: false
+      };
+
+      try {
+        if (!dryRun) {
+          if (fs.existsSync(this.resolvePath(move.suggested))) {
+            throw new Error(`${move.suggested} already exists`);
+          }
+          const destDir = path.dirname(move.suggested);
+          if (!fs.existsSync(this.resolvePath(destDir))) {
+            createdDirs.push(...this.missingDirs(destDir));
+            fs.mkdirSync(this.resolvePath(destDir), { recursive: true });
+          }
+          moveResult.method = moveFile(move.current, move.suggested, {
+            force: options.force,
+            useGit,
+            cwd: this.config.rootDir
+          });
+          methods.set(toLinkPath(move.current), moveResult.method);
+        }
+        completed.set(toLinkPath(move.current), toLinkPath(move.suggested));
+        moveResult.success = true;
+        result.successful++;
+      } catch (error) {
+        moveResult.error = error instanceof Error ? error.message : 'Unknown error';
+        result.failed++;
       }
+
+      result.moves.push(moveResult);
     }
 
-    return violations;
+    if (rewriteLinks && completed.size > 0) {
+      const files = new Set([...scannedFiles, ...completed.keys()]);
+      result.linkRewrites = this.rewriteMovedLinks([...files], completed, dryRun);
+    }
+
+    if (!dryRun && options.journal !== false && completed.size > 0) {
+      result.journalId = this.recordJournal(completed, methods, createdDirs, result.linkRewrites);
+    }
+
+    return result;
   }
 
   /**
-   * Apply high-confidence moves
+   * List the directories mkdir would create for a path, outermost first
    */
-  applyMoves(): { successful: number; failed: number } {
-    const autoMoves = this.suggestions.filter(
-      s => s.confidence >= this.config.thresholds.autoApply
-    );
+  private missingDirs(dir: string): string[] {
+    const missing: string[] = [];
+    let current = path.normalize(dir);
+    while (current !== '.' && !fs.existsSync(this.resolvePath(current))) {
+      missing.unshift(toLinkPath(current));
+      const parent = path.dirname(current);
+      if (parent === current) break;
+      current = parent;
+    }
+    return missing;
+  }
 
-    let successful = 0;
-    let failed = 0;
+  /**
+   * Write an undo journal entry for completed moves
+   */
+  private recordJournal(
+    completed: Map<string, string>,
+    methods: Map<string, MoveMethod>,
+    createdDirs: string[],
+    linkRewrites: LinkRewrite[]
+  ): string | undefined {
+    try {
+      const entry: JournalEntry = {
+        id: createJournalId(),
+        createdAt: new Date().toISOString(),
+        moves: [...completed].map(([from, to]) => ({
+          from,
+          to,
+          hash: hashFile(this.resolvePath(to)),
+          method: methods.get(from) ?? 'fs'
+        })),
+        createdDirs,
+        linkRewrites,
+        fileHashes: {}
+      };
+      for (const rewrite of linkRewrites) {
+        entry.fileHashes[rewrite.file] ??= hashFile(this.resolvePath(rewrite.file));
+      }
+      writeJournal(entry, this.config.rootDir);
+      return entry.id;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.errors.push(`Error writing undo journal: ${message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Rewrite inbound and outbound relative links for completed moves
+   *
+   * Only Markdown and MDX files are rewritten; links in other formats are
+   * left as they are.
+   */
+  private rewriteMovedLinks(
+    files: string[],
+    completed: Map<string, string>,
+    dryRun: boolean
+  ): LinkRewrite[] {
+    const rewrites: LinkRewrite[] = [];
+
+    for (const oldPath of files) {
+      if (!hasMarkdownLinks(getDocumentFormat(oldPath))) continue;
+      const newPath = completed.get(oldPath) ?? oldPath;
+      const readPath = dryRun ? oldPath : newPath;
 
-    for (const move of autoMoves) {
       try {
-        const destDir = path.dirname(move.suggested);
-        if (!fs.existsSync(destDir)) {
-          fs.mkdirSync(destDir, { recursive: true });
+        const content = fs.readFileSync(this.resolvePath(readPath), 'utf8');
+        const rewritten = rewriteLinksForMoves(content, oldPath, newPath, completed);
+        if (rewritten.rewrites.length === 0) continue;
+
+        if (!dryRun) {
+          fs.writeFileSync(this.resolvePath(newPath), rewritten.content);
         }
-        fs.renameSync(move.current, move.suggested);
-        successful++;
-      } catch {
-        failed++;
+        rewrites.push(...rewritten.rewrites);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        this.errors.push(`Error rewriting links in ${readPath}: ${message}`);
       }
     }
 
-    return { successful, failed };
+    return rewrites;
   }
 
   /**
@@ -524,34 +1557,29 @@ export class DocumentationOrganizer {
 }
 
 /**
- * Load configuration from file
+ * Load configuration from file in the given root directory, or from an
+ * explicit config file
+ *
+ * Returns an empty config when there is no config file. Throws a
+ * ConfigValidationError when the file is invalid.
  */
-export function loadConfiguration(): UserConfig {
-  const configPaths = ['.doc-organizer.json', 'package.json', '.doc-organizer.js'];
+export function loadConfiguration(rootDir: string = '.', configFile?: string): UserConfig {
+  return findConfiguration(rootDir, configFile)?.config ?? {};
+}
 
-  for (const configPath of configPaths) {
-    if (fs.existsSync(configPath)) {
-      try {
-        if (configPath.endsWith('.js')) {
-          // eslint-disable-next-line @typescript-eslint/no-var-requires
-          delete require.cache[require.resolve(path.resolve(configPath))];
-          // eslint-disable-next-line @typescript-eslint/no-var-requires
-          return require(path.resolve(configPath));
-        } else if (configPath === 'package.json') {
-          const pkg = JSON.parse(fs.readFileSync(configPath, 'utf8'));
-          if (pkg.docOrganizer) {
-            return pkg.docOrganizer;
-          }
-        } else {
-          return JSON.parse(fs.readFileSync(configPath, 'utf8'));
-        }
-      } catch {
-        // Skip invalid config files
-      }
-    }
-  }
+export { findConfiguration, LoadedConfiguration };
 
-  return {};
+/**
+ * Explain where each value of the effective configuration came from
+ */
+export function explainConfiguration(rootDir: string = '.', configFile?: string): ConfigValueSource[] {
+  const loaded = findConfiguration(rootDir, configFile);
+  const organizer = new DocumentationOrganizer({ ...loaded?.config, rootDir });
+  organizer.adjustForProjectType();
+
+  const defaults = new DocumentationOrganizer({ rootDir: organizer.config.rootDir }).config;
+  const layers = loaded ? resolveConfigLayers(loaded.config, loaded.file) : [];
+  return explainConfig(organizer.config, defaults, layers);
 }
 
 export default DocumentationOrganizer;
@@ -0,0 +1,186 @@
+/**
+ * Document outlines
+ *
+ * Builds the structure of a document (title, heading tree, code block
+ * languages, tables and link targets) and evaluates category rules such as
+ * "has an Installation heading and shell code blocks" against it.
+ */
+
+import { DocumentFormat, DocumentOutline, OutlineHeading, OutlineRule } from './types';
+import { extractHeadings, extractTitle, hasMarkdownLinks } from './doc-formats';
+import { parseMarkdownLinks } from './markdown-links';
+
+// Code block openers per format; group 1 is the language
+const CODE_BLOCK: Record<DocumentFormat, RegExp> = {
+  markdown: /^ {0,3}(?:`{3,}|~{3,})\s*([\w+#.-]*)/,
+  mdx: /^ {0,3}(?:`{3,}|~{3,})\s*([\w+#.-]*)/,
+  rst: /^\s*\.\. (?:code-block|code|sourcecode)::\s*([\w+#.-]*)/,
+  asciidoc: /^\[source(?:,\s*([\w+#.-]+))?[^\]]*\]\s*$/,
+  text: /^(?!)/
+};
+
+// Table markers per format: Markdown delimiter rows, reStructuredText grid
+// tables and table directives, AsciiDoc table delimiters
+const TABLE: Record<DocumentFormat, RegExp> = {
+  markdown: /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)+\|?\s*$/,
+  mdx: /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)+\|?\s*$/,
+  rst: /^\s*(\+(-+\+){2,}|\.\. (list-table|csv-table|table)::.*)$/,
+  asciidoc: /^\|===\s*$/,
+  text: /^(?!)/
+};
+
+/**
+ * Nest a flat list of headings by level
+ */
+function buildHeadingTree(flat: Array<Omit<OutlineHeading, 'children'>>): OutlineHeading[] {
+  const roots: OutlineHeading[] = [];
+  const stack: OutlineHeading[] = [];
+
+  for (const heading of flat) {
+    const node: OutlineHeading = { ...heading, children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].level >= node.level) {
+      stack.pop();
+    }
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(node);
+    } else {
+      roots.push(node);
+    }
+    stack.push(node);
+  }
+
+  return roots;
+}
+
+/**
+ * Count code blocks and tables, collecting code block languages
+ */
+function scanBlocks(content: string, format: DocumentFormat) {
+  const languages = new Set<string>();
+  let codeBlocks = 0;
+  let tables = 0;
+  let fence: string | null = null;
+  let inTable = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    const fenced = format === 'markdown' || format === 'mdx';
+    const code = line.match(CODE_BLOCK[format]);
+
+    // Markdown fences close on the opening marker, at least as long; the
+    // other formats only mark openers
+    if (fenced && code) {
+      const marker = line.match(/^ {0,3}(`{3,}|~{3,})/)![1];
+      if (fence === null) {
+        fence = marker;
+        codeBlocks++;
+        if (code[1]) languages.add(code[1].toLowerCase());
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = null;
+      }
+      continue;
+    }
+    if (fence !== null) continue;
+    if (code) {
+      codeBlocks++;
+      if (code[1]) languages.add(code[1].toLowerCase());
+    }
+
+    // Count each table once, not each of its delimiter lines
+    const isTable = TABLE[format].test(line);
+    if (format === 'asciidoc') {
+      if (isTable) {
+        if (!inTable) tables++;
+        inTable = !inTable;
+      }
+    } else if (format === 'rst') {
+      if (isTable && !inTable) tables++;
+      inTable = isTable || (inTable && /^\s*[|+]/.test(line));
+    } else if (isTable) {
+      tables++;
+    }
+  }
+
+  return { fenceLanguages: [...languages], codeBlocks, tables };
+}
+
+/**
+ * Build the outline of a document (without front matter)
+ */
+export function buildOutline(content: string, format: DocumentFormat): DocumentOutline {
+  return {
+    title: extractTitle(content, format),
+    headings: buildHeadingTree(extractHeadings(content, format)),
+    ...scanBlocks(content, format),
+    links: hasMarkdownLinks(format) ? parseMarkdownLinks(content).map(link => link.target) : []
+  };
+}
+
+/**
+ * All headings of an outline in document order
+ */
+export function flattenHeadings(headings: OutlineHeading[]): OutlineHeading[] {
+  return headings.flatMap(heading => [heading, ...flattenHeadings(heading.children)]);
+}
+
+/**
+ * Check a rule's category, conditions and regexes, returning a description
+ * of the problem or null if valid
+ */
+export function validateOutlineRule(rule: OutlineRule, categories: string[]): string | null {
+  if (!rule || typeof rule.category !== 'string' || rule.category === '') {
+    return 'category is required';
+  }
+  if (!categories.includes(rule.category)) {
+    return `unknown category "${rule.category}"`;
+  }
+  // A rule without conditions would match every document
+  if (!rule.headings && !rule.fenceLanguages && rule.tables === undefined && !rule.links) {
+    return 'at least one of headings, fenceLanguages, tables or links is required';
+  }
+  for (const source of [...(rule.headings ?? []), ...(rule.links ?? [])]) {
+    try {
+      new RegExp(source, 'i');
+    } catch (error) {
+      return error instanceof Error ? error.message : `invalid regex ${source}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether every condition of a rule holds for an outline
+ */
+export function matchesOutlineRule(outline: DocumentOutline, rule: OutlineRule): boolean {
+  const anyMatch = (sources: string[], values: string[]) =>
+    sources.some(source => {
+      const regex = new RegExp(source, 'i');
+      return values.some(value => regex.test(value));
+    });
+
+  if (rule.headings && !anyMatch(rule.headings, flattenHeadings(outline.headings).map(h => h.text))) {
+    return false;
+  }
+  if (
+    rule.fenceLanguages &&
+    !rule.fenceLanguages.some(language => outline.fenceLanguages.includes(language.toLowerCase()))
+  ) {
+    return false;
+  }
+  if (rule.tables !== undefined && rule.tables !== outline.tables > 0) {
+    return false;
+  }
+  if (rule.links && !anyMatch(rule.links, outline.links)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Categories whose outline rules match, in rule order without duplicates
+ */
+export function matchOutlineRules(outline: DocumentOutline, rules: OutlineRule[]): string[] {
+  const categories = rules
+    .filter(rule => matchesOutlineRule(outline, rule))
+    .map(rule => rule.category);
+  return [...new Set(categories)];
+}
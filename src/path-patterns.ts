@@ -0,0 +1,125 @@
+/**
+ * Gitignore-style path patterns
+ *
+ * Used for excludePatterns and protectedFiles. Patterns follow .gitignore
+ * rules: a pattern without a slash matches a name at any depth, a pattern
+ * with a slash is anchored to the root, a trailing slash only matches
+ * directories, `!` re-includes a path and the last matching pattern wins.
+ */
+
+import * as path from 'path';
+import { Minimatch } from 'minimatch';
+
+interface CompiledPattern {
+  source: string;
+  negated: boolean;
+  dirOnly: boolean;
+  matcher: Minimatch;
+}
+
+/**
+ * Check a pattern, returning a description of the problem or null if valid
+ */
+export function validatePathPattern(pattern: unknown): string | null {
+  if (typeof pattern !== 'string') return 'expected a string';
+  const body = pattern.replace(/^!/, '').replace(/\/+$/, '').replace(/^\//, '');
+  if (body.trim() === '') return 'pattern is empty';
+  if (pattern.includes('\\')) return 'use forward slashes in patterns';
+  try {
+    if (new Minimatch(body, { dot: true, nocomment: true }).makeRe() === false) {
+      return 'pattern cannot be compiled';
+    }
+  } catch (error) {
+    return error instanceof Error ? error.message : 'pattern cannot be compiled';
+  }
+  return null;
+}
+
+function compilePattern(pattern: string): CompiledPattern {
+  let body = pattern;
+  const negated = body.startsWith('!');
+  if (negated) body = body.slice(1);
+
+  const dirOnly = body.endsWith('/');
+  body = body.replace(/\/+$/, '');
+
+  // Patterns with a slash are anchored to the root; others match at any depth
+  const anchored = body.includes('/');
+  body = body.replace(/^\//, '');
+
+  return {
+    source: pattern,
+    negated,
+    dirOnly,
+    matcher: new Minimatch(body, { dot: true, nocomment: true, matchBase: !anchored })
+  };
+}
+
+/**
+ * Parse the patterns in a .gitignore-style file, skipping comments and invalid lines
+ */
+export function parseIgnoreFile(content: string): string[] {
+  return content
+    .split(/\r?\n/)
+    .map(line => line.trimEnd())
+    .filter(line => line !== '' && !line.startsWith('#'))
+    .map(line => line.replace(/^\\#/, '#'))
+    .filter(line => validatePathPattern(line) === null);
+}
+
+/**
+ * Matches root-relative paths against a list of gitignore-style patterns
+ */
+export class PathMatcher {
+  private patterns: CompiledPattern[];
+
+  /**
+   * Compile patterns, throwing on the first invalid one
+   */
+  constructor(patterns: string[], label: string = 'pattern') {
+    this.patterns = patterns.map(pattern => {
+      const problem = validatePathPattern(pattern);
+      if (problem) {
+        throw new Error(`Invalid ${label} "${pattern}": ${problem}`);
+      }
+      return compilePattern(pattern);
+    });
+  }
+
+  /**
+   * Whether the patterns select this path or any directory containing it
+   */
+  matches(relativePath: string, isDirectory: boolean = false): boolean {
+    const normalized = path.posix.normalize(relativePath.split(path.sep).join('/'));
+    const segments = normalized.split('/');
+
+    // As in git, nothing below a matched directory can be re-included
+    for (let i = 1; i < segments.length; i++) {
+      if (this.matchesEntry(segments.slice(0, i).join('/'), true)) return true;
+    }
+    return this.matchesEntry(normalized, isDirectory);
+  }
+
+  /**
+   * Verdict of the last pattern matching this exact path: true when it is
+   * selected, false when a negation re-includes it, null when no pattern matches
+   *
+   * Unlike `matches`, containing directories are not checked; callers that
+   * walk the tree skip matched directories themselves.
+   */
+  decide(relativePath: string, isDirectory: boolean = false): boolean | null {
+    const normalized = path.posix.normalize(relativePath.split(path.sep).join('/'));
+    let verdict: boolean | null = null;
+    for (const pattern of this.patterns) {
+      if (pattern.dirOnly && !isDirectory) continue;
+      if (pattern.matcher.match(normalized)) {
+        verdict = !pattern.negated;
+      }
+    }
+    return verdict;
+  }
+
+  private matchesEntry(entry: string, isDirectory: boolean): boolean {
+    return this.decide(entry, isDirectory) === true;
+  }
+}
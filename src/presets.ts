@@ -1,9 +1,19 @@
-// Example configurations for different project types
-// These can be used as .doc-organizer.json files or in package.json under "docOrganizer" field
+/**
+ * Built-in config presets
+ *
+ * Starting points for common project types, referenced from a config file
+ * with `"extends": "preset:library"`. Settings in the extending file are
+ * layered on top (see mergeUserConfigs).
+ */
 
-const configs = {
+import { UserConfig } from './organizer';
+
+// Prefix marking a preset name in `extends`
+export const PRESET_PREFIX = 'preset:';
+
+export const PRESETS: Record<string, UserConfig> = {
   // Web Application (React, Vue, Angular, etc.)
-  webApp: {
+  'web-app': {
     projectType: 'web-app',
     structure: {
       aiDocs: 'ai_docs',
@@ -93,7 +103,7 @@ const configs = {
   },
 
   // Data Science/ML Project
-  dataScience: {
+  'data-science': {
     projectType: 'data-science',
     structure: {
       aiDocs: 'docs',
@@ -154,9 +164,8 @@ const configs = {
     ]
   },
 
-  // Documentation-heavy project
+  // Documentation-heavy project (combine with any project type)
   documentation: {
-    projectType: 'documentation',
     structure: {
       aiDocs: '.ai',
       specs: 'specifications',
@@ -175,58 +184,10 @@ const configs = {
       technical: 'technical/'
     },
     thresholds: {
-      autoApply: 0.9,  // Higher threshold for docs projects
+      autoApply: 0.9, // Higher threshold for docs projects
       suggest: 0.8,
       filename: 0.95,
       content: 0.6
     }
   }
 };
-
-// Usage examples:
-const usageExamples = {
-  // In package.json
-  packageJson: {
-    "name": "my-project",
-    "docOrganizer": {
-      "projectType": "web-app",
-      "structure": {
-        "aiDocs": "documentation"
-      },
-      "protectedFiles": [
-        "README.md",
-        "CUSTOM.md"
-      ]
-    }
-  },
-
-  // As .doc-organizer.json
-  configFile: {
-    "projectType": "library",
-    "structure": {
-      "aiDocs": "docs"
-    },
-    "thresholds": {
-      "autoApply": 0.9
-    }
-  },
-
-  // As .doc-organizer.js (for complex logic)
-  jsConfig: `
-module.exports = {
-  projectType: 'api',
-  structure: {
-    aiDocs: process.env.NODE_ENV === 'production' ? 'docs' : 'dev-docs'
-  },
-  patterns: {
-    // Custom patterns based on your naming conventions
-    myCustomPattern: /^(custom-prefix-)/i
-  },
-  destinations: {
-    myCustomPattern: '{aiDocs}/custom/'
-  }
-};
-`
-};
-
-module.exports = { configs, usageExamples }; 
\ No newline at end of file
@@ -0,0 +1,204 @@
+/**
+ * Project type detection
+ *
+ * Guesses the ProjectType from the files in a project: package.json
+ * dependencies and bin/exports fields, Python project files, notebooks,
+ * OpenAPI documents and mobile build files. Every marker adds weighted
+ * evidence to a type; evidence is combined with a noisy-OR like category
+ * scoring, and confidence drops when the runner-up is close.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProjectType, ProjectTypeDetection } from './types';
+import { calibrateConfidence } from './scoring';
+
+// Used when no marker is found
+const DEFAULT_PROJECT_TYPE: ProjectType = 'web-app';
+
+// How much a close runner-up lowers confidence
+const AMBIGUITY_PENALTY = 0.5;
+
+// How deep to look for notebooks, OpenAPI documents and build files
+const MAX_DEPTH = 2;
+
+// Directories never worth scanning for markers
+const SKIPPED_DIRS = new Set([
+  'node_modules',
+  'dist',
+  'build',
+  'coverage',
+  'vendor',
+  '__pycache__',
+  '.venv',
+  'venv'
+]);
+
+// npm dependencies that point to a project type, with their weight
+const NPM_DEPENDENCIES: Array<[RegExp, ProjectType, number]> = [
+  [/^(react-native|expo|@capacitor\/core|@ionic\/\w+|nativescript)$/, 'mobile', 0.9],
+  [/^(next|nuxt|@angular\/core|@sveltejs\/kit|gatsby|@remix-run\/react)$/, 'web-app', 0.8],
+  [/^(react|vue|svelte|solid-js|preact|vite)$/, 'web-app', 0.6],
+  [/^(express|fastify|koa|@nestjs\/core|@hapi\/hapi|hono|restify)$/, 'api', 0.7],
+  [/^(swagger-ui-express|@fastify\/swagger|express-openapi-validator|graphql-yoga|apollo-server)/, 'api', 0.5],
+  [/^(@tensorflow\/tfjs|danfojs|arquero)$/, 'data-science', 0.6]
+];
+
+// Python requirements that point to a project type, with their weight
+const PYTHON_REQUIREMENTS: Array<[RegExp, ProjectType, number]> = [
+  [/^(pandas|numpy|scipy|scikit-learn|sklearn|torch|tensorflow|keras|jupyter|notebook|matplotlib|seaborn|xgboost|polars)$/, 'data-science', 0.5],
+  [/^(fastapi|flask|django|djangorestframework|starlette|aiohttp|sanic|falcon)$/, 'api', 0.6]
+];
+
+// Files whose presence points to a project type
+const MARKER_FILES: Array<[RegExp, ProjectType, number, string]> = [
+  [/\.ipynb$/i, 'data-science', 0.8, 'Jupyter notebook'],
+  [/^(openapi|swagger)\.(ya?ml|json)$/i, 'api', 0.8, 'OpenAPI document'],
+  [/^Podfile$/, 'mobile', 0.8, 'CocoaPods Podfile'],
+  [/^pubspec\.yaml$/, 'mobile', 0.8, 'Flutter pubspec.yaml'],
+  [/^AndroidManifest\.xml$/, 'mobile', 0.8, 'Android manifest'],
+  [/\.xcodeproj$/, 'mobile', 0.7, 'Xcode project'],
+  [/^(dvc\.yaml|MLproject)$/, 'data-science', 0.6, 'ML pipeline file']
+];
+
+// Evidence collected for one project type
+interface Evidence {
+  miss: number; // Product of (1 - weight) over the evidence
+  reasons: string[];
+}
+
+/**
+ * Files and directories under the root, relative with posix separators
+ */
+function listEntries(rootDir: string, dir: string = '', depth: number = 0): string[] {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(path.join(rootDir, dir), { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const result: string[] = [];
+  for (const entry of entries) {
+    const relative = dir === '' ? entry.name : `${dir}/${entry.name}`;
+    result.push(relative);
+    if (
+      entry.isDirectory() &&
+      depth < MAX_DEPTH &&
+      !entry.name.startsWith('.') &&
+      !SKIPPED_DIRS.has(entry.name) &&
+      !entry.name.endsWith('.xcodeproj')
+    ) {
+      result.push(...listEntries(rootDir, relative, depth + 1));
+    }
+  }
+  return result;
+}
+
+/**
+ * Read a file in the root, or null when it does not exist or cannot be read
+ */
+function readRootFile(rootDir: string, name: string): string | null {
+  try {
+    return fs.readFileSync(path.join(rootDir, name), 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Requirement names in pyproject.toml, requirements.txt or setup.py text
+ */
+function pythonRequirements(text: string): string[] {
+  const names = text.match(/^\s*["']?([A-Za-z][\w.-]*)(?=\s*(?:[<>=!~;[\]"',]|$))/gm) ?? [];
+  return names.map(name => name.replace(/^\s*["']?/, '').toLowerCase().replace(/_/g, '-'));
+}
+
+/**
+ * Detect the project type of a directory
+ */
+export function detectProjectType(rootDir: string = '.'): ProjectTypeDetection {
+  const evidence = new Map<ProjectType, Evidence>();
+  const add = (projectType: ProjectType, weight: number, reason: string) => {
+    const current = evidence.get(projectType) ?? { miss: 1, reasons: [] };
+    current.miss *= 1 - weight;
+    current.reasons.push(reason);
+    evidence.set(projectType, current);
+  };
+
+  // package.json dependencies and publishing fields
+  const packageText = readRootFile(rootDir, 'package.json');
+  if (packageText !== null) {
+    let pkg: Record<string, unknown> = {};
+    try {
+      pkg = JSON.parse(packageText);
+    } catch {
+      // An unreadable package.json is simply not evidence
+    }
+    const dependencies = ['dependencies', 'devDependencies', 'peerDependencies'].flatMap(field =>
+      Object.keys((pkg[field] as Record<string, string>) ?? {})
+    );
+    for (const [pattern, projectType, weight] of NPM_DEPENDENCIES) {
+      const matches = [...new Set(dependencies.filter(name => pattern.test(name)))];
+      if (matches.length > 0) {
+        add(projectType, weight, `package.json depends on ${matches.join(', ')}`);
+      }
+    }
+    if (pkg.bin) add('library', 0.5, 'package.json has a "bin" field');
+    if (pkg.exports || pkg.types || pkg.typings) {
+      add('library', 0.6, 'package.json has "exports" or "types" fields');
+    }
+  }
+
+  // Python project files
+  for (const name of ['pyproject.toml', 'requirements.txt', 'setup.py', 'Pipfile']) {
+    const text = readRootFile(rootDir, name);
+    if (text === null) continue;
+    const requirements = new Set(pythonRequirements(text));
+    for (const [pattern, projectType, weight] of PYTHON_REQUIREMENTS) {
+      const matches = [...requirements].filter(requirement => pattern.test(requirement));
+      if (matches.length > 0) add(projectType, weight, `${name} requires ${matches.join(', ')}`);
+    }
+    if (name === 'pyproject.toml' && /^\[project\]/m.test(text) && requirements.size > 0) {
+      add('library', 0.3, 'pyproject.toml declares a package');
+    }
+  }
+
+  // Marker files and directories
+  const entries = listEntries(rootDir);
+  for (const [pattern, projectType, weight, label] of MARKER_FILES) {
+    const matches = entries.filter(entry => pattern.test(path.posix.basename(entry)));
+    if (matches.length > 0) {
+      const shown = matches.slice(0, 3).join(', ') + (matches.length > 3 ? ', ...' : '');
+      add(projectType, weight, `${label}: ${shown}`);
+    }
+  }
+  const gradle = entries.find(entry => /(^|\/)build\.gradle(\.kts)?$/.test(entry));
+  if (gradle && /com\.android\.(application|library)/.test(readRootFile(rootDir, gradle) ?? '')) {
+    add('mobile', 0.8, `${gradle} applies the Android plugin`);
+  }
+  if (entries.includes('ios') && entries.includes('android')) {
+    add('mobile', 0.6, 'ios/ and android/ directories');
+  }
+
+  const candidates = [...evidence.entries()]
+    .map(([projectType, { miss, reasons }]) => ({ projectType, score: 1 - miss, evidence: reasons }))
+    .sort((a, b) => b.score - a.score);
+
+  if (candidates.length === 0) {
+    return {
+      projectType: DEFAULT_PROJECT_TYPE,
+      confidence: 0,
+      evidence: [`no project markers found; using the default (${DEFAULT_PROJECT_TYPE})`],
+      candidates
+    };
+  }
+
+  const [best] = candidates;
+  return {
+    projectType: best.projectType,
+    confidence: calibrateConfidence(candidates, AMBIGUITY_PENALTY),
+    evidence: best.evidence,
+    candidates
+  };
+}
@@ -0,0 +1,177 @@
+/**
+ * Multi-signal category scoring
+ *
+ * Every category is scored against each signal (filename, headings,
+ * keyword density, current directory, front matter, outline rules).
+ * Signal strengths in [0, 1] are scaled by their configured weights and
+ * combined with a noisy-OR, so independent evidence adds up without
+ * exceeding 1. The confidence of the winner is then lowered when the
+ * runner-up is close.
+ */
+
+import { CategoryCandidate, DocumentCategory, ScoringSignal } from './types';
+
+// Keyword density at which the keyword signal saturates
+const KEYWORD_DENSITY_SATURATION = 0.04;
+
+// Strength of each distinct keyword found in the file name
+const FILENAME_KEYWORD_STRENGTH = 0.5;
+
+// Reason recorded for each signal
+export const SIGNAL_REASONS: Record<ScoringSignal, string> = {
+  filename: 'filename match',
+  headings: 'content match',
+  keywords: 'keyword match',
+  directory: 'directory match',
+  frontMatter: 'front matter match',
+  outline: 'outline match'
+};
+
+// What the scorer knows about a document
+export interface ScoringInput {
+  fileName: string; // Without extension
+  currentDir: string; // Root-relative, posix separators
+  headings: string[]; // Heading text to match category patterns against
+  body: string; // Content without front matter
+  frontMatter: Record<string, unknown>;
+  outlineCategories: string[]; // Categories whose outline rules matched
+}
+
+// Category rules and weights used for scoring
+export interface ScoringOptions {
+  patterns: Record<string, RegExp>;
+  destinations: Record<string, string>; // Resolved destination directories
+  keywords: Record<string, string[]>;
+  weights: Record<ScoringSignal, number>;
+}
+
+/**
+ * Split text into lowercase words
+ */
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+}
+
+/**
+ * Normalize a directory for comparison: posix, no leading ./ or trailing /
+ */
+function normalizeDir(dir: string): string {
+  const normalized = dir.replace(/\\/g, '/').replace(/^\.\/?/, '').replace(/\/+$/, '');
+  return normalized === '' ? '.' : normalized;
+}
+
+/**
+ * Strength of the keyword signal: distinct keywords in the file name plus
+ * keyword density in the body
+ */
+function keywordStrength(fileWords: string[], bodyWords: string[], keywords: string[]): number {
+  if (keywords.length === 0) return 0;
+  const stems = keywords.map(keyword => keyword.toLowerCase());
+  const matches = (word: string) => stems.some(stem => word.startsWith(stem));
+
+  const nameHits = new Set(fileWords.filter(matches)).size;
+  const density = bodyWords.length > 0 ? bodyWords.filter(matches).length / bodyWords.length : 0;
+
+  return Math.min(
+    1,
+    nameHits * FILENAME_KEYWORD_STRENGTH + density / KEYWORD_DENSITY_SATURATION
+  );
+}
+
+/**
+ * Strength of the front-matter signal: a category, type or tag naming the
+ * category (or matching its pattern)
+ */
+function frontMatterStrength(
+  frontMatter: Record<string, unknown>,
+  category: string,
+  pattern: RegExp
+): number {
+  const values = ['category', 'type', 'tags']
+    .flatMap(key => {
+      const value = frontMatter[key];
+      return Array.isArray(value) ? value : [value];
+    })
+    .filter((value): value is string => typeof value === 'string');
+
+  return values.some(value => value.toLowerCase() === category.toLowerCase() || pattern.test(value))
+    ? 1
+    : 0;
+}
+
+/**
+ * Strength of the directory signal: 1 when the file already sits in the
+ * category's destination, 0.5 when a directory name matches its pattern
+ */
+function directoryStrength(currentDir: string, destination: string | undefined, pattern: RegExp) {
+  const dir = normalizeDir(currentDir);
+  if (destination !== undefined && dir === normalizeDir(destination)) return 1;
+  return dir.split('/').some(segment => segment !== '.' && pattern.test(segment)) ? 0.5 : 0;
+}
+
+/**
+ * Score every category, best first; categories without evidence are omitted
+ */
+export function scoreCategories(input: ScoringInput, options: ScoringOptions): CategoryCandidate[] {
+  const fileWords = tokenize(input.fileName);
+  const bodyWords = tokenize(input.body);
+  const candidates: CategoryCandidate[] = [];
+
+  for (const [category, pattern] of Object.entries(options.patterns)) {
+    const signals: Partial<Record<ScoringSignal, number>> = {
+      filename: pattern.test(input.fileName) ? 1 : 0,
+      // AI instruction files are recognized by name only
+      headings:
+        category !== 'aiInstructions' && input.headings.some(heading => pattern.test(heading))
+          ? 1
+          : 0,
+      keywords: keywordStrength(fileWords, bodyWords, options.keywords[category] ?? []),
+      directory: directoryStrength(input.currentDir, options.destinations[category], pattern),
+      frontMatter: frontMatterStrength(input.frontMatter, category, pattern),
+      outline: input.outlineCategories.includes(category) ? 1 : 0
+    };
+
+    let miss = 1;
+    for (const [signal, strength] of Object.entries(signals) as Array<[ScoringSignal, number]>) {
+      if (strength > 0) {
+        miss *= 1 - Math.min(1, options.weights[signal] * strength);
+      } else {
+        delete signals[signal];
+      }
+    }
+
+    // Being in the right folder is not evidence on its own
+    const score = Object.keys(signals).some(signal => signal !== 'directory') ? 1 - miss : 0;
+    if (score > 0) {
+      candidates.push({ category: category as DocumentCategory, score, signals });
+    }
+  }
+
+  // Stable sort keeps pattern order for ties
+  return candidates.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Confidence in the best candidate, lowered when the runner-up is close
+ *
+ * With scores s1 >= s2 and penalty p, confidence is s1 * s1 / (s1 + p * s2):
+ * an unchallenged winner keeps its score, a tie at p = 0.5 loses a third.
+ */
+export function calibrateConfidence<T extends Pick<CategoryCandidate, 'score'>>(
+  candidates: T[],
+  penalty: number
+): number {
+  if (candidates.length === 0) return 0;
+  const [best, runnerUp] = candidates;
+  const second = runnerUp?.score ?? 0;
+  return (best.score * best.score) / (best.score + penalty * second);
+}
+
+/**
+ * Reasons for a candidate, strongest signal first
+ */
+export function describeSignals(candidate: CategoryCandidate): string[] {
+  return (Object.entries(candidate.signals) as Array<[ScoringSignal, number]>)
+    .sort((a, b) => b[1] - a[1])
+    .map(([signal]) => SIGNAL_REASONS[signal]);
+}
@@ -5,8 +5,16 @@
 // Project types supported by the organizer
 export type ProjectType = 'web-app' | 'library' | 'api' | 'data-science' | 'mobile';
 
-// Document categories for classification
-export type DocumentCategory =
+// Result of automatic project type detection
+export interface ProjectTypeDetection {
+  projectType: ProjectType;
+  confidence: number; // 0 when no marker was found and the default was used
+  evidence: string[]; // Markers found for the chosen type
+  candidates: Array<{ projectType: ProjectType; score: number; evidence: string[] }>; // Best first
+}
+
+// Categories the organizer knows without configuration
+export type BuiltInCategory =
   | 'aiInstructions'
   | 'architecture'
   | 'features'
@@ -22,9 +30,28 @@ export type DocumentCategory =
   | 'endpoints'
   | 'unknown';
 
+// Document categories for classification: built-in or declared in config
+export type DocumentCategory = BuiltInCategory | (string & {});
+
+// A category declared in config
+export interface CategoryDefinition {
+  name: string;
+  description?: string; // Shown to the AI and in reports
+  patterns?: string[]; // Regexes (case-insensitive) matched against file names and headings
+  destination?: string; // Defaults to {aiDocs}/<name>/
+  keywords?: string[]; // Word stems for the keyword signal
+  examples?: string[]; // Example file names, shown to the AI
+}
+
+// Document formats recognized by extension
+export type DocumentFormat = 'markdown' | 'mdx' | 'rst' | 'asciidoc' | 'text';
+
 // Configuration structure
 export interface DocOrganizerConfig {
   projectType: ProjectType;
+  rootDir: string; // Absolute directory that is scanned; reported paths are relative to it
+  useIgnoreFiles: boolean; // Honor .gitignore and .doc-organizerignore files while scanning
+  extensions: string[]; // Document extensions to scan, lowercase with a leading dot
   structure: {
     aiDocs: string;
     specs: string;
@@ -32,16 +59,126 @@ export interface DocOrganizerConfig {
   };
   patterns: Record<string, RegExp>;
   destinations: Record<string, string>;
+  categories: CategoryDefinition[]; // Descriptions of built-in and configured categories
   protectedFiles: string[];
   thresholds: {
     autoApply: number;
     suggest: number;
-    filename: number;
-    content: number;
+    filename: number; // Default weight of the filename signal
+    content: number; // Default weight of the headings signal
     aiConfidence: number; // Minimum AI confidence to trust
+    duplicate: number; // Minimum shingle similarity for near-duplicate documents
+  };
+  keywords: Record<string, string[]>; // Per-category keyword stems for the keyword signal
+  outlineRules: OutlineRule[]; // Structure-based rules for the outline signal
+  namingRules: NamingRule[]; // File naming conventions, checked by checkNamingConventions
+  scoring: {
+    weights: Record<ScoringSignal, number>; // How much each signal contributes (0-1)
+    ambiguityPenalty: number; // How much a close runner-up lowers confidence (0 disables)
   };
   ai: AIConfig;
+  localModel: {
+    enabled: boolean; // Use a model trained with `doc-organize train` below ai.fallbackThreshold
+    minDocuments: number; // Correctly placed docs required to train
+  };
+  decisions: {
+    enabled: boolean; // Honor decisions recorded with `doc-organize decide`
+    contradictionThreshold: number; // Rejections/overrides before a rule is reported
+  };
   excludePatterns: string[];
+  collisions: {
+    strategy: CollisionStrategy;
+  };
+  indexes: {
+    fileName: string; // Index page written by `doc-organize index` (README.md or index.md)
+  };
+}
+
+// Evidence used to score a category
+export type ScoringSignal =
+  | 'filename'
+  | 'headings'
+  | 'keywords'
+  | 'directory'
+  | 'frontMatter'
+  | 'outline';
+
+// Heading in a document outline, with its subsections
+export interface OutlineHeading {
+  level: number;
+  text: string;
+  line: number; // 1-based
+  children: OutlineHeading[];
+}
+
+// Structure of a document, used by outline rules and other analyses
+export interface DocumentOutline {
+  title: string | null;
+  headings: OutlineHeading[]; // Top-level headings; subsections are nested
+  fenceLanguages: string[]; // Distinct code block languages, lowercase
+  codeBlocks: number;
+  tables: number;
+  links: string[]; // Link targets as written (Markdown and MDX only)
+}
+
+// Category rule evaluated against a document outline; every listed condition must hold
+export interface OutlineRule {
+  category: string;
+  headings?: string[]; // Regexes (case-insensitive); some heading must match one of them
+  fenceLanguages?: string[]; // Some code block must use one of these languages
+  tables?: boolean; // Whether the document must (or must not) contain a table
+  links?: string[]; // Regexes; some link target must match one of them
+}
+
+// How serious a naming rule violation is; "off" disables the rule
+export type NamingSeverity = 'error' | 'warning' | 'info' | 'off';
+
+// Case style a file name must follow
+export type CaseStyle = 'kebab-case' | 'snake_case' | 'camelCase' | 'PascalCase';
+
+// File naming convention; rules with the name of a built-in rule replace it
+export interface NamingRule {
+  name: string;
+  severity?: NamingSeverity; // Default "warning"
+  message?: string; // Replaces the generated description of each problem
+  directories?: string[]; // Gitignore-style globs; the rule applies to matching files
+  categories?: string[]; // The rule applies to files in these categories' destinations
+  case?: CaseStyle; // Checked on the name without extension and date prefix
+  prefix?: string[]; // The name must start with one of these
+  suffix?: string[]; // The name (without extension) must end with one of these
+  maxLength?: number; // Maximum length of the name without extension
+  forbiddenWords?: string[]; // Words (split on -, _, spaces and case changes) not allowed
+  forbiddenNames?: string[]; // Whole names (without extension) not allowed
+  datePrefix?: string; // Required prefix format, e.g. "YYYY-MM-DD" or "NNNN" for ADR numbers
+  noSpaces?: boolean;
+  noUppercase?: boolean;
+}
+
+// One problem with a file name
+export interface NamingIssue {
+  rule: string;
+  severity: Exclude<NamingSeverity, 'off'>;
+  message: string;
+  fixable: boolean; // Whether --fix can rename the file to resolve it
+}
+
+// A category considered for a file, with the strength (0-1) of each signal that fired
+export interface CategoryCandidate {
+  category: DocumentCategory;
+  score: number;
+  signals: Partial<Record<ScoringSignal, number>>;
+}
+
+// What to do when several files (or an existing file) share a destination
+export type CollisionStrategy = 'skip' | 'suffix' | 'fail';
+
+// Destination shared by several suggestions, or already taken on disk
+export interface DestinationCollision {
+  destination: string;
+  sources: string[];
+  kind: 'plan' | 'disk'; // Within the suggested moves, or against an existing file
+  resolution: 'skipped' | 'suffixed' | 'failed';
+  renamedTo?: Record<string, string>; // Source -> suffixed destination
 }
 
 // AI-specific configuration
@@ -58,11 +195,25 @@ export interface FileAnalysis {
   currentPath: string;
   currentDir: string;
   contentLength: number;
+  format?: DocumentFormat;
   suggestedCategory: DocumentCategory | null;
   suggestedPath: string | null;
   confidence: number;
   reasons: string[];
   aiEnhanced?: boolean; // Whether AI was used to enhance classification
+  localModelUsed?: boolean; // Whether the offline model was consulted
+  decision?: DecisionAction; // Recorded decision that shaped this analysis
+  candidates?: CategoryCandidate[]; // Every category with evidence, best first
+  outline?: DocumentOutline;
+  directives?: DocDirectives; // Overrides from front matter or comments, when present
+}
+
+// Classifier overrides declared inside a document
+export interface DocDirectives {
+  category?: string; // Category to file the document under, with full confidence
+  destination?: string; // Destination directory, may use {aiDocs}, {specs} and {root}
+  pin?: boolean; // Keep the document where it is, like protectedFiles
+  ignore?: boolean; // Leave the document out of analysis
 }
 
 // Organization suggestion
@@ -86,12 +237,42 @@ export interface AIClassificationResult {
   }>;
 }
 
+// Offline TF-IDF model saved by `doc-organize train`
+export interface LocalModel {
+  version: number;
+  trainedAt: string;
+  idf: Record<string, number>; // Inverse document frequency per term
+  centroids: Record<string, Record<string, number>>; // Unit-length mean vector per category
+  documentCounts: Record<string, number>; // Training documents per category
+}
+
+// Offline classification result
+export interface LocalClassificationResult {
+  category: DocumentCategory;
+  confidence: number;
+  similarity: number; // Cosine similarity to the category centroid
+  alternatives: Array<{
+    category: DocumentCategory;
+    similarity: number;
+  }>;
+}
+
+// Cross-validation result for the offline model
+export interface LocalModelEvaluation {
+  documents: number;
+  folds: number;
+  correct: number;
+  accuracy: number; // 0-1
+  perCategory: Record<string, { total: number; correct: number }>;
+}
+
 // AI Classification request
 export interface AIClassificationRequest {
   filePath: string;
   fileName: string;
   contentPreview: string;
   availableCategories: DocumentCategory[];
+  categories?: CategoryDefinition[]; // Descriptions for the prompt; built-in ones when omitted
   existingAnalysis?: {
     category: DocumentCategory | null;
     confidence: number;
@@ -99,19 +280,105 @@ export interface AIClassificationRequest {
   };
 }
 
+// Two documents with overlapping content
+export interface DuplicatePair {
+  files: [string, string]; // In path order
+  similarity: number; // Jaccard similarity of word shingles (0-1)
+  exact: boolean; // Same words after removing front matter and punctuation
+  sections: Array<{
+    headings: [string, string]; // Section of each file, "(introduction)" before the first heading
+    similarity: number;
+  }>;
+}
+
+// Documents that duplicate each other, directly or through another member
+export interface DuplicateCluster {
+  files: string[];
+  similarity: number; // Highest similarity of any pair
+  exact: boolean; // Every pair is an exact duplicate
+  pairs: DuplicatePair[];
+}
+
+// Documents that cannot be reached by following links from the root README
+export interface UnreachableSubtree {
+  root: string; // Highest folder (with a trailing slash) whose documents are all unreachable, or a single file
+  files: string[];
+}
+
+// A relative link or image whose target does not exist
+export interface BrokenLink {
+  file: string; // Document containing the link
+  line: number; // 1-based
+  column: number; // 1-based column of the target
+  target: string; // As written
+  reason: 'missing-file' | 'missing-anchor';
+  suggestion: string | null; // Closest existing target, written relative to the document
+}
+
+// How recently a document was changed, from git history or its modification time
+export interface DocFreshness {
+  file: string;
+  source: 'git' | 'mtime'; // mtime outside a repository, without commits or for newer uncommitted edits
+  lastModified: string; // ISO date of the last content change
+  ageDays: number;
+  author: string | null; // Author of the last content commit
+  commit: string | null;
+  codeReferences?: string[]; // Referenced code paths, when compared against code
+  codeLastModified?: string; // ISO date of the last commit to the referenced code
+  behindCodeDays?: number; // Days the referenced code changed after the document
+  freshness: number; // 1 when just changed, halving every staleDays of age or lag (0-1)
+  stale: boolean; // Freshness below 0.5
+}
+
 // Health check result for MCP server
 export interface HealthCheckResult {
   totalFiles: number;
   misplacedFiles: number;
   staleFiles: string[];
-  orphanedFiles: string[];
+  freshness: DocFreshness[]; // Every document, stalest first
+  orphanedFiles: string[]; // Documents no other document links to, except README, index and similar pages
+  unreachable: UnreachableSubtree[]; // Not reachable by links from README.md
   namingViolations: Array<{
     file: string;
     issues: string[];
+    severity: NamingIssue['severity'];
+    fix?: string;
   }>;
+  staleIndexes: string[]; // Generated folder index pages that no longer match their folder
+  brokenLinks: BrokenLink[];
+  duplicates: DuplicateCluster[];
   healthScore: number; // 0-100
 }
 
+// Issue counts recorded in a health snapshot; higher is worse
+export interface HealthIssueCounts {
+  misplaced: number;
+  stale: number;
+  orphaned: number;
+  unreachable: number; // Docs not reachable from README.md
+  namingViolations: number; // Excluding info severity
+  staleIndexes: number;
+  brokenLinks: number;
+  duplicates: number; // Documents in duplicate groups beyond the first of each
+}
+
+// A health check result kept in .doc-organizer/history.json
+export interface HealthSnapshot {
+  timestamp: string; // ISO date
+  commit: string | null; // HEAD when the snapshot was taken
+  healthScore: number;
+  grade: string;
+  totalFiles: number;
+  issues: HealthIssueCounts;
+}
+
+// A metric that got worse between two snapshots
+export interface HealthRegression {
+  metric: 'healthScore' | keyof HealthIssueCounts;
+  before: number;
+  after: number;
+}
+
 // MCP Tool definitions
 export interface MCPToolDefinition {
   name: string;
@@ -140,14 +407,92 @@ export interface ReportOptions {
   verbose?: boolean;
 }
 
+// Link rewritten because a file it points at (or lives in) was moved
+export interface LinkRewrite {
+  file: string; // File containing the link, at its post-move location
+  line: number;
+  column: number;
+  kind: 'inline' | 'image' | 'reference';
+  from: string;
+  to: string;
+}
+
+// Options for applying moves
+export interface ApplyMovesOptions {
+  dryRun?: boolean; // Report what would change without touching the filesystem
+  rewriteLinks?: boolean; // Rewrite relative links to and from moved files (default true)
+  journal?: boolean; // Record the applied changes so they can be undone (default true)
+  force?: boolean; // Move tracked files even when they have uncommitted changes
+  useGit?: boolean; // Use `git mv` for tracked files (default: when inside a git working tree)
+}
+
 // Apply moves result
 export interface ApplyMovesResult {
   successful: number;
   failed: number;
+  moves: Array<{
+    from: string;
+    to: string;
+    success: boolean;
+    method?: 'git' | 'fs';
+    error?: string;
+  }>;
+  linkRewrites: LinkRewrite[];
+  collisions: DestinationCollision[];
+  journalId?: string; // Set when the changes were recorded in the undo journal
+}
+
+// What a user decided about a suggestion
+export type DecisionAction = 'accept' | 'reject' | 'override';
+
+// A recorded decision; it applies while the file keeps the same content
+export interface Decision {
+  file: string; // Root-relative path the decision was made for
+  hash: string; // Content hash at decision time, without relative link targets
+  action: DecisionAction;
+  destination?: string; // Accepted or overriding location
+  suggested?: string; // Suggestion shown when the decision was made
+  category?: string; // Category of that suggestion
+  reasons?: string[]; // Signals behind that suggestion
+  decidedAt: string;
+}
+
+// Category rule that users keep rejecting or overriding
+export interface ContradictedRule {
+  category: string;
+  reason: string; // Strongest signal behind the contradicted suggestions
+  contradictions: number;
+  files: string[];
+}
+
+// Journal of one applyMoves run, replayed backwards by undo
+export interface JournalEntry {
+  id: string;
+  createdAt: string;
+  undoneAt?: string;
+  moves: Array<{
+    from: string;
+    to: string;
+    hash: string; // Content hash at `to` once the apply finished
+    method: 'git' | 'fs';
+  }>;
+  createdDirs: string[];
+  linkRewrites: LinkRewrite[];
+  fileHashes: Record<string, string>; // Post-apply hashes of files with rewritten links
+}
+
+// Undo result
+export interface UndoResult {
+  id: string;
+  restored: number;
+  failed: number;
   moves: Array<{
     from: string;
     to: string;
     success: boolean;
     error?: string;
   }>;
+  revertedLinks: number;
+  removedDirs: string[];
+  warnings: string[];
 }
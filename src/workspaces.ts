@@ -0,0 +1,234 @@
+/**
+ * Monorepo workspaces
+ *
+ * Discovers the packages of a monorepo (npm/yarn `workspaces`, pnpm
+ * `pnpm-workspace.yaml` and directories with their own doc-organizer config)
+ * and scans each one as a separate project: with its own config layered on
+ * the root config, its own project type and destinations resolved against
+ * the package directory. The root project skips the packages' directories.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Minimatch } from 'minimatch';
+import { parse as parseYaml } from 'yaml';
+import { AnalysisStats, DocumentationOrganizer, UserConfig } from './organizer';
+import {
+  CONFIG_FILES,
+  findConfiguration,
+  mergeUserConfigs,
+  resolveConfigLayers
+} from './config-loader';
+
+// How deep to look for workspace packages and nested configs
+const MAX_DEPTH = 6;
+
+// Directories that never hold workspace packages
+const SKIPPED_DIRS = new Set(['node_modules', 'dist', 'build', 'coverage', 'vendor']);
+
+// A package of a monorepo
+export interface Workspace {
+  name: string; // package.json name, or the directory
+  dir: string; // Root-relative, posix separators; "." for the root project
+  source: 'root' | 'workspaces' | 'pnpm' | 'config'; // How it was found
+  configFile: string | null; // Its own doc-organizer config, if any
+}
+
+// Analysis of one workspace
+export interface WorkspaceResult {
+  workspace: Workspace;
+  organizer: DocumentationOrganizer;
+  stats: AnalysisStats;
+}
+
+// Analysis of every workspace with totals
+export interface WorkspaceAnalysis {
+  workspaces: WorkspaceResult[];
+  totals: AnalysisStats;
+}
+
+/**
+ * Read and parse a JSON or YAML file in a directory, or null if it is missing or invalid
+ */
+function readData(dir: string, name: string): Record<string, unknown> | null {
+  const file = path.join(dir, name);
+  if (!fs.existsSync(file)) return null;
+  try {
+    const text = fs.readFileSync(file, 'utf8');
+    const data = name.endsWith('.json') ? JSON.parse(text) : parseYaml(text);
+    return data && typeof data === 'object' ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Workspace globs declared by npm/yarn (package.json) and pnpm
+ */
+function workspaceGlobs(rootDir: string): Array<{ pattern: string; source: Workspace['source'] }> {
+  const globs: Array<{ pattern: string; source: Workspace['source'] }> = [];
+
+  const declared = readData(rootDir, 'package.json')?.workspaces;
+  // Yarn also accepts { packages: [...] }
+  const npmGlobs = Array.isArray(declared)
+    ? declared
+    : (declared as { packages?: unknown } | undefined)?.packages;
+  if (Array.isArray(npmGlobs)) {
+    npmGlobs.forEach(pattern => globs.push({ pattern: String(pattern), source: 'workspaces' }));
+  }
+
+  const pnpmGlobs = readData(rootDir, 'pnpm-workspace.yaml')?.packages;
+  if (Array.isArray(pnpmGlobs)) {
+    pnpmGlobs.forEach(pattern => globs.push({ pattern: String(pattern), source: 'pnpm' }));
+  }
+
+  return globs.map(({ pattern, source }) => ({
+    pattern: pattern.replace(/^\.\//, '').replace(/\/+$/, ''),
+    source
+  }));
+}
+
+/**
+ * Directories below the root, root-relative with posix separators
+ */
+function listDirectories(rootDir: string, dir: string = '', depth: number = 0): string[] {
+  if (depth >= MAX_DEPTH) return [];
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(path.join(rootDir, dir), { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const result: string[] = [];
+  // Sorted so workspaces are reported in a stable order
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    if (!entry.isDirectory() || entry.name.startsWith('.') || SKIPPED_DIRS.has(entry.name)) continue;
+    const relative = dir === '' ? entry.name : `${dir}/${entry.name}`;
+    result.push(relative, ...listDirectories(rootDir, relative, depth + 1));
+  }
+  return result;
+}
+
+/**
+ * Whether a directory holds a doc-organizer config file
+ */
+function hasOwnConfig(dir: string): boolean {
+  return CONFIG_FILES.some(name =>
+    name === 'package.json'
+      ? readData(dir, name)?.docOrganizer !== undefined
+      : fs.existsSync(path.join(dir, name))
+  );
+}
+
+/**
+ * Find the workspaces of a monorepo, not counting the root project
+ *
+ * Returns an empty list for a single-package repository.
+ */
+export function discoverWorkspaces(rootDir: string = '.'): Workspace[] {
+  const globs = workspaceGlobs(rootDir);
+  const included = globs
+    .filter(glob => !glob.pattern.startsWith('!'))
+    .map(glob => ({ matcher: new Minimatch(glob.pattern), source: glob.source }));
+  const excluded = globs
+    .filter(glob => glob.pattern.startsWith('!'))
+    .map(glob => new Minimatch(glob.pattern.slice(1)));
+
+  const workspaces: Workspace[] = [];
+  for (const dir of listDirectories(rootDir)) {
+    const absolute = path.join(rootDir, dir);
+    const declared = fs.existsSync(path.join(absolute, 'package.json'))
+      ? included.find(glob => glob.matcher.match(dir))
+      : undefined;
+    const isWorkspace = declared && !excluded.some(matcher => matcher.match(dir));
+    const configured = hasOwnConfig(absolute);
+    if (!isWorkspace && !configured) continue;
+
+    const name = readData(absolute, 'package.json')?.name;
+    workspaces.push({
+      name: typeof name === 'string' ? name : dir,
+      dir,
+      source: isWorkspace ? declared!.source : 'config',
+      configFile: configured ? findConfiguration(absolute)?.file ?? null : null
+    });
+  }
+  return workspaces;
+}
+
+/**
+ * Config for one workspace: its own config layered on the root config
+ *
+ * Directories of nested workspaces are excluded so every file is scanned
+ * by exactly one workspace. The root config's project type is not
+ * inherited: unless its own config sets one, a workspace's type is detected
+ * from its own files.
+ */
+export function workspaceConfig(
+  rootDir: string,
+  rootConfig: UserConfig,
+  workspace: Workspace,
+  workspaces: Workspace[]
+): UserConfig {
+  const own = workspace.dir === '.' ? null : findConfiguration(path.join(rootDir, workspace.dir));
+  const ownLayers = own ? resolveConfigLayers(own.config, own.file) : [];
+  const layers = [...resolveConfigLayers(rootConfig, 'root config'), ...ownLayers];
+  const merged = mergeUserConfigs(layers.map(layer => layer.config as UserConfig));
+  const ownProjectType = mergeUserConfigs(ownLayers.map(layer => layer.config as UserConfig)).projectType;
+  const excludePatterns =
+    merged.excludePatterns ?? new DocumentationOrganizer({ rootDir }).config.excludePatterns;
+
+  const nested = workspaces
+    .filter(other => other !== workspace)
+    .filter(other => workspace.dir === '.' || other.dir.startsWith(`${workspace.dir}/`))
+    .map(other => `/${workspace.dir === '.' ? other.dir : other.dir.slice(workspace.dir.length + 1)}/`);
+
+  return {
+    ...merged,
+    rootDir: path.join(rootDir, workspace.dir),
+    projectType: workspace.dir === '.' ? merged.projectType : ownProjectType ?? 'auto',
+    excludePatterns: [...excludePatterns, ...nested]
+  };
+}
+
+/**
+ * Analyze the root project and every workspace
+ *
+ * The root project is listed first, as "." with the root package name.
+ */
+export async function analyzeWorkspaces(
+  rootDir: string = '.',
+  rootConfig: UserConfig = {},
+  options: { useAI?: boolean } = {}
+): Promise<WorkspaceAnalysis> {
+  const workspaces = discoverWorkspaces(rootDir);
+  const rootName = readData(rootDir, 'package.json')?.name;
+  const all: Workspace[] = [
+    {
+      name: typeof rootName === 'string' ? rootName : path.basename(path.resolve(rootDir)),
+      dir: '.',
+      source: 'root',
+      configFile: null
+    },
+    ...workspaces
+  ];
+
+  const results: WorkspaceResult[] = [];
+  for (const workspace of all) {
+    const organizer = new DocumentationOrganizer(workspaceConfig(rootDir, rootConfig, workspace, workspaces));
+    const stats = options.useAI
+      ? await organizer.generateSuggestionsWithAI()
+      : organizer.generateSuggestions();
+    results.push({ workspace, organizer, stats });
+  }
+
+  const totals: AnalysisStats = { files: 0, misplaced: 0, ignored: 0, suppressed: 0 };
+  for (const { stats } of results) {
+    totals.files += stats.files;
+    totals.misplaced += stats.misplaced;
+    totals.ignored += stats.ignored;
+    totals.suppressed += stats.suppressed;
+  }
+
+  return { workspaces: results, totals };
+}